@@ -0,0 +1,122 @@
+/**
+ * Offline tool for key escrow
+ * Puts a key file under M-of-N key escrow and writes each share to its own
+ * file, so that shares are handed to their holders directly and never pass
+ * through the MCP server or the model. Stop the server before running it;
+ * the server reads the new key file when it starts.
+ *
+ * Usage:
+ *   node dist/cli/escrow.js split <key-file> <threshold> <shares> <output-dir> [share-file...]
+ */
+
+/// <reference types="node" />
+
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG } from '../config.js';
+import { Keyring } from '../core/keyring.js';
+import { parseEscrowShare } from '../core/shamir.js';
+
+const USAGE = `Usage:
+  escrow split <key-file> <threshold> <shares> <output-dir> [share-file...]
+      Wrap every key in <key-file> with a new random key, split it into <shares>
+      shares of which <threshold> unlock the key file, and write them to
+      <output-dir>/share-<index>.txt. A passphrase-protected key file is unlocked
+      with KEY_PASSPHRASE; a key file already under escrow is unlocked with the
+      given share files, and its old shares stop working`;
+
+/**
+ * Parse a positive integer argument
+ */
+function parseCount(name: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return count;
+}
+
+/**
+ * Unlock a protected key file with the passphrase or existing shares
+ */
+async function unlockKeyring(keyring: Keyring, shareFiles: string[]): Promise<void> {
+  if (keyring.getEscrowParameters()) {
+    const shares = [];
+    for (const file of shareFiles) {
+      shares.push(parseEscrowShare(await fsPromises.readFile(file, 'utf-8')));
+    }
+    try {
+      keyring.unlockWithShares(shares);
+    } finally {
+      for (const share of shares) {
+        share.value.fill(0);
+      }
+    }
+  } else if (keyring.isProtected()) {
+    if (!process.env.KEY_PASSPHRASE) {
+      throw new Error('Key file is passphrase-protected; set KEY_PASSPHRASE to unlock it');
+    }
+    await keyring.unlock(process.env.KEY_PASSPHRASE);
+  }
+}
+
+/**
+ * Put a key file under key escrow and write the shares
+ */
+async function split(
+  keyFile: string,
+  threshold: number,
+  shareCount: number,
+  outputDir: string,
+  shareFiles: string[]
+): Promise<void> {
+  // Never create a new key file: a mistyped path would escrow a fresh key
+  await fsPromises.access(keyFile);
+  
+  const { keySize, kdf } = DEFAULT_CONFIG.encryption;
+  const keyring = new Keyring(keyFile, keySize, kdf);
+  await keyring.load({ requireProtection: false });
+  await unlockKeyring(keyring, shareFiles);
+  
+  const shares = keyring.splitIntoEscrow(threshold, shareCount);
+  await fsPromises.mkdir(outputDir, { recursive: true, mode: 0o700 });
+  const files = shares.map((_, index) => path.join(outputDir, `share-${index + 1}.txt`));
+  // Write every share before the key file, so a failure leaves the old key file in place
+  for (const [index, share] of shares.entries()) {
+    await fsPromises.writeFile(files[index], share + '\n', { flag: 'wx', mode: 0o600 });
+  }
+  await keyring.save();
+  keyring.lock();
+  
+  console.log(`Key file ${keyFile} is now under ${threshold}-of-${shareCount} key escrow`);
+  for (const file of files) {
+    console.log(`  ${file}`);
+  }
+  console.log('Hand each share to a different holder and delete it here.');
+}
+
+/**
+ * Run the command given on the command line
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  
+  if (command === 'split' && args.length >= 4) {
+    const [keyFile, threshold, shares, outputDir, ...shareFiles] = args;
+    await split(
+      keyFile,
+      parseCount('threshold', threshold),
+      parseCount('shares', shares),
+      outputDir,
+      shareFiles
+    );
+  } else {
+    console.error(USAGE);
+    process.exitCode = 2;
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Offline evaluation of the privacy detector
+ * Runs the detector configured in a config file over a labeled corpus and
+ * prints a JSON report with precision, recall and F1 per segment and per
+ * private span, a breakdown by rule, and optionally the best introspection
+ * and sensitivity thresholds found by a grid sweep.
+ *
+ * Usage:
+ *   node dist/cli/evaluate.js <corpus.jsonl> [--config <config.json>] [--sweep] [--step <step>]
+ */
+
+/// <reference types="node" />
+
+import { loadConfig } from '../config.js';
+import { createPrivacyDetector } from '../core/privacy-detector.js';
+import { evaluateDetector, loadCorpus, sweepThresholds } from '../core/evaluation.js';
+
+/** Default grid step of threshold sweeps */
+const DEFAULT_SWEEP_STEP = 0.05;
+
+const USAGE = `Usage:
+  evaluate <corpus.jsonl> [--config <config.json>] [--sweep] [--step <step>]
+      Evaluate the privacy detector of a configuration (default: CONFIG_PATH or config.json)
+      on a labeled corpus with one {"id", "text", "privateSpans": [{"start", "end"}]} object per line.
+      --sweep also tries introspection and sensitivity thresholds on a grid (default step ${DEFAULT_SWEEP_STEP})
+      and suggests the pair with the best segment F1. The report is printed as JSON`;
+
+/**
+ * Command line options
+ */
+interface Options {
+  corpus: string;
+  config?: string;
+  sweep: boolean;
+  step: number;
+}
+
+/**
+ * Parse the command line
+ * @returns The options, or null if they are invalid
+ */
+function parseArgs(args: string[]): Options | null {
+  const options: Partial<Options> = { sweep: false, step: DEFAULT_SWEEP_STEP };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--config' && index + 1 < args.length) {
+      options.config = args[++index];
+    } else if (arg === '--sweep') {
+      options.sweep = true;
+    } else if (arg === '--step' && index + 1 < args.length) {
+      options.step = Number(args[++index]);
+    } else if (!arg.startsWith('--') && options.corpus === undefined) {
+      options.corpus = arg;
+    } else {
+      return null;
+    }
+  }
+  return options.corpus === undefined ? null : options as Options;
+}
+
+/**
+ * Run the command given on the command line
+ */
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  
+  // Progress messages of the configuration and the detector go to stderr,
+  // so stdout holds only the report
+  console.log = console.error;
+  
+  const config = await loadConfig(options.config);
+  const documents = await loadCorpus(options.corpus);
+  const detector = await createPrivacyDetector(config.privacy);
+  const result = await evaluateDetector(detector, documents);
+  
+  const report = {
+    corpus: {
+      file: options.corpus,
+      documents: documents.length,
+      privateSpans: documents.reduce((total, document) => total + document.privateSpans.length, 0)
+    },
+    privacy: config.privacy,
+    ...result,
+    sweep: options.sweep ? await sweepThresholds(config.privacy, documents, options.step) : undefined
+  };
+  process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  process.exitCode = result.failures.length > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('Error:', (error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+/**
+ * Offline tool for sealed mode
+ * Generates recipient key pairs and decrypts sealed thoughts with a
+ * recipient private key. Run it where the private keys live, never on the
+ * server that writes the thoughts.
+ *
+ * Usage:
+ *   node dist/cli/sealed.js keygen <x25519|rsa-oaep> <output-prefix>
+ *   node dist/cli/sealed.js decrypt <private-key.pem> <file.enc|thoughts.db>...
+ */
+
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { parseEnvelope } from '../core/envelope.js';
+import {
+  SealedRecipientType,
+  computeRecipientId,
+  generateRecipientKeyPair,
+  openSealedEnvelope
+} from '../core/sealed.js';
+import { SqliteBackend } from '../core/backends/index.js';
+
+/** Header of an SQLite database file */
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1');
+
+const USAGE = `Usage:
+  sealed keygen <x25519|rsa-oaep> <output-prefix>
+      Write <output-prefix>.pub.pem (for the server) and <output-prefix>.key.pem (keep offline)
+  sealed decrypt <private-key.pem> <file.enc|thoughts.db>...
+      Decrypt sealed thoughts, printing one JSON object per thought.
+      A database from the sqlite storage backend decrypts every thought in it`;
+
+/**
+ * Generate a recipient key pair
+ */
+async function keygen(type: string, prefix: string): Promise<void> {
+  if (type !== 'x25519' && type !== 'rsa-oaep') {
+    throw new Error(`Unsupported key type: ${type}`);
+  }
+  
+  const { publicKey, privateKey } = generateRecipientKeyPair(type as SealedRecipientType);
+  await fsPromises.writeFile(`${prefix}.pub.pem`, publicKey, { flag: 'wx', mode: 0o644 });
+  await fsPromises.writeFile(`${prefix}.key.pem`, privateKey, { flag: 'wx', mode: 0o600 });
+  
+  const recipientId = computeRecipientId(crypto.createPublicKey(publicKey));
+  console.log(`Recipient ${recipientId}`);
+  console.log(`  public key:  ${prefix}.pub.pem (add to encryption.recipients)`);
+  console.log(`  private key: ${prefix}.key.pem (keep offline)`);
+}
+
+/**
+ * Read the thoughts in a file: a single thought, or every thought in a
+ * database written by the sqlite storage backend
+ * @returns Pairs of location and encrypted thought
+ */
+async function readThoughts(file: string): Promise<[string, Buffer][]> {
+  const data = await fsPromises.readFile(file);
+  if (!data.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER)) {
+    return [[file, data]];
+  }
+  
+  // Open the database as it is; this tool never writes to it
+  const backend = new SqliteBackend(file, { readOnly: true });
+  await backend.initialize();
+  const thoughts: [string, Buffer][] = [];
+  for (const id of await backend.list()) {
+    thoughts.push([backend.locate(id), await backend.read(id)]);
+  }
+  return thoughts;
+}
+
+/**
+ * Decrypt sealed thought files with a recipient private key
+ */
+async function decrypt(privateKeyFile: string, files: string[]): Promise<boolean> {
+  const privateKey = crypto.createPrivateKey(await fsPromises.readFile(privateKeyFile, 'utf-8'));
+  let ok = true;
+  
+  const thoughts: [string, Buffer][] = [];
+  for (const file of files) {
+    try {
+      thoughts.push(...await readThoughts(file));
+    } catch (error) {
+      ok = false;
+      console.error(`${file}: ${(error as Error).message}`);
+    }
+  }
+  
+  for (const [file, data] of thoughts) {
+    try {
+      const plaintext = openSealedEnvelope(data, privateKey);
+      console.log(JSON.stringify({
+        file,
+        associatedData: parseEnvelope(data).header.associatedData ?? null,
+        content: plaintext.toString('utf-8')
+      }));
+      plaintext.fill(0);
+    } catch (error) {
+      ok = false;
+      console.error(`${file}: ${(error as Error).message}`);
+    }
+  }
+  
+  return ok;
+}
+
+/**
+ * Run the command given on the command line
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  
+  if (command === 'keygen' && args.length === 2) {
+    await keygen(args[0], args[1]);
+  } else if (command === 'decrypt' && args.length >= 2) {
+    const ok = await decrypt(args[0], args.slice(1));
+    process.exitCode = ok ? 0 : 1;
+  } else {
+    console.error(USAGE);
+    process.exitCode = 2;
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', (error as Error).message);
+  process.exit(1);
+});
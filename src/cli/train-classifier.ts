@@ -0,0 +1,121 @@
+/**
+ * Offline training of the privacy classifier
+ * Segments a labeled corpus the way the detector of a config file does,
+ * trains a naive Bayes model on the labeled segments and writes it to a
+ * file that privacy.classifier.modelFile can point to.
+ *
+ * Usage:
+ *   node dist/cli/train-classifier.js <corpus.jsonl> <model.json> [--config <config.json>] [--ngrams <n>] [--min-count <n>]
+ */
+
+/// <reference types="node" />
+
+import { loadConfig } from '../config.js';
+import { createPrivacyDetector } from '../core/privacy-detector.js';
+import { labelSegments, loadCorpus } from '../core/evaluation.js';
+import { trainClassifier } from '../core/classifier.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+/** Default longest n-gram */
+const DEFAULT_NGRAMS = 2;
+/** Default minimum number of occurrences of a feature */
+const DEFAULT_MIN_COUNT = 2;
+
+const USAGE = `Usage:
+  train-classifier <corpus.jsonl> <model.json> [--config <config.json>] [--ngrams <n>] [--min-count <n>]
+      Train the privacy classifier on a labeled corpus in the format of the evaluate command,
+      segmented as by the detector of a configuration (default: CONFIG_PATH or config.json).
+      Features are word n-grams up to --ngrams words (default ${DEFAULT_NGRAMS}) seen at least
+      --min-count times (default ${DEFAULT_MIN_COUNT}). A summary of the model is printed as JSON`;
+
+/**
+ * Command line options
+ */
+interface Options {
+  corpus: string;
+  model: string;
+  config?: string;
+  ngrams: number;
+  minCount: number;
+}
+
+/**
+ * Parse the command line
+ * @returns The options, or null if they are invalid
+ */
+function parseArgs(args: string[]): Options | null {
+  const options: Partial<Options> = { ngrams: DEFAULT_NGRAMS, minCount: DEFAULT_MIN_COUNT };
+  const files: string[] = [];
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--config' && index + 1 < args.length) {
+      options.config = args[++index];
+    } else if (arg === '--ngrams' && index + 1 < args.length) {
+      options.ngrams = Number(args[++index]);
+    } else if (arg === '--min-count' && index + 1 < args.length) {
+      options.minCount = Number(args[++index]);
+    } else if (!arg.startsWith('--')) {
+      files.push(arg);
+    } else {
+      return null;
+    }
+  }
+  if (files.length !== 2 || !isPositiveInteger(options.ngrams) || !isPositiveInteger(options.minCount)) {
+    return null;
+  }
+  [options.corpus, options.model] = files;
+  return options as Options;
+}
+
+/**
+ * Whether a value is an integer of at least 1
+ */
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+/**
+ * Run the command given on the command line
+ */
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  
+  // Progress messages of the configuration and the detector go to stderr,
+  // so stdout holds only the summary
+  console.log = console.error;
+  
+  const config = await loadConfig(options.config);
+  const documents = await loadCorpus(options.corpus);
+  // The segmentation does not depend on a previous model
+  const detector = await createPrivacyDetector({
+    ...config.privacy,
+    classifier: { ...config.privacy.classifier, modelFile: '' }
+  });
+  const { examples, failures } = await labelSegments(detector, documents);
+  
+  const model = trainClassifier(examples, { ngramSize: options.ngrams, minCount: options.minCount });
+  await writeFileAtomic(options.model, JSON.stringify(model), 0o644);
+  
+  const summary = {
+    model: options.model,
+    version: model.version,
+    corpus: { file: options.corpus, documents: documents.length - failures.length },
+    segments: model.segments,
+    features: Object.keys(model.features).length,
+    ngramSize: model.ngramSize,
+    minCount: options.minCount,
+    failures
+  };
+  process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+  process.exitCode = failures.length > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('Error:', (error as Error).message);
+  process.exit(1);
+});
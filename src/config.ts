@@ -5,6 +5,22 @@ import * as fs from 'fs';
 import { promises as fsPromises } from 'fs';
 import * as path from 'path';
 
+/**
+ * A custom privacy pattern with options
+ */
+export interface CustomPatternConfig {
+  /** Regular expression source; a leading inline flag group such as (?i) is translated */
+  pattern: string;
+  /** Regular expression flags (i, m, s and u) */
+  flags?: string;
+  /** Name of the pattern in matched rules (defaults to the pattern) */
+  description?: string;
+  /** Contribution of a match to the patterns score (default 1.0) */
+  weight?: number;
+  /** Make a matching segment private or public whatever the scores say */
+  action?: 'force-private' | 'force-public';
+}
+
 /**
  * Privacy detection configuration
  */
@@ -13,30 +29,177 @@ export interface PrivacyConfig {
   introspectionThreshold: number;
   /** Threshold for considering text sensitive (0.0-1.0) */
   sensitivityThreshold: number;
-  /** Optional custom privacy detection patterns */
-  customPatterns?: string[];
+  /**
+   * Language packs used for detection (en, de, es, ja): each segment is
+   * scored with the pack of its detected language, or the first pack when
+   * detection is inconclusive
+   */
+  languages: string[];
+  /** Optional custom privacy detection patterns: regular expressions, or objects with options */
+  customPatterns?: (string | CustomPatternConfig)[];
+  /**
+   * How private spans are redacted from the public output: removed (drop),
+   * replaced with a placeholder, or replaced with a placeholder naming the
+   * stored thought (reference)
+   */
+  redactionMode: 'drop' | 'placeholder' | 'reference';
+  /**
+   * Whether fenced code blocks are left out of privacy analysis (exclude)
+   * or checked against the privacy patterns only (analyze); the scores are
+   * tuned for prose, not code
+   */
+  codeBlocks: 'exclude' | 'analyze';
+  /** Explicit privacy markup the LLM can use in its responses */
+  markup: {
+    /** Tag whose content is always private, e.g. 'private' for <private>…</private> (empty to disable) */
+    privateTag: string;
+    /** Tag whose content always stays public, e.g. 'public' for <public>…</public> (empty to disable) */
+    publicTag: string;
+    /** Info string of fenced code blocks whose content is always private, e.g. 'private' for ```private (empty to disable) */
+    privateFence: string;
+  };
+  /**
+   * Detection of personal data and credentials, whatever the scores say:
+   * emails, phone numbers, API keys, private keys, JWTs and card numbers
+   */
+  sensitiveData: {
+    /** Whether sensitive data is detected */
+    enabled: boolean;
+    /**
+     * What to do with each type (email, phone, api-key, private-key, jwt,
+     * card-number): store it as a private thought and remove it (encrypt),
+     * mask it in place (mask), or leave it (pass)
+     */
+    policies: Record<string, 'encrypt' | 'mask' | 'pass'>;
+  };
+  /** Local statistical classifier, used as the 'classifier' scorer when a model file is set */
+  classifier: {
+    /** Path to a model written by the train-classifier command (empty to disable) */
+    modelFile: string;
+    /** Probability above which a segment is private when scorers are combined with 'any' */
+    threshold: number;
+    /** Number of strongest features reported with each score */
+    topFeatures: number;
+  };
+  /** How the privacy scorers are combined into a verdict for each segment */
+  scoring: {
+    /**
+     * Private if any scorer exceeds its own threshold (any), if the weighted
+     * average of the scores exceeds `threshold` (weighted), or if `rule` holds (rule)
+     */
+    combine: 'any' | 'weighted' | 'rule';
+    /** Weight of each scorer by name (default 1); a weight of 0 disables a scorer */
+    weights: Record<string, number>;
+    /** Aggregate threshold for the weighted average (0.0-1.0) */
+    threshold: number;
+    /**
+     * Rule expression over the scores, e.g. "patterns > 0 || introspection + sensitivity > 1.2";
+     * each scorer's name stands for its score and `score` for the weighted average
+     */
+    rule: string;
+    /** Paths of local modules that export additional scorers */
+    modules: string[];
+  };
+}
+
+/**
+ * scrypt parameters for deriving the key-wrapping key from a passphrase
+ */
+export interface ScryptConfig {
+  /** CPU/memory cost parameter N (power of two) */
+  cost: number;
+  /** Block size parameter r */
+  blockSize: number;
+  /** Parallelization parameter p */
+  parallelization: number;
+}
+
+/**
+ * A recipient that thoughts are sealed to in sealed mode
+ */
+export interface SealedRecipientConfig {
+  /** Path to the recipient's PEM-encoded X25519 or RSA public key */
+  publicKeyFile: string;
 }
 
 /**
  * Encryption configuration
  */
 export interface EncryptionConfig {
+  /**
+   * Encryption mode: 'keyring' keeps the keys on the server;
+   * 'sealed' is write-only and encrypts to offline recipients' public keys
+   */
+  mode: 'keyring' | 'sealed';
+  /** Recipients for sealed mode */
+  recipients: SealedRecipientConfig[];
   /** Path to the encryption key file */
   keyFile: string;
   /** Size of the encryption key in bytes (32 = 256 bits) */
   keySize: number;
+  /** Whether the key file must be wrapped with a passphrase (supplied once via KEY_PASSPHRASE) */
+  passphraseProtected: boolean;
+  /** Path to a file holding the key file passphrase, read by unlock_keyring */
+  passphraseFile: string;
+  /** scrypt parameters used when wrapping the key file */
+  kdf: ScryptConfig;
+  /** Minutes without decryption after which an unlocked key file locks again (0 = never) */
+  idleLockMinutes: number;
+}
+
+/**
+ * Retention policy for stored thoughts (0 disables a limit)
+ */
+export interface RetentionConfig {
+  /** Days after which a thought expires */
+  maxAgeDays: number;
+  /** Maximum number of stored thoughts; the oldest expire first */
+  maxCount: number;
+  /** Maximum total size of stored thoughts in bytes; the oldest expire first */
+  maxTotalBytes: number;
 }
 
 /**
  * Storage configuration
  */
 export interface StorageConfig {
+  /**
+   * Where thoughts are kept: 'filesystem' writes one file per thought to the
+   * private directory, 'sqlite' keeps them in a single database file, and
+   * 'memory' keeps them in memory only (for tests)
+   */
+  backend: 'filesystem' | 'sqlite' | 'memory';
   /** Base path for storage (if not provided, uses current directory) */
   basePath: string;
-  /** Name of the private directory for encrypted files */
+  /** Name of the private directory for encrypted files (filesystem backend) */
   privateDir: string;
-  /** Whether to use metadata storage */
+  /** Name of the database file (sqlite backend) */
+  databaseFile: string;
+  /** Whether to keep the encrypted thought index */
   metadataEnabled: boolean;
+  /** Path to the key file encrypting the thought index */
+  indexKeyFile: string;
+  /** Retention policy, enforced on startup and after each save */
+  retention: RetentionConfig;
+}
+
+/**
+ * Operator access configuration
+ */
+export interface AccessConfig {
+  /**
+   * Path to a file holding the operator token required by operator-only tools
+   * (overridden by the OPERATOR_TOKEN environment variable); empty disables them
+   */
+  operatorTokenFile: string;
+}
+
+/**
+ * Audit configuration
+ */
+export interface AuditConfig {
+  /** Path to the audit log file */
+  logFile: string;
 }
 
 /**
@@ -59,6 +222,10 @@ export interface ServerConfig {
   encryption: EncryptionConfig;
   /** Storage configuration */
   storage: StorageConfig;
+  /** Operator access configuration */
+  access: AccessConfig;
+  /** Audit configuration */
+  audit: AuditConfig;
   /** Logging configuration */
   logging: LoggingConfig;
 }
@@ -70,15 +237,70 @@ export const DEFAULT_CONFIG: ServerConfig = {
   privacy: {
     introspectionThreshold: 0.7,
     sensitivityThreshold: 0.8,
+    languages: ['en'],
+    redactionMode: 'drop',
+    codeBlocks: 'exclude',
+    markup: {
+      privateTag: 'private',
+      publicTag: 'public',
+      privateFence: '',
+    },
+    sensitiveData: {
+      enabled: true,
+      policies: {
+        'email': 'mask',
+        'phone': 'mask',
+        'api-key': 'encrypt',
+        'private-key': 'encrypt',
+        'jwt': 'encrypt',
+        'card-number': 'mask',
+      },
+    },
+    classifier: {
+      modelFile: '',
+      threshold: 0.9,
+      topFeatures: 5,
+    },
+    scoring: {
+      combine: 'any',
+      weights: {},
+      threshold: 0.5,
+      rule: '',
+      modules: [],
+    },
   },
   encryption: {
+    mode: 'keyring',
+    recipients: [],
     keyFile: 'key.txt',
     keySize: 32, // 256 bits
+    passphraseProtected: false,
+    passphraseFile: '',
+    kdf: {
+      cost: 131072, // 2^17, 128 MiB of memory with blockSize 8
+      blockSize: 8,
+      parallelization: 1,
+    },
+    idleLockMinutes: 15,
   },
   storage: {
+    backend: 'filesystem',
     basePath: '',
     privateDir: 'private',
+    databaseFile: 'thoughts.db',
     metadataEnabled: true,
+    indexKeyFile: 'index.key',
+    retention: {
+      maxAgeDays: 0,
+      maxCount: 0,
+      maxTotalBytes: 0,
+    },
+  },
+  access: {
+    operatorTokenFile: '',
+  },
+  audit: {
+    logFile: 'audit.log',
   },
   logging: {
     level: 'info',
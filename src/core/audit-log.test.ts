@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { AuditLog, createAuditLog } from './audit-log.js';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let logFile: string;
+  
+  /**
+   * Create a log with the given number of entries
+   */
+  async function recordEntries(count: number): Promise<AuditLog> {
+    const auditLog = await createAuditLog({ logFile });
+    for (let i = 0; i < count; i++) {
+      await auditLog.record({ operation: 'get_thought', thoughtId: `thought-${i}`, outcome: 'success' });
+    }
+    return auditLog;
+  }
+  
+  /**
+   * The lines of the log file
+   */
+  async function readLogLines(): Promise<string[]> {
+    return (await fsPromises.readFile(logFile, 'utf-8')).split('\n').filter(line => line.length > 0);
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    logFile = path.join(dir, 'audit.log');
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('chains each entry to the previous one and records the head', async () => {
+    const auditLog = await recordEntries(3);
+    
+    const entries = (await readLogLines()).map(line => JSON.parse(line));
+    expect(entries.map(({ seq }) => seq)).toEqual([0, 1, 2]);
+    expect(entries[0].prevHash).toBe('0'.repeat(64));
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect(JSON.parse(await fsPromises.readFile(`${logFile}.head`, 'utf-8'))).toEqual({ seq: 2, hash: entries[2].hash });
+    expect(await auditLog.verify()).toEqual({ valid: true, entryCount: 3, lastSeq: 2 });
+  });
+  
+  it('continues the chain after a restart', async () => {
+    await recordEntries(2);
+    
+    const auditLog = await createAuditLog({ logFile });
+    const entry = await auditLog.record({ operation: 'list_thoughts', outcome: 'success' });
+    
+    expect(entry.seq).toBe(2);
+    expect((await auditLog.verify()).valid).toBe(true);
+  });
+  
+  it('detects an edited entry', async () => {
+    const auditLog = await recordEntries(3);
+    const lines = await readLogLines();
+    lines[1] = lines[1].replace('"outcome":"success"', '"outcome":"denied"');
+    await fsPromises.writeFile(logFile, lines.join('\n') + '\n');
+    
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      error: { seq: 1, reason: 'entry hash does not match its contents' }
+    });
+  });
+  
+  it('detects a removed entry', async () => {
+    const auditLog = await recordEntries(3);
+    const lines = await readLogLines();
+    await fsPromises.writeFile(logFile, [lines[0], lines[2]].join('\n') + '\n');
+    
+    expect(await auditLog.verify()).toMatchObject({ valid: false, error: { seq: 1 } });
+  });
+  
+  it('detects a dropped last entry', async () => {
+    const auditLog = await recordEntries(3);
+    const lines = await readLogLines();
+    await fsPromises.writeFile(logFile, lines.slice(0, 2).join('\n') + '\n');
+    
+    expect(await auditLog.verify()).toMatchObject({ valid: false, entryCount: 2, lastSeq: 2, error: { seq: 2 } });
+  });
+  
+  it('detects a dropped last entry when the head was rewritten to match', async () => {
+    const auditLog = await recordEntries(3);
+    const lines = await readLogLines();
+    const entry = JSON.parse(lines[1]);
+    await fsPromises.writeFile(logFile, lines.slice(0, 2).join('\n') + '\n');
+    await fsPromises.writeFile(`${logFile}.head`, JSON.stringify({ seq: 1, hash: entry.hash }));
+    
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      lastSeq: 1,
+      error: { seq: 2, reason: expect.stringContaining('entries were truncated') }
+    });
+    // Entries recorded afterwards keep showing the gap
+    await auditLog.record({ operation: 'get_thought', outcome: 'success' });
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      error: { seq: 2, reason: 'expected sequence number 2, found 3' }
+    });
+  });
+  
+  it('detects a head file that does not match the log', async () => {
+    const auditLog = await recordEntries(2);
+    await fsPromises.writeFile(`${logFile}.head`, JSON.stringify({ seq: 1, hash: 'f'.repeat(64) }));
+    
+    expect(await auditLog.verify()).toMatchObject({ valid: false, lastSeq: 1, error: { seq: 2 } });
+  });
+  
+  it('removes a partly written last entry on start', async () => {
+    await recordEntries(2);
+    await fsPromises.appendFile(logFile, '{"seq":2,"timestamp":17');
+    
+    const auditLog = await createAuditLog({ logFile });
+    
+    expect(await auditLog.verify()).toEqual({ valid: true, entryCount: 2, lastSeq: 1 });
+    expect((await auditLog.record({ operation: 'get_thought', outcome: 'success' })).seq).toBe(2);
+    expect((await auditLog.verify()).valid).toBe(true);
+  });
+  
+  it('keeps a truncated entry that the head file points at', async () => {
+    await recordEntries(2);
+    const contents = await fsPromises.readFile(logFile, 'utf-8');
+    await fsPromises.writeFile(logFile, contents.slice(0, -10));
+    
+    const auditLog = await createAuditLog({ logFile });
+    
+    expect(await auditLog.verify()).toMatchObject({
+      valid: false,
+      error: { seq: 1, reason: 'entry is not valid JSON' }
+    });
+  });
+  
+  it('reads entries in pages', async () => {
+    const auditLog = await recordEntries(5);
+    
+    const first = await auditLog.read(0, 2);
+    const second = await auditLog.read(Number(first.nextCursor), 2);
+    const last = await auditLog.read(Number(second.nextCursor), 2);
+    
+    expect(first.entries.map(({ seq }) => seq)).toEqual([0, 1]);
+    expect(first).toMatchObject({ nextCursor: '2', total: 5 });
+    expect(second.entries.map(({ seq }) => seq)).toEqual([2, 3]);
+    expect(last.entries.map(({ seq }) => seq)).toEqual([4]);
+    expect(last.nextCursor).toBeNull();
+    expect((await auditLog.read(10)).entries).toEqual([]);
+  });
+});
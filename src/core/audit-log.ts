@@ -0,0 +1,328 @@
+/**
+ * Audit log for LLM-Secrets MCP server
+ * Durably records sensitive operations, one JSON object per line. Each entry
+ * is hash-chained to the previous one, and the latest sequence number and
+ * hash are kept in a separate head file, so edited, removed or truncated
+ * entries are detected by verify(). A last entry left partly written by an
+ * interrupted write is removed on start. Entries never contain thought content.
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import * as path from 'path';
+import { AuditConfig } from '../config.js';
+import { AuditEntry, AuditOutcome, AuditPage, AuditVerification } from './types.js';
+import { LlmSecretsError } from '../utils/errors.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+/** Previous hash of the first entry */
+const GENESIS_HASH = '0'.repeat(64);
+
+/** Largest page returned by read() */
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * An event to record in the audit log
+ */
+export interface AuditEvent {
+  /** Operation, e.g. the tool name */
+  operation: string;
+  /** Resource URI for resource reads */
+  resource?: string | null;
+  /** Thought the operation applies to, if any */
+  thoughtId?: string | null;
+  /** Result of the operation */
+  outcome: AuditOutcome;
+  /** Error code if the operation was denied or failed */
+  errorCode?: string | null;
+}
+
+/**
+ * Contents of the head file
+ */
+interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+/**
+ * Append-only, hash-chained audit log
+ */
+export class AuditLog {
+  private readonly config: AuditConfig;
+  private readonly headPath: string;
+  private nextSeq = 0;
+  private lastHash = GENESIS_HASH;
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /**
+   * Create a new AuditLog
+   * @param config Audit configuration
+   */
+  constructor(config: AuditConfig) {
+    this.config = config;
+    this.headPath = `${config.logFile}.head`;
+  }
+  
+  /**
+   * Initialize the audit log: create its directory if needed, verify the
+   * existing entries and continue the chain after the last one
+   */
+  public async initialize(): Promise<void> {
+    try {
+      await fsPromises.mkdir(path.dirname(path.resolve(this.config.logFile)), { recursive: true });
+      await this.recoverPartialEntry();
+      
+      const lines = await this.readLines();
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const entry = AuditLog.parseEntry(lines[i]);
+        if (entry) {
+          this.nextSeq = entry.seq + 1;
+          this.lastHash = entry.hash;
+          break;
+        }
+      }
+      
+      // A partial line that could not be recovered would corrupt the next entry
+      if (lines.length > 0 && !(await this.endsWithNewline())) {
+        await fsPromises.appendFile(this.config.logFile, '\n');
+      }
+    } catch (error) {
+      throw new LlmSecretsError(
+        `Failed to initialize audit log: ${(error as Error).message}`,
+        'INIT_FAILED'
+      );
+    }
+    
+    const verification = await this.verify();
+    if (!verification.valid) {
+      console.error(
+        `Audit log failed verification at entry ${verification.error?.seq}: ${verification.error?.reason}`
+      );
+    }
+  }
+  
+  /**
+   * Record an event. Resolves once the entry is durable on disk.
+   * @param event The event to record
+   */
+  public record(event: AuditEvent): Promise<AuditEntry> {
+    const result = this.writeQueue.then(async () => {
+      const entry = AuditLog.seal({
+        seq: this.nextSeq,
+        timestamp: Date.now(),
+        operation: event.operation,
+        resource: event.resource ?? null,
+        thoughtId: event.thoughtId ?? null,
+        outcome: event.outcome,
+        errorCode: event.errorCode ?? null,
+        prevHash: this.lastHash
+      });
+      
+      const handle = await fsPromises.open(this.config.logFile, 'a', 0o600);
+      try {
+        await handle.writeFile(JSON.stringify(entry) + '\n');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      this.nextSeq = entry.seq + 1;
+      this.lastHash = entry.hash;
+      
+      const head: AuditHead = { seq: entry.seq, hash: entry.hash };
+      await writeFileAtomic(this.headPath, JSON.stringify(head), 0o600);
+      return entry;
+    });
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    
+    return result.catch(error => {
+      throw new LlmSecretsError(
+        `Failed to write audit log: ${(error as Error).message}`,
+        'AUDIT_FAILED'
+      );
+    });
+  }
+  
+  /**
+   * Read a page of entries, oldest first
+   * @param cursor Sequence number to start at (from a previous page's nextCursor)
+   * @param limit Maximum number of entries
+   */
+  public async read(cursor: number = 0, limit: number = 100): Promise<AuditPage> {
+    const pageSize = Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(limit)));
+    const entries = (await this.readLines())
+      .map(line => AuditLog.parseEntry(line))
+      .filter((entry): entry is AuditEntry => entry !== null);
+    
+    const start = entries.findIndex(entry => entry.seq >= cursor);
+    const page = start === -1 ? [] : entries.slice(start, start + pageSize);
+    const hasMore = start !== -1 && start + pageSize < entries.length;
+    
+    return {
+      entries: page,
+      nextCursor: hasMore ? String(page[page.length - 1].seq + 1) : null,
+      total: entries.length
+    };
+  }
+  
+  /**
+   * Verify the hash chain and that the log ends where the head file says.
+   * Entries this process wrote must also still be there, which catches
+   * truncation even when the head file was rewritten to match.
+   * @returns The verification result, with the first problem found
+   */
+  public async verify(): Promise<AuditVerification> {
+    const lines = await this.readLines();
+    const head = await this.readHead();
+    let prevHash = GENESIS_HASH;
+    
+    const fail = (seq: number, reason: string): AuditVerification => ({
+      valid: false,
+      entryCount: lines.length,
+      lastSeq: head?.seq ?? null,
+      error: { seq, reason }
+    });
+    
+    for (let i = 0; i < lines.length; i++) {
+      const entry = AuditLog.parseEntry(lines[i]);
+      if (!entry) {
+        return fail(i, 'entry is not valid JSON');
+      }
+      if (entry.seq !== i) {
+        return fail(i, `expected sequence number ${i}, found ${entry.seq}`);
+      }
+      if (entry.prevHash !== prevHash) {
+        return fail(i, 'previous hash does not match the preceding entry');
+      }
+      if (AuditLog.seal(entry).hash !== entry.hash) {
+        return fail(i, 'entry hash does not match its contents');
+      }
+      prevHash = entry.hash;
+    }
+    
+    if (lines.length < this.nextSeq ||
+        (this.nextSeq > 0 && AuditLog.parseEntry(lines[this.nextSeq - 1])?.hash !== this.lastHash)) {
+      return fail(lines.length, `log ends before entry ${this.nextSeq - 1} written by this server; entries were truncated`);
+    }
+    
+    if (lines.length === 0 ? head !== null :
+        !head || head.seq !== lines.length - 1 || head.hash !== prevHash) {
+      return fail(lines.length, 'log does not end at the recorded head; entries were truncated or appended out of band');
+    }
+    
+    return {
+      valid: true,
+      entryCount: lines.length,
+      lastSeq: head?.seq ?? null
+    };
+  }
+  
+  /**
+   * Read the non-empty lines of the log
+   */
+  private async readLines(): Promise<string[]> {
+    try {
+      const contents = await fsPromises.readFile(this.config.logFile, 'utf-8');
+      return contents.split('\n').filter(line => line.length > 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Remove a partly written last line, left when the process stopped in the
+   * middle of record(). Such an entry was never acknowledged and the head
+   * file still points at the entry before it; a partial line anywhere else
+   * is left in place for verify() to report as tampering.
+   */
+  private async recoverPartialEntry(): Promise<void> {
+    let contents: Buffer;
+    try {
+      contents = await fsPromises.readFile(this.config.logFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    if (contents.length === 0 || contents[contents.length - 1] === 0x0a) {
+      return;
+    }
+    
+    const partialStart = contents.lastIndexOf(0x0a) + 1;
+    const complete = contents.subarray(0, partialStart).toString('utf-8').split('\n').filter(line => line.length > 0);
+    const previous = complete.length > 0 ? AuditLog.parseEntry(complete[complete.length - 1]) : null;
+    const head = await this.readHead();
+    const headMatches = complete.length === 0 ?
+      head === null :
+      previous !== null && head !== null && head.seq === previous.seq && head.hash === previous.hash;
+    if (!headMatches) {
+      return;
+    }
+    
+    await fsPromises.truncate(this.config.logFile, partialStart);
+    console.error(`Removed a partly written audit log entry after entry ${previous?.seq ?? 'none'}`);
+  }
+  
+  /**
+   * Whether the log file ends with a newline
+   */
+  private async endsWithNewline(): Promise<boolean> {
+    const contents = await fsPromises.readFile(this.config.logFile);
+    return contents.length === 0 || contents[contents.length - 1] === 0x0a;
+  }
+  
+  /**
+   * Read the head file
+   */
+  private async readHead(): Promise<AuditHead | null> {
+    try {
+      return JSON.parse(await fsPromises.readFile(this.headPath, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+  
+  /**
+   * Compute the hash of an entry over its fields in a fixed order
+   */
+  private static seal(entry: Omit<AuditEntry, 'hash'>): AuditEntry {
+    const fields = {
+      seq: entry.seq,
+      timestamp: entry.timestamp,
+      operation: entry.operation,
+      resource: entry.resource,
+      thoughtId: entry.thoughtId,
+      outcome: entry.outcome,
+      errorCode: entry.errorCode,
+      prevHash: entry.prevHash
+    };
+    const hash = crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+    return { ...fields, hash };
+  }
+  
+  /**
+   * Parse one line of the log
+   */
+  private static parseEntry(line: string): AuditEntry | null {
+    try {
+      const entry = JSON.parse(line);
+      return entry && typeof entry === 'object' && typeof entry.seq === 'number' ? entry : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Factory function to create and initialize an AuditLog
+ */
+export async function createAuditLog(config: AuditConfig): Promise<AuditLog> {
+  const auditLog = new AuditLog(config);
+  await auditLog.initialize();
+  return auditLog;
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { ulid } from '../../utils/ulid.js';
+import { TEMP_FILE_SUFFIX } from '../../utils/fs.js';
+import { FilesystemBackend } from './filesystem.js';
+
+/** A thought id created at 2024-01-15T23:30:00Z */
+const ULID_ID = `private_thought_${ulid(Date.UTC(2024, 0, 15, 23, 30))}`;
+
+/** A legacy thought id created at 2023-12-31T08:00:00Z */
+const LEGACY_ID = 'private_thought_20231231080000';
+
+describe('FilesystemBackend', () => {
+  let privateDir: string;
+  
+  /**
+   * Initialize a backend on the private directory
+   */
+  async function open(): Promise<FilesystemBackend> {
+    const backend = new FilesystemBackend(privateDir);
+    await backend.initialize();
+    return backend;
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    privateDir = path.join(await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-')), 'private');
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(path.dirname(privateDir), { recursive: true, force: true });
+  });
+  
+  describe('shard layout', () => {
+    it('stores thoughts in directories by the UTC creation date in their id', async () => {
+      const backend = await open();
+      
+      expect(backend.locate(ULID_ID)).toBe(path.join(privateDir, '2024', '01', '15', `${ULID_ID}.enc`));
+      expect(backend.locate(LEGACY_ID)).toBe(path.join(privateDir, '2023', '12', '31', `${LEGACY_ID}.enc`));
+      expect(backend.locate('imported_thought')).toBe(path.join(privateDir, 'imported_thought.enc'));
+    });
+    
+    it('saves into the shard and lists thoughts from every shard', async () => {
+      const backend = await open();
+      
+      await backend.save(ULID_ID, Buffer.from('first'));
+      await backend.save(LEGACY_ID, Buffer.from('second'));
+      await backend.save('imported_thought', Buffer.from('third'));
+      
+      expect(await fsPromises.readFile(backend.locate(ULID_ID), 'utf-8')).toBe('first');
+      expect((await backend.list()).sort()).toEqual(['imported_thought', LEGACY_ID, ULID_ID].sort());
+      expect(await backend.read(LEGACY_ID)).toEqual(Buffer.from('second'));
+    });
+    
+    it('ignores files and directories outside the layout', async () => {
+      const backend = await open();
+      await backend.save(ULID_ID, Buffer.from('first'));
+      await fsPromises.mkdir(path.join(privateDir, 'backup', '01', '15'), { recursive: true });
+      await fsPromises.writeFile(path.join(privateDir, 'backup', '01', '15', `${LEGACY_ID}.enc`), 'copy');
+      await fsPromises.writeFile(path.join(privateDir, '2024', '01', '15', 'notes.txt'), 'notes');
+      
+      expect(await backend.list()).toEqual([ULID_ID]);
+    });
+    
+    it('refuses ids that could escape the private directory', async () => {
+      const backend = await open();
+      
+      expect(() => backend.locate('../outside')).toThrow(expect.objectContaining({ code: 'STORAGE_INVALID_ID' }));
+      await expect(backend.read('a/b')).rejects.toMatchObject({ code: 'STORAGE_INVALID_ID' });
+    });
+    
+    it('removes interrupted writes from every shard on startup', async () => {
+      const backend = await open();
+      await backend.save(ULID_ID, Buffer.from('first'));
+      const shard = path.dirname(backend.locate(ULID_ID));
+      await fsPromises.writeFile(path.join(shard, `.${ULID_ID}.enc.123${TEMP_FILE_SUFFIX}`), 'partial');
+      
+      await open();
+      
+      expect(await fsPromises.readdir(shard)).toEqual([`${ULID_ID}.enc`]);
+    });
+  });
+  
+  describe('migrateFlatLayout', () => {
+    it('moves thought files from the private directory into their shards on startup', async () => {
+      await fsPromises.mkdir(privateDir, { recursive: true });
+      await fsPromises.writeFile(path.join(privateDir, `${ULID_ID}.enc`), 'first');
+      await fsPromises.writeFile(path.join(privateDir, `${LEGACY_ID}.enc`), 'second');
+      
+      const backend = await open();
+      
+      expect(await backend.read(ULID_ID)).toEqual(Buffer.from('first'));
+      expect(await backend.read(LEGACY_ID)).toEqual(Buffer.from('second'));
+      expect((await fsPromises.readdir(privateDir)).sort()).toEqual(['2023', '2024']);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Moved 2 thought file(s)'));
+    });
+    
+    it('leaves thoughts without a creation time, the index log and other files in place', async () => {
+      await fsPromises.mkdir(privateDir, { recursive: true });
+      await fsPromises.writeFile(path.join(privateDir, 'imported_thought.enc'), 'imported');
+      await fsPromises.writeFile(path.join(privateDir, 'index.log'), 'record\n');
+      await fsPromises.writeFile(path.join(privateDir, 'README'), 'notes');
+      
+      const backend = await open();
+      
+      expect((await fsPromises.readdir(privateDir)).sort()).toEqual(['README', 'imported_thought.enc', 'index.log']);
+      expect(await backend.list()).toEqual(['imported_thought']);
+      expect(await backend.indexLog.read()).toEqual({ records: ['record'], partial: false });
+    });
+    
+    it('does nothing once every thought is in its shard', async () => {
+      const backend = await open();
+      await backend.save(ULID_ID, Buffer.from('first'));
+      
+      await open();
+      
+      expect(await backend.read(ULID_ID)).toEqual(Buffer.from('first'));
+      expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('Moved'));
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Filesystem storage backend for LLM-Secrets MCP server
+ * Keeps one file per thought, named <id>.enc, sharded by creation date into
+ * YYYY/MM/DD subdirectories of the private directory so that no directory
+ * grows without bound. The thought index is index.log in the private
+ * directory itself.
+ */
+/// <reference types="node" />
+
+import { promises as fsPromises } from 'fs';
+import * as path from 'path';
+import { IndexLog, IndexLogContents, StorageBackend, ThoughtStat } from './types.js';
+import { getThoughtIdTime, isValidThoughtId } from '../thought-id.js';
+import { StorageError } from '../../utils/errors.js';
+import {
+  createFileAtomic,
+  moveFile,
+  overwriteAndUnlink,
+  removeStaleTempFiles,
+  writeFileAtomic
+} from '../../utils/fs.js';
+
+/** Extension of thought files */
+const THOUGHT_FILE_EXTENSION = '.enc';
+
+/** Name of the thought index log inside the private directory */
+const INDEX_LOG_NAME = 'index.log';
+
+/** Names of the year directories and of the month and day directories below them */
+const YEAR_DIR = /^\d{4}$/;
+const MONTH_OR_DAY_DIR = /^\d{2}$/;
+
+/**
+ * Stores thoughts as files in a directory
+ */
+export class FilesystemBackend implements StorageBackend {
+  public readonly persistent = true;
+  public readonly indexLog: IndexLog;
+  private readonly privateDir: string;
+  
+  /**
+   * Create a new FilesystemBackend
+   * @param privateDir Directory holding the thought files
+   */
+  constructor(privateDir: string) {
+    this.privateDir = privateDir;
+    this.indexLog = new FileIndexLog(path.join(privateDir, INDEX_LOG_NAME));
+  }
+  
+  /**
+   * Create the private directory, remove writes interrupted by a crash and
+   * move thoughts from the flat layout into their date shards
+   */
+  public async initialize(): Promise<void> {
+    await this.ensurePrivateDirectory();
+    
+    // Temporary files of writes interrupted by a crash are never valid thoughts
+    let removed = 0;
+    for (const dir of await this.listDirectories()) {
+      removed += await removeStaleTempFiles(dir);
+    }
+    if (removed > 0) {
+      console.log(`Removed ${removed} incomplete write(s) from ${this.privateDir}`);
+    }
+    
+    const migrated = await this.migrateFlatLayout();
+    if (migrated > 0) {
+      console.log(`Moved ${migrated} thought file(s) into date directories in ${this.privateDir}`);
+    }
+  }
+  
+  /**
+   * Write a thought file atomically. A new file is linked into place, so it
+   * never replaces an existing thought; a replacement is renamed over it.
+   */
+  public async save(id: string, data: Buffer, options: { replace?: boolean } = {}): Promise<void> {
+    const filepath = this.locate(id);
+    
+    if (options.replace) {
+      // Make sure we are replacing, not creating
+      await this.stat(id);
+      await writeFileAtomic(filepath, data);
+      return;
+    }
+    
+    // Ensure the thought's date directory exists
+    await fsPromises.mkdir(path.dirname(filepath), { recursive: true });
+    
+    try {
+      await createFileAtomic(filepath, data);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new StorageError(`Thought already exists: ${id}`, 'ALREADY_EXISTS');
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Read a thought file
+   */
+  public async read(id: string): Promise<Buffer> {
+    try {
+      return await fsPromises.readFile(this.locate(id));
+    } catch (error) {
+      throw FilesystemBackend.translateError(error, id);
+    }
+  }
+  
+  /**
+   * List the thought files in the private directory and its date directories
+   */
+  public async list(): Promise<string[]> {
+    const ids: string[] = [];
+    for (const dir of await this.listDirectories()) {
+      ids.push(...await listThoughtFiles(dir));
+    }
+    return ids;
+  }
+  
+  /**
+   * Stat a thought file
+   */
+  public async stat(id: string): Promise<ThoughtStat> {
+    try {
+      const stats = await fsPromises.stat(this.locate(id));
+      return { sizeBytes: stats.size, modifiedAt: stats.mtimeMs };
+    } catch (error) {
+      throw FilesystemBackend.translateError(error, id);
+    }
+  }
+  
+  /**
+   * Overwrite a thought file with random bytes, then unlink it
+   */
+  public async delete(id: string): Promise<void> {
+    try {
+      await overwriteAndUnlink(this.locate(id));
+    } catch (error) {
+      throw FilesystemBackend.translateError(error, id);
+    }
+  }
+  
+  /**
+   * Path of a thought file: <YYYY>/<MM>/<DD>/<id>.enc by the UTC creation
+   * time in the id. Ids that carry no time stay in the private directory.
+   */
+  public locate(id: string): string {
+    // Ids are file names; refuse anything that could escape the private directory
+    if (!isValidThoughtId(id)) {
+      throw new StorageError(`Invalid thought id: ${id}`, 'INVALID_ID');
+    }
+    return path.join(this.shardDirectory(id), `${id}${THOUGHT_FILE_EXTENSION}`);
+  }
+  
+  /**
+   * Directory a thought belongs in
+   */
+  private shardDirectory(id: string): string {
+    const time = getThoughtIdTime(id);
+    if (time === null) {
+      return this.privateDir;
+    }
+    
+    const date = new Date(time);
+    return path.join(
+      this.privateDir,
+      String(date.getUTCFullYear()).padStart(4, '0'),
+      String(date.getUTCMonth() + 1).padStart(2, '0'),
+      String(date.getUTCDate()).padStart(2, '0')
+    );
+  }
+  
+  /**
+   * List the private directory and every date directory below it
+   */
+  private async listDirectories(): Promise<string[]> {
+    const dirs = [this.privateDir];
+    for (const year of await listSubdirectories(this.privateDir, YEAR_DIR)) {
+      for (const month of await listSubdirectories(year, MONTH_OR_DAY_DIR)) {
+        dirs.push(...await listSubdirectories(month, MONTH_OR_DAY_DIR));
+      }
+    }
+    return dirs;
+  }
+  
+  /**
+   * Move thought files written before sharding out of the private
+   * directory into their date directories
+   * @returns Number of files moved
+   */
+  private async migrateFlatLayout(): Promise<number> {
+    let moved = 0;
+    for (const id of await listThoughtFiles(this.privateDir)) {
+      if (!isValidThoughtId(id) || this.shardDirectory(id) === this.privateDir) {
+        continue;
+      }
+      
+      const target = this.locate(id);
+      await fsPromises.mkdir(path.dirname(target), { recursive: true });
+      await moveFile(path.join(this.privateDir, `${id}${THOUGHT_FILE_EXTENSION}`), target);
+      moved++;
+    }
+    return moved;
+  }
+  
+  /**
+   * Create the private directory if it doesn't exist
+   */
+  private async ensurePrivateDirectory(): Promise<void> {
+    await fsPromises.mkdir(this.privateDir, { recursive: true });
+  }
+  
+  /**
+   * Report a missing file as NOT_FOUND and pass other errors through
+   */
+  private static translateError(error: unknown, id: string): unknown {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    return error;
+  }
+}
+
+/**
+ * List the ids of the thought files in a directory
+ * @param dir Directory to list
+ * @returns Ids; empty if the directory doesn't exist
+ */
+async function listThoughtFiles(dir: string): Promise<string[]> {
+  try {
+    const files = await fsPromises.readdir(dir);
+    return files
+      .filter(file => file.endsWith(THOUGHT_FILE_EXTENSION))
+      .map(file => path.basename(file, THOUGHT_FILE_EXTENSION));
+  } catch (error) {
+    // If directory doesn't exist, there are no thoughts
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the subdirectories of a directory whose names match a pattern
+ * @param dir Parent directory
+ * @param pattern Pattern of the names to keep
+ * @returns Paths; empty if the directory doesn't exist
+ */
+async function listSubdirectories(dir: string, pattern: RegExp): Promise<string[]> {
+  try {
+    const entries = await fsPromises.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && pattern.test(entry.name))
+      .map(entry => path.join(dir, entry.name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Thought index log kept in a file, one record per line
+ */
+class FileIndexLog implements IndexLog {
+  private readonly logPath: string;
+  
+  /**
+   * Create a new FileIndexLog
+   * @param logPath Path to the log file
+   */
+  constructor(logPath: string) {
+    this.logPath = logPath;
+  }
+  
+  /**
+   * Read the log. Every complete record ends with a newline; a crash during
+   * an append can leave a partial last line, which is dropped.
+   */
+  public async read(): Promise<IndexLogContents | null> {
+    let contents: string;
+    try {
+      contents = await fsPromises.readFile(this.logPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    
+    const records = contents.split('\n');
+    const partial = records.pop() !== '';
+    return { records, partial };
+  }
+  
+  /**
+   * Append a record and fsync the log
+   */
+  public async append(record: string): Promise<void> {
+    const handle = await fsPromises.open(this.logPath, 'a', 0o600);
+    try {
+      await handle.writeFile(record + '\n');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+  
+  /**
+   * Rewrite the log atomically
+   */
+  public async replace(records: string[]): Promise<void> {
+    await writeFileAtomic(this.logPath, records.map(record => record + '\n').join(''), 0o600);
+  }
+}
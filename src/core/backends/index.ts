@@ -0,0 +1,33 @@
+/**
+ * Storage backends index - selects the backend configured in StorageConfig
+ */
+
+import * as path from 'path';
+import { StorageConfig } from '../../config.js';
+import { StorageBackend } from './types.js';
+import { StorageError } from '../../utils/errors.js';
+import { FilesystemBackend } from './filesystem.js';
+import { MemoryBackend } from './memory.js';
+import { SqliteBackend } from './sqlite.js';
+
+/**
+ * Create the configured storage backend (not yet initialized)
+ * @param config Storage configuration
+ */
+export function createStorageBackend(config: StorageConfig): StorageBackend {
+  switch (config.backend) {
+    case 'filesystem':
+      return new FilesystemBackend(path.join(config.basePath, config.privateDir));
+    case 'memory':
+      return new MemoryBackend();
+    case 'sqlite':
+      return new SqliteBackend(path.join(config.basePath, config.databaseFile));
+    default:
+      throw new StorageError(`Unknown storage backend: ${config.backend}`, 'INVALID_BACKEND');
+  }
+}
+
+export * from './types.js';
+export { FilesystemBackend } from './filesystem.js';
+export { MemoryBackend } from './memory.js';
+export { SqliteBackend } from './sqlite.js';
@@ -0,0 +1,125 @@
+/**
+ * In-memory storage backend for LLM-Secrets MCP server
+ * Keeps thoughts and the thought index in memory only, so nothing touches
+ * the disk; everything is lost when the process exits. Meant for tests.
+ */
+/// <reference types="node" />
+
+import { IndexLog, IndexLogContents, StorageBackend, ThoughtStat } from './types.js';
+import { StorageError } from '../../utils/errors.js';
+
+/**
+ * A thought held in memory
+ */
+interface MemoryThought {
+  data: Buffer;
+  modifiedAt: number;
+}
+
+/**
+ * Stores thoughts in a Map
+ */
+export class MemoryBackend implements StorageBackend {
+  public readonly persistent = false;
+  public readonly indexLog: IndexLog = new MemoryIndexLog();
+  private readonly thoughts = new Map<string, MemoryThought>();
+  
+  /**
+   * Nothing to prepare
+   */
+  public async initialize(): Promise<void> {
+    // Nothing to do
+  }
+  
+  /**
+   * Store a copy of the thought
+   */
+  public async save(id: string, data: Buffer, options: { replace?: boolean } = {}): Promise<void> {
+    const existing = this.thoughts.get(id);
+    if (options.replace && !existing) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    if (!options.replace && existing) {
+      throw new StorageError(`Thought already exists: ${id}`, 'ALREADY_EXISTS');
+    }
+    
+    existing?.data.fill(0);
+    this.thoughts.set(id, { data: Buffer.from(data), modifiedAt: Date.now() });
+  }
+  
+  /**
+   * Return a copy of the thought
+   */
+  public async read(id: string): Promise<Buffer> {
+    return Buffer.from(this.require(id).data);
+  }
+  
+  /**
+   * List the stored ids
+   */
+  public async list(): Promise<string[]> {
+    return [...this.thoughts.keys()];
+  }
+  
+  /**
+   * Get the size and modification time of a thought
+   */
+  public async stat(id: string): Promise<ThoughtStat> {
+    const thought = this.require(id);
+    return { sizeBytes: thought.data.length, modifiedAt: thought.modifiedAt };
+  }
+  
+  /**
+   * Zero the thought's buffer, then drop it
+   */
+  public async delete(id: string): Promise<void> {
+    this.require(id).data.fill(0);
+    this.thoughts.delete(id);
+  }
+  
+  /**
+   * Pseudo-location of a thought
+   */
+  public locate(id: string): string {
+    return `memory:${id}`;
+  }
+  
+  /**
+   * Get a thought, failing if it doesn't exist
+   */
+  private require(id: string): MemoryThought {
+    const thought = this.thoughts.get(id);
+    if (!thought) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    return thought;
+  }
+}
+
+/**
+ * Thought index log kept in an array
+ */
+class MemoryIndexLog implements IndexLog {
+  private records: string[] | null = null;
+  
+  /**
+   * Return the records, or null if nothing was written yet
+   */
+  public async read(): Promise<IndexLogContents | null> {
+    return this.records ? { records: this.records.slice(), partial: false } : null;
+  }
+  
+  /**
+   * Append a record
+   */
+  public async append(record: string): Promise<void> {
+    (this.records ??= []).push(record);
+  }
+  
+  /**
+   * Replace all records
+   */
+  public async replace(records: string[]): Promise<void> {
+    this.records = records.slice();
+  }
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { SqliteBackend } from './sqlite.js';
+
+describe('SqliteBackend', () => {
+  let dir: string;
+  let databaseFile: string;
+  
+  /**
+   * Open the database with a new backend
+   */
+  async function open(options?: { readOnly?: boolean }): Promise<SqliteBackend> {
+    const backend = new SqliteBackend(databaseFile, options);
+    await backend.initialize();
+    return backend;
+  }
+  
+  beforeEach(async () => {
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    databaseFile = path.join(dir, 'data', 'thoughts.db');
+  });
+  
+  afterEach(async () => {
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('creates the database readable only by its owner', async () => {
+    await open();
+    
+    expect((await fsPromises.stat(databaseFile)).mode & 0o777).toBe(0o600);
+  });
+  
+  it('saves, reads, lists and stats thoughts across restarts', async () => {
+    const backend = await open();
+    await backend.save('thought-1', Buffer.from('first'));
+    await backend.save('thought-2', Buffer.from('second thought'));
+    
+    const reopened = await open();
+    
+    expect((await reopened.list()).sort()).toEqual(['thought-1', 'thought-2']);
+    expect(await reopened.read('thought-2')).toEqual(Buffer.from('second thought'));
+    expect(await reopened.stat('thought-2')).toEqual({ sizeBytes: 14, modifiedAt: expect.any(Number) });
+    expect(reopened.locate('thought-1')).toBe(`${databaseFile}#thought-1`);
+  });
+  
+  it('replaces only existing thoughts and never overwrites on save', async () => {
+    const backend = await open();
+    await backend.save('thought-1', Buffer.from('first'));
+    
+    await expect(backend.save('thought-1', Buffer.from('other'))).rejects.toMatchObject({ code: 'STORAGE_ALREADY_EXISTS' });
+    await expect(backend.save('thought-2', Buffer.from('other'), { replace: true }))
+      .rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    await backend.save('thought-1', Buffer.from('replaced'), { replace: true });
+    
+    expect(await backend.read('thought-1')).toEqual(Buffer.from('replaced'));
+    expect(await backend.list()).toEqual(['thought-1']);
+  });
+  
+  it('reports missing thoughts as not found', async () => {
+    const backend = await open();
+    
+    await expect(backend.read('missing')).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    await expect(backend.stat('missing')).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    await expect(backend.delete('missing')).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+  });
+  
+  it('zeroes deleted thoughts inside the database file', async () => {
+    const backend = await open();
+    const marker = Buffer.from('a-unique-marker-for-this-thought');
+    await backend.save('thought-1', marker);
+    expect((await fsPromises.readFile(databaseFile)).includes(marker)).toBe(true);
+    
+    await backend.delete('thought-1');
+    
+    await expect(backend.read('thought-1')).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    expect((await fsPromises.readFile(databaseFile)).includes(marker)).toBe(false);
+  });
+  
+  it('keeps the index log in order and replaces it in one step', async () => {
+    const backend = await open();
+    expect(await backend.indexLog.read()).toBeNull();
+    
+    await backend.indexLog.append('record-1');
+    await backend.indexLog.append('record-2');
+    expect(await (await open()).indexLog.read()).toEqual({ records: ['record-1', 'record-2'], partial: false });
+    
+    await backend.indexLog.replace(['record-3']);
+    expect(await backend.indexLog.read()).toEqual({ records: ['record-3'], partial: false });
+  });
+  
+  it('needs to be initialized', async () => {
+    const backend = new SqliteBackend(databaseFile);
+    
+    await expect(backend.list()).rejects.toMatchObject({ code: 'STORAGE_NOT_INITIALIZED' });
+  });
+  
+  describe('read-only', () => {
+    it('reads an existing database without changing it', async () => {
+      const backend = await open();
+      await backend.save('thought-1', Buffer.from('first'));
+      await fsPromises.chmod(databaseFile, 0o400);
+      const before = await fsPromises.readFile(databaseFile);
+      
+      const readOnly = await open({ readOnly: true });
+      
+      expect(await readOnly.list()).toEqual(['thought-1']);
+      expect(await readOnly.read('thought-1')).toEqual(Buffer.from('first'));
+      await expect(readOnly.save('thought-2', Buffer.from('second'))).rejects.toThrow();
+      expect(await fsPromises.readFile(databaseFile)).toEqual(before);
+      expect((await fsPromises.stat(databaseFile)).mode & 0o777).toBe(0o400);
+      expect(await fsPromises.readdir(path.dirname(databaseFile))).toEqual(['thoughts.db']);
+    });
+    
+    it('does not create a missing database', async () => {
+      await expect(open({ readOnly: true })).rejects.toThrow();
+      
+      await expect(fsPromises.access(path.dirname(databaseFile))).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+});
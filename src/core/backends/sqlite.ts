@@ -0,0 +1,229 @@
+/**
+ * SQLite storage backend for LLM-Secrets MCP server
+ * Keeps all thoughts and the thought index in a single database file, which
+ * is easier to back up than a directory. Deleted thoughts are overwritten
+ * with zeros inside the file (secure_delete).
+ */
+/// <reference types="node" />
+
+import { promises as fsPromises } from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { IndexLog, IndexLogContents, StorageBackend, ThoughtStat } from './types.js';
+import { StorageError } from '../../utils/errors.js';
+
+/** Schema of the database */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS thoughts (
+    id TEXT PRIMARY KEY,
+    data BLOB NOT NULL,
+    modified_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS index_log (
+    seq INTEGER PRIMARY KEY,
+    record TEXT NOT NULL
+  );
+`;
+
+/**
+ * Stores thoughts in an SQLite database
+ */
+export class SqliteBackend implements StorageBackend {
+  public readonly persistent = true;
+  public readonly indexLog: IndexLog;
+  private readonly databaseFile: string;
+  private readonly readOnly: boolean;
+  private db: BetterSqlite3.Database | null = null;
+  
+  /**
+   * Create a new SqliteBackend
+   * @param databaseFile Path to the database file
+   * @param options Whether to open an existing database without writing to it
+   */
+  constructor(databaseFile: string, options: { readOnly?: boolean } = {}) {
+    this.databaseFile = databaseFile;
+    this.readOnly = options.readOnly ?? false;
+    this.indexLog = new SqliteIndexLog(() => this.requireDb());
+  }
+  
+  /**
+   * Open (or create) the database. A read-only database must exist and is
+   * opened as it is: no schema changes, pragmas or permission changes.
+   */
+  public async initialize(): Promise<void> {
+    // Loaded on demand so the optional native module is only needed with this backend
+    let Database: typeof BetterSqlite3;
+    try {
+      ({ default: Database } = await import('better-sqlite3'));
+    } catch (error) {
+      throw new StorageError(
+        `The sqlite backend requires the optional better-sqlite3 package: ${(error as Error).message}`,
+        'INVALID_BACKEND'
+      );
+    }
+    
+    if (this.readOnly) {
+      this.db = new Database(this.databaseFile, { readonly: true, fileMustExist: true });
+      return;
+    }
+    
+    await fsPromises.mkdir(path.dirname(path.resolve(this.databaseFile)), { recursive: true });
+    const db = new Database(this.databaseFile);
+    // A rollback journal keeps the database in one file between transactions,
+    // and every commit is synced to disk before it returns
+    db.pragma('journal_mode = DELETE');
+    db.pragma('synchronous = FULL');
+    db.pragma('secure_delete = ON');
+    db.exec(SCHEMA);
+    await fsPromises.chmod(this.databaseFile, 0o600);
+    this.db = db;
+  }
+  
+  /**
+   * Insert or update a thought in one transaction
+   */
+  public async save(id: string, data: Buffer, options: { replace?: boolean } = {}): Promise<void> {
+    const db = this.requireDb();
+    
+    if (options.replace) {
+      const result = db
+        .prepare('UPDATE thoughts SET data = ?, modified_at = ? WHERE id = ?')
+        .run(data, Date.now(), id);
+      if (result.changes === 0) {
+        throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+      }
+      return;
+    }
+    
+    try {
+      db.prepare('INSERT INTO thoughts (id, data, modified_at) VALUES (?, ?, ?)')
+        .run(id, data, Date.now());
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new StorageError(`Thought already exists: ${id}`, 'ALREADY_EXISTS');
+      }
+      throw SqliteBackend.translateError(error);
+    }
+  }
+  
+  /**
+   * Read a thought
+   */
+  public async read(id: string): Promise<Buffer> {
+    const row = this.requireDb()
+      .prepare('SELECT data FROM thoughts WHERE id = ?')
+      .get(id) as { data: Buffer } | undefined;
+    if (!row) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    return row.data;
+  }
+  
+  /**
+   * List the stored ids
+   */
+  public async list(): Promise<string[]> {
+    return this.requireDb()
+      .prepare('SELECT id FROM thoughts')
+      .pluck()
+      .all() as string[];
+  }
+  
+  /**
+   * Get the size and modification time of a thought
+   */
+  public async stat(id: string): Promise<ThoughtStat> {
+    const row = this.requireDb()
+      .prepare('SELECT length(data) AS sizeBytes, modified_at AS modifiedAt FROM thoughts WHERE id = ?')
+      .get(id) as ThoughtStat | undefined;
+    if (!row) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    return row;
+  }
+  
+  /**
+   * Delete a thought; secure_delete zeroes the freed pages
+   */
+  public async delete(id: string): Promise<void> {
+    const result = this.requireDb().prepare('DELETE FROM thoughts WHERE id = ?').run(id);
+    if (result.changes === 0) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+  }
+  
+  /**
+   * Location of a thought inside the database file
+   */
+  public locate(id: string): string {
+    return `${this.databaseFile}#${id}`;
+  }
+  
+  /**
+   * Get the database, failing if the backend has not been initialized
+   */
+  private requireDb(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new StorageError('SQLite database not open', 'NOT_INITIALIZED');
+    }
+    return this.db;
+  }
+  
+  /**
+   * Report a full disk like the filesystem backend does
+   */
+  private static translateError(error: unknown): unknown {
+    if ((error as { code?: string }).code === 'SQLITE_FULL') {
+      return new StorageError('Storage full - cannot save encrypted thought', 'STORAGE_FULL');
+    }
+    return error;
+  }
+}
+
+/**
+ * Thought index log kept in a table, one row per record
+ */
+class SqliteIndexLog implements IndexLog {
+  private readonly getDb: () => BetterSqlite3.Database;
+  
+  /**
+   * Create a new SqliteIndexLog
+   * @param getDb Returns the open database
+   */
+  constructor(getDb: () => BetterSqlite3.Database) {
+    this.getDb = getDb;
+  }
+  
+  /**
+   * Read the records; an empty table counts as a missing log.
+   * Rows are written in transactions, so there are never partial records.
+   */
+  public async read(): Promise<IndexLogContents | null> {
+    const records = this.getDb()
+      .prepare('SELECT record FROM index_log ORDER BY seq')
+      .pluck()
+      .all() as string[];
+    return records.length > 0 ? { records, partial: false } : null;
+  }
+  
+  /**
+   * Append a record
+   */
+  public async append(record: string): Promise<void> {
+    this.getDb().prepare('INSERT INTO index_log (record) VALUES (?)').run(record);
+  }
+  
+  /**
+   * Replace all records in one transaction
+   */
+  public async replace(records: string[]): Promise<void> {
+    const db = this.getDb();
+    const insert = db.prepare('INSERT INTO index_log (record) VALUES (?)');
+    db.transaction(() => {
+      db.prepare('DELETE FROM index_log').run();
+      for (const record of records) {
+        insert.run(record);
+      }
+    })();
+  }
+}
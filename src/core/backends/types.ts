@@ -0,0 +1,100 @@
+/**
+ * Type definitions for storage backends
+ */
+/// <reference types="node" />
+
+/**
+ * Size and modification time of a stored thought
+ */
+export interface ThoughtStat {
+  /** Size of the encrypted thought in bytes */
+  sizeBytes: number;
+  /** Time the thought was last written (Unix timestamp in ms) */
+  modifiedAt: number;
+}
+
+/**
+ * Contents of the thought index log
+ */
+export interface IndexLogContents {
+  /** Complete records, in the order they were appended */
+  records: string[];
+  /** Whether an incomplete record (from an interrupted append) was dropped */
+  partial: boolean;
+}
+
+/**
+ * Append-only log holding the encrypted thought index
+ */
+export interface IndexLog {
+  /**
+   * Read all records
+   * @returns The records, or null if the log does not exist
+   */
+  read(): Promise<IndexLogContents | null>;
+  /**
+   * Durably append a record
+   * @param record The record (a single line)
+   */
+  append(record: string): Promise<void>;
+  /**
+   * Atomically replace all records
+   * @param records The new records
+   */
+  replace(records: string[]): Promise<void>;
+}
+
+/**
+ * Where encrypted thoughts are kept.
+ * Backends report a missing thought with StorageError code NOT_FOUND and a
+ * taken id with ALREADY_EXISTS; ids are validated by the caller.
+ */
+export interface StorageBackend {
+  /** Whether thoughts survive a restart */
+  readonly persistent: boolean;
+  /** Log holding the thought index, stored alongside the thoughts */
+  readonly indexLog: IndexLog;
+  
+  /**
+   * Prepare the backend; must be called before using any other methods
+   */
+  initialize(): Promise<void>;
+  
+  /**
+   * Durably store a thought. Without replace, fails if the id is taken;
+   * with replace, fails if it is not. Either way the write is atomic.
+   * @param id Thought id
+   * @param data Encrypted thought
+   * @param options Whether to replace an existing thought
+   */
+  save(id: string, data: Buffer, options?: { replace?: boolean }): Promise<void>;
+  
+  /**
+   * Read a thought
+   * @param id Thought id
+   */
+  read(id: string): Promise<Buffer>;
+  
+  /**
+   * List the ids of all stored thoughts
+   */
+  list(): Promise<string[]>;
+  
+  /**
+   * Get the size and modification time of a thought
+   * @param id Thought id
+   */
+  stat(id: string): Promise<ThoughtStat>;
+  
+  /**
+   * Delete a thought, overwriting its contents first where the medium allows
+   * @param id Thought id
+   */
+  delete(id: string): Promise<void>;
+  
+  /**
+   * Describe where a thought is stored, e.g. its file path
+   * @param id Thought id
+   */
+  locate(id: string): string;
+}
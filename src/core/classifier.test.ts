@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { promises as fsPromises } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG } from '../config.js';
+import { NaiveBayesClassifier, TrainingExample, loadClassifierModel, trainClassifier } from './classifier.js';
+import { createPrivacyDetector } from './privacy-detector.js';
+
+const EXAMPLES: TrainingExample[] = [
+  { text: 'I doubt my own answer here', isPrivate: true },
+  { text: 'I doubt the user will notice', isPrivate: true },
+  { text: 'Honestly I doubt this approach', isPrivate: true },
+  { text: 'The function returns a list', isPrivate: false },
+  { text: 'The function sorts the list', isPrivate: false },
+  { text: 'Call the function with a list', isPrivate: false }
+];
+
+describe('trainClassifier', () => {
+  it('counts the n-grams seen often enough in each class', () => {
+    const model = trainClassifier(EXAMPLES);
+    
+    expect(model).toMatchObject({
+      format: 'llm-secrets-naive-bayes',
+      formatVersion: 1,
+      ngramSize: 2,
+      alpha: 1,
+      segments: { public: 3, private: 3 }
+    });
+    expect(model.features['i doubt']).toEqual([0, 3]);
+    expect(model.features['function']).toEqual([3, 0]);
+    // Seen once, so dropped
+    expect(model.features['notice']).toBeUndefined();
+  });
+  
+  it('versions models by their parameters', () => {
+    expect(trainClassifier(EXAMPLES).version).toBe(trainClassifier([...EXAMPLES]).version);
+    expect(trainClassifier(EXAMPLES, { ngramSize: 1 }).version).not.toBe(trainClassifier(EXAMPLES).version);
+  });
+  
+  it('needs examples of both classes', () => {
+    expect(() => trainClassifier(EXAMPLES.filter(({ isPrivate }) => isPrivate)))
+      .toThrow(expect.objectContaining({ code: 'PRIVACY_INVALID_CORPUS' }));
+  });
+});
+
+describe('NaiveBayesClassifier', () => {
+  it('predicts the class of unseen texts and reports the strongest features', () => {
+    const classifier = new NaiveBayesClassifier(trainClassifier(EXAMPLES));
+    
+    const introspective = classifier.predict('I doubt the answer', 2);
+    const technical = classifier.predict('The function returns', 2);
+    
+    expect(introspective.probability).toBeGreaterThan(0.5);
+    expect(technical.probability).toBeLessThan(0.5);
+    expect(introspective.modelVersion).toBe(classifier.model.version);
+    expect(introspective.contributions).toHaveLength(2);
+    for (const { feature, weight } of introspective.contributions!) {
+      expect(['i', 'doubt', 'i doubt']).toContain(feature);
+      expect(weight).toBeGreaterThan(0);
+    }
+  });
+  
+  it('gives texts without known features the prior', () => {
+    const classifier = new NaiveBayesClassifier(trainClassifier(EXAMPLES));
+    
+    expect(classifier.predict('zebra', 5)).toMatchObject({ probability: 0.5, contributions: [] });
+  });
+});
+
+describe('classifier models', () => {
+  let tempDir: string;
+  
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+  
+  it('loads a saved model', async () => {
+    const model = trainClassifier(EXAMPLES);
+    const file = path.join(tempDir, 'model.json');
+    await fsPromises.writeFile(file, JSON.stringify(model));
+    
+    expect(await loadClassifierModel(file)).toEqual(model);
+  });
+  
+  it.each([
+    ['missing files', null],
+    ['invalid JSON', '{'],
+    ['other JSON files', '{"format":"something-else"}'],
+    ['other format versions', JSON.stringify({ ...trainClassifier(EXAMPLES), formatVersion: 2 })],
+    ['incomplete models', JSON.stringify({ ...trainClassifier(EXAMPLES), alpha: 0 })]
+  ])('rejects %s', async (_, content) => {
+    const file = path.join(tempDir, 'model.json');
+    if (content !== null) {
+      await fsPromises.writeFile(file, content);
+    }
+    
+    await expect(loadClassifierModel(file)).rejects.toMatchObject({ code: 'PRIVACY_INVALID_MODEL' });
+  });
+  
+  it('scores segments with the configured model', async () => {
+    const file = path.join(tempDir, 'model.json');
+    await fsPromises.writeFile(file, JSON.stringify(trainClassifier(EXAMPLES)));
+    const detector = await createPrivacyDetector({
+      ...DEFAULT_CONFIG.privacy,
+      classifier: { modelFile: file, threshold: 0.6, topFeatures: 3 },
+      scoring: { ...DEFAULT_CONFIG.privacy.scoring, weights: { patterns: 0, introspection: 0, sensitivity: 0 } }
+    });
+    
+    const { segments, detections } = await detector.processOutput('I doubt the answer.\n\nThe function returns a list.');
+    
+    expect(segments.map(({ decision }) => decision)).toEqual(['private', 'public']);
+    expect(segments[0]).toMatchObject({ triggeredBy: ['classifier-threshold'], thresholds: { classifier: 0.6 } });
+    expect(segments[1].details?.classifier.contributions).toHaveLength(3);
+    // Stored detections leave out the features, which quote the thought
+    expect(detections?.[0].details).toEqual({ classifier: { modelVersion: expect.stringMatching(/^nb-/) } });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Local statistical classifier for LLM-Secrets MCP server
+ * A multinomial naive Bayes model over word n-grams, trained offline from
+ * a labeled corpus and evaluated in-process; no network or GPU is needed.
+ */
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { ScorerDetails } from './types.js';
+import { segmentWords } from './segmenter.js';
+import { PrivacyError } from '../utils/errors.js';
+
+/**
+ * A trained model, as stored in its JSON file
+ */
+export interface NaiveBayesModel {
+  /** File format marker */
+  format: typeof MODEL_FORMAT;
+  /** Version of the file format */
+  formatVersion: number;
+  /** Version of the model: a hash of its parameters */
+  version: string;
+  /** When the model was trained (ISO 8601) */
+  trainedAt: string;
+  /** Longest n-gram used as a feature */
+  ngramSize: number;
+  /** Additive (Laplace) smoothing */
+  alpha: number;
+  /** Number of training segments per class */
+  segments: { public: number; private: number };
+  /** Number of feature occurrences per class */
+  featureTotals: { public: number; private: number };
+  /** Occurrences of each feature as [public, private] */
+  features: Record<string, [number, number]>;
+}
+
+/**
+ * A labeled training example
+ */
+export interface TrainingExample {
+  text: string;
+  isPrivate: boolean;
+}
+
+/**
+ * Training options
+ */
+export interface TrainingOptions {
+  /** Longest n-gram used as a feature (default 2) */
+  ngramSize?: number;
+  /** Features seen fewer times than this are dropped (default 2) */
+  minCount?: number;
+  /** Additive smoothing (default 1) */
+  alpha?: number;
+}
+
+/**
+ * A prediction for a text
+ */
+export interface ClassifierPrediction extends ScorerDetails {
+  /** Probability that the text is private (0.0-1.0) */
+  probability: number;
+}
+
+/** Format marker of model files */
+const MODEL_FORMAT = 'llm-secrets-naive-bayes';
+/** Current version of the model file format */
+const MODEL_FORMAT_VERSION = 1;
+
+/**
+ * Naive Bayes classifier over a trained model
+ */
+export class NaiveBayesClassifier {
+  private readonly logPriorRatio: number;
+  private readonly logRatios = new Map<string, number>();
+  
+  /**
+   * Create a classifier from a model
+   * @param model The trained model
+   */
+  constructor(public readonly model: NaiveBayesModel) {
+    const { alpha, segments, featureTotals, features } = model;
+    const vocabularySize = Object.keys(features).length;
+    const publicDenominator = Math.log(featureTotals.public + alpha * (vocabularySize + 1));
+    const privateDenominator = Math.log(featureTotals.private + alpha * (vocabularySize + 1));
+    
+    this.logPriorRatio = Math.log((segments.private + 1) / (segments.public + 1));
+    for (const [feature, [publicCount, privateCount]] of Object.entries(features)) {
+      this.logRatios.set(
+        feature,
+        (Math.log(privateCount + alpha) - privateDenominator) - (Math.log(publicCount + alpha) - publicDenominator)
+      );
+    }
+  }
+  
+  /**
+   * Estimate the probability that a text is private
+   * @param text The text
+   * @param topFeatures Number of strongest features to report
+   */
+  public predict(text: string, topFeatures: number): ClassifierPrediction {
+    const contributions = new Map<string, number>();
+    let logOdds = this.logPriorRatio;
+    
+    for (const feature of extractFeatures(text, this.model.ngramSize)) {
+      // Features the model has not seen carry no evidence
+      const weight = this.logRatios.get(feature);
+      if (weight !== undefined) {
+        logOdds += weight;
+        contributions.set(feature, (contributions.get(feature) ?? 0) + weight);
+      }
+    }
+    
+    return {
+      probability: 1 / (1 + Math.exp(-logOdds)),
+      modelVersion: this.model.version,
+      contributions: [...contributions]
+        .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+        .slice(0, topFeatures)
+        .map(([feature, weight]) => ({ feature, weight: Math.round(weight * 1e4) / 1e4 }))
+    };
+  }
+}
+
+/**
+ * Train a model from labeled examples
+ * @param examples The examples
+ * @param options Training options
+ * @throws PrivacyError if there are no examples of one of the classes
+ */
+export function trainClassifier(examples: TrainingExample[], options: TrainingOptions = {}): NaiveBayesModel {
+  const ngramSize = options.ngramSize ?? 2;
+  const minCount = options.minCount ?? 2;
+  const alpha = options.alpha ?? 1;
+  
+  const counts = new Map<string, [number, number]>();
+  const segments = { public: 0, private: 0 };
+  for (const { text, isPrivate } of examples) {
+    segments[isPrivate ? 'private' : 'public']++;
+    for (const feature of extractFeatures(text, ngramSize)) {
+      const count = counts.get(feature) ?? [0, 0];
+      count[isPrivate ? 1 : 0]++;
+      counts.set(feature, count);
+    }
+  }
+  if (segments.public === 0 || segments.private === 0) {
+    throw new PrivacyError(
+      `Training needs both public and private examples (got ${segments.public} public, ${segments.private} private)`,
+      'INVALID_CORPUS'
+    );
+  }
+  
+  // Drop rare features, in a stable order so equal corpora give equal models
+  const features: Record<string, [number, number]> = {};
+  const featureTotals = { public: 0, private: 0 };
+  for (const feature of [...counts.keys()].sort()) {
+    const [publicCount, privateCount] = counts.get(feature)!;
+    if (publicCount + privateCount >= minCount) {
+      features[feature] = [publicCount, privateCount];
+      featureTotals.public += publicCount;
+      featureTotals.private += privateCount;
+    }
+  }
+  
+  const parameters = { ngramSize, alpha, segments, featureTotals, features };
+  return {
+    format: MODEL_FORMAT,
+    formatVersion: MODEL_FORMAT_VERSION,
+    version: 'nb-' + crypto.createHash('sha256').update(JSON.stringify(parameters)).digest('hex').slice(0, 12),
+    trainedAt: new Date().toISOString(),
+    ...parameters
+  };
+}
+
+/**
+ * Read a model file
+ * @param file Path of the model
+ * @throws PrivacyError with code PRIVACY_INVALID_MODEL if the file is not a usable model
+ */
+export async function loadClassifierModel(file: string): Promise<NaiveBayesModel> {
+  let model: NaiveBayesModel;
+  try {
+    model = JSON.parse(await fsPromises.readFile(file, 'utf-8'));
+  } catch (error) {
+    throw new PrivacyError(`Cannot read classifier model ${file}: ${(error as Error).message}`, 'INVALID_MODEL');
+  }
+  
+  if (model?.format !== MODEL_FORMAT) {
+    throw new PrivacyError(`${file} is not a classifier model`, 'INVALID_MODEL');
+  }
+  if (model.formatVersion !== MODEL_FORMAT_VERSION) {
+    throw new PrivacyError(
+      `Classifier model ${file} has format version ${model.formatVersion}; this server reads version ${MODEL_FORMAT_VERSION}`,
+      'INVALID_MODEL'
+    );
+  }
+  if (
+    !Number.isInteger(model.ngramSize) || model.ngramSize < 1 ||
+    !(model.alpha > 0) ||
+    typeof model.features !== 'object' || model.features === null ||
+    !model.segments || !model.featureTotals
+  ) {
+    throw new PrivacyError(`Classifier model ${file} is incomplete`, 'INVALID_MODEL');
+  }
+  return model;
+}
+
+/**
+ * Extract the features of a text: lowercased word n-grams up to a size,
+ * with words found by Intl.Segmenter so that scripts written without
+ * spaces are split into words too
+ * @param text The text
+ * @param ngramSize Longest n-gram
+ */
+function extractFeatures(text: string, ngramSize: number): string[] {
+  const words = segmentWords(text.toLowerCase());
+  const features: string[] = [];
+  for (let size = 1; size <= ngramSize; size++) {
+    for (let index = 0; index + size <= words.length; index++) {
+      features.push(words.slice(index, index + size).join(' '));
+    }
+  }
+  return features;
+}
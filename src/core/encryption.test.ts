@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG, EncryptionConfig } from '../config.js';
+import { EncryptionManager, createEncryptionManager } from './encryption.js';
+import { EnvelopeAlgorithm, parseEnvelope } from './envelope.js';
+
+/**
+ * Encrypt with AES-256-CBC and an IV prefix, as files were written before envelopes
+ */
+function encryptLegacy(key: Buffer, text: string): Buffer {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+  return Buffer.concat([iv, cipher.update(text, 'utf-8'), cipher.final()]);
+}
+
+describe('EncryptionManager', () => {
+  let dir: string;
+  let config: EncryptionConfig;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    config = { ...DEFAULT_CONFIG.encryption, keyFile: path.join(dir, 'key.json') };
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  describe('envelopes', () => {
+    let manager: EncryptionManager;
+    
+    beforeEach(async () => {
+      manager = await createEncryptionManager(config);
+    });
+    
+    it('round-trips content and keeps the associated data in the header', async () => {
+      const envelope = await manager.encrypt('a private thought', { thoughtId: 'thought-1', timestamp: 1700000000000 });
+      
+      expect(parseEnvelope(envelope).header.associatedData).toEqual({ thoughtId: 'thought-1', timestamp: 1700000000000 });
+      expect(await manager.decrypt(envelope)).toBe('a private thought');
+    });
+    
+    it('rejects a modified ciphertext', async () => {
+      const envelope = await manager.encrypt('a private thought');
+      envelope[envelope.length - 20] ^= 0x01;
+      
+      await expect(manager.decrypt(envelope)).rejects.toThrow();
+    });
+    
+    it('rejects a modified authentication tag', async () => {
+      const envelope = await manager.encrypt('a private thought');
+      envelope[envelope.length - 1] ^= 0x01;
+      
+      await expect(manager.decrypt(envelope)).rejects.toThrow();
+    });
+    
+    it('rejects modified associated data', async () => {
+      const envelope = await manager.encrypt('a private thought', { thoughtId: 'thought-1' });
+      const offset = envelope.indexOf('thought-1');
+      envelope.write('thought-2', offset, 'utf-8');
+      
+      expect(parseEnvelope(envelope).header.associatedData).toEqual({ thoughtId: 'thought-2' });
+      await expect(manager.decrypt(envelope)).rejects.toThrow();
+    });
+  });
+  
+  describe('legacy AES-256-CBC files', () => {
+    it('decrypts IV-prefixed data with a legacy base64 key file', async () => {
+      const key = crypto.randomBytes(32);
+      await fsPromises.writeFile(config.keyFile, key.toString('base64'));
+      const legacy = encryptLegacy(key, 'an old thought');
+      
+      const manager = await createEncryptionManager(config);
+      
+      expect(manager.getKeyIdOf(legacy)).toBeNull();
+      expect(await manager.decrypt(legacy)).toBe('an old thought');
+    });
+    
+    it('re-encrypts legacy data into an envelope', async () => {
+      const key = crypto.randomBytes(32);
+      await fsPromises.writeFile(config.keyFile, key.toString('base64'));
+      const legacy = encryptLegacy(key, 'an old thought');
+      
+      const manager = await createEncryptionManager(config);
+      const envelope = await manager.reencrypt(legacy);
+      
+      expect(manager.getKeyIdOf(envelope)).toBe(manager.getKeyInfo().keyId);
+      expect(await manager.decrypt(envelope)).toBe('an old thought');
+    });
+    
+    it('decrypts legacy data with the converted key only, after rotation too', async () => {
+      const key = crypto.randomBytes(32);
+      await fsPromises.writeFile(config.keyFile, key.toString('base64'));
+      const legacy = encryptLegacy(key, 'an old thought');
+      
+      const manager = await createEncryptionManager(config);
+      const legacyKeyId = manager.getKeyInfo().keyId;
+      await manager.rotateKey();
+      const reloaded = await createEncryptionManager(config);
+      
+      expect(JSON.parse(await fsPromises.readFile(config.keyFile, 'utf-8')).legacyKeyId).toBe(legacyKeyId);
+      expect(await reloaded.decrypt(legacy)).toBe('an old thought');
+      
+      await reloaded.retireKeys([legacyKeyId]);
+      await expect(reloaded.decrypt(legacy)).rejects.toMatchObject({ code: 'ENCRYPTION_KEY_NOT_FOUND' });
+    });
+    
+    it('does not try other keys on legacy data', async () => {
+      const manager = await createEncryptionManager(config);
+      const file = JSON.parse(await fsPromises.readFile(config.keyFile, 'utf-8'));
+      const legacy = encryptLegacy(Buffer.from(file.keys[0].key, 'base64'), 'not an old thought');
+      
+      expect(file.legacyKeyId).toBeUndefined();
+      await expect(manager.decrypt(legacy)).rejects.toMatchObject({ code: 'ENCRYPTION_KEY_NOT_FOUND' });
+    });
+  });
+  
+  describe('passphrase-protected key files', () => {
+    let passphraseFile: string;
+    
+    beforeEach(async () => {
+      passphraseFile = path.join(dir, 'passphrase');
+      await fsPromises.writeFile(passphraseFile, 'correct horse battery staple\n');
+      config = {
+        ...config,
+        passphraseProtected: true,
+        passphraseFile,
+        kdf: { cost: 1024, blockSize: 8, parallelization: 1 },
+        idleLockMinutes: 1
+      };
+      process.env.KEY_PASSPHRASE = 'correct horse battery staple';
+    });
+    
+    afterEach(() => {
+      jest.useRealTimers();
+      delete process.env.KEY_PASSPHRASE;
+    });
+    
+    it('wraps the keys with a scrypt-derived key and removes KEY_PASSPHRASE from the environment', async () => {
+      await createEncryptionManager(config);
+      
+      const file = JSON.parse(await fsPromises.readFile(config.keyFile, 'utf-8'));
+      expect(process.env.KEY_PASSPHRASE).toBeUndefined();
+      expect(file.kdf).toMatchObject({ algorithm: 'scrypt', cost: 1024, blockSize: 8, parallelization: 1 });
+      expect(file.keys).toHaveLength(1);
+      expect(file.keys[0].key).toBeUndefined();
+      expect(file.keys[0].wrappedKey).toEqual({
+        nonce: expect.any(String),
+        ciphertext: expect.any(String),
+        tag: expect.any(String)
+      });
+    });
+    
+    it('starts locked and encrypts to the public key until unlocked', async () => {
+      const manager = await createEncryptionManager(config);
+      
+      expect(manager.isLocked()).toBe(true);
+      const envelope = await manager.encrypt('written while locked');
+      expect(parseEnvelope(envelope).header.algorithm).toBe(EnvelopeAlgorithm.X25519_AES_256_GCM);
+      await expect(manager.decrypt(envelope)).rejects.toMatchObject({ code: 'ENCRYPTION_LOCKED' });
+      
+      await manager.unlock();
+      
+      expect(manager.isLocked()).toBe(false);
+      expect(await manager.decrypt(envelope)).toBe('written while locked');
+    });
+    
+    it('rejects a wrong passphrase and stays locked', async () => {
+      const manager = await createEncryptionManager(config);
+      await fsPromises.writeFile(passphraseFile, 'wrong passphrase');
+      
+      await expect(manager.unlock()).rejects.toMatchObject({ code: 'ENCRYPTION_INVALID_PASSPHRASE' });
+      expect(manager.isLocked()).toBe(true);
+    });
+    
+    it('requires a passphrase file to unlock', async () => {
+      const manager = await createEncryptionManager({ ...config, passphraseFile: '' });
+      
+      await expect(manager.unlock()).rejects.toMatchObject({ code: 'ENCRYPTION_INVALID_PASSPHRASE' });
+    });
+    
+    it('locks again after the idle timeout', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const manager = await createEncryptionManager(config);
+      await manager.unlock();
+      jest.useFakeTimers();
+      // Decrypting restarts the idle timer under fake timers
+      await manager.decrypt(await manager.encrypt('a private thought'));
+      
+      jest.advanceTimersByTime(59 * 1000);
+      expect(manager.isLocked()).toBe(false);
+      jest.advanceTimersByTime(1000);
+      expect(manager.isLocked()).toBe(true);
+    });
+  });
+});
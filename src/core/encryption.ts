@@ -1,21 +1,58 @@
 /**
  * Encryption module for LLM-Secrets MCP server
- * Implements AES-256 encryption using Node.js crypto module
+ * Implements AES-256-GCM envelope encryption using Node.js crypto module,
+ * with read support for legacy AES-256-CBC files. When the key file is
+ * passphrase-protected, thoughts are encrypted to each key's X25519 public
+ * key so that writing works while the keyring is locked. The key file may
+ * instead be escrowed, so that unlocking needs M of N share holders. In
+ * sealed mode the server holds only recipient public keys and cannot decrypt
+ * at all.
  */
 import * as crypto from 'crypto';
-import * as fs from 'fs';
 import { promises as fsPromises } from 'fs';
-import * as path from 'path';
 import { EncryptionConfig } from '../config.js';
-import { KeyInfo } from './types.js';
+import {
+  EscrowSubmissionResult,
+  KeyInfo,
+  KeyProtectionInfo,
+  KeyringKeyInfo,
+  ThoughtKeyUsage
+} from './types.js';
 import { EncryptionError } from '../utils/errors.js';
+import {
+  ENVELOPE_VERSION,
+  EnvelopeAlgorithm,
+  EnvelopeAssociatedData,
+  decryptEnvelopePayload,
+  encryptEnvelopePayload,
+  isEnvelope,
+  parseEnvelope
+} from './envelope.js';
+import { Keyring, KeyringEntry } from './keyring.js';
+import {
+  decapsulateX25519,
+  deriveX25519PrivateKey,
+  encapsulateX25519
+} from './key-agreement.js';
+import {
+  SealedRecipient,
+  computeRecipientSetId,
+  loadSealedRecipient,
+  sealToRecipients
+} from './sealed.js';
+import { EscrowShare, parseEscrowShare } from './shamir.js';
 
 /**
  * Manages encryption for private thoughts using AES-256
  */
 export class EncryptionManager {
-  private key: Buffer = Buffer.alloc(0);
+  private keyring: Keyring | null = null;
+  private sealedRecipients: SealedRecipient[] | null = null;
   private readonly config: EncryptionConfig;
+  private idleLockTimer: NodeJS.Timeout | null = null;
+  private readonly unlockListeners: (() => void)[] = [];
+  /** Escrow shares submitted so far, held in memory only, by share index */
+  private readonly pendingShares = new Map<number, EscrowShare>();
   
   /**
    * Create a new EncryptionManager
@@ -31,7 +68,11 @@ export class EncryptionManager {
    */
   public async initialize(): Promise<void> {
     try {
-      this.key = await this.loadOrCreateKey();
+      if (this.config.mode === 'sealed') {
+        this.sealedRecipients = await this.loadSealedRecipients();
+      } else {
+        this.keyring = await this.loadOrCreateKeyring();
+      }
     } catch (error) {
       throw new EncryptionError(
         `Failed to initialize encryption: ${(error as Error).message}`,
@@ -41,82 +82,280 @@ export class EncryptionManager {
   }
   
   /**
-   * Load existing key or create a new one if it doesn't exist
+   * Path of the key file, honouring the KEY_FILE_PATH environment variable
+   */
+  public getKeyFilePath(): string {
+    return process.env.KEY_FILE_PATH || this.config.keyFile;
+  }
+  
+  /**
+   * Load the existing keyring or create a new one if it doesn't exist
    */
-  private async loadOrCreateKey(): Promise<Buffer> {
+  private async loadOrCreateKeyring(): Promise<Keyring> {
+    const keyFilePath = this.getKeyFilePath();
+    console.log(`Loading encryption keyring from: ${keyFilePath}`);
+    
+    // KEY_PASSPHRASE is only used to protect the key file; it is removed
+    // from the environment so it is not readable for the life of the process
+    const passphrase = process.env.KEY_PASSPHRASE;
+    delete process.env.KEY_PASSPHRASE;
+    
+    const keyring = new Keyring(keyFilePath, this.config.keySize, this.config.kdf);
+    await keyring.load({
+      requireProtection: this.config.passphraseProtected,
+      passphrase
+    });
+    
+    if (keyring.getEscrowParameters()) {
+      const { threshold, shares } = keyring.getEscrowParameters()!;
+      console.log(`Key file is protected by ${threshold}-of-${shares.length} key escrow; decryption is locked until enough shares are submitted`);
+    } else if (keyring.isProtected()) {
+      console.log('Key file is passphrase-protected; decryption is locked until unlocked');
+    }
+    return keyring;
+  }
+  
+  /**
+   * Load the recipient public keys used in sealed mode
+   */
+  private async loadSealedRecipients(): Promise<SealedRecipient[]> {
+    if (this.config.recipients.length === 0) {
+      throw new EncryptionError(
+        'Sealed mode requires at least one recipient public key',
+        'INVALID_RECIPIENT'
+      );
+    }
+    
+    const recipients: SealedRecipient[] = [];
+    for (const recipient of this.config.recipients) {
+      console.log(`Loading sealed recipient public key from: ${recipient.publicKeyFile}`);
+      recipients.push(await loadSealedRecipient(recipient.publicKeyFile));
+    }
+    
+    console.log(`Sealed mode: thoughts are encrypted to ${recipients.length} offline recipient(s) and cannot be decrypted by the server`);
+    return recipients;
+  }
+  
+  /**
+   * Get the keyring, failing if the manager has not been initialized
+   * or runs in sealed mode
+   */
+  private requireKeyring(): Keyring {
+    if (this.sealedRecipients) {
+      throw new EncryptionError(
+        'Not available in sealed mode: the server holds no decryption keys',
+        'SEALED_MODE'
+      );
+    }
+    if (!this.keyring) {
+      throw new EncryptionError(
+        'Encryption key not initialized',
+        'KEY_NOT_INITIALIZED'
+      );
+    }
+    return this.keyring;
+  }
+  
+  /**
+   * Whether decryption is currently unavailable, either because the key file
+   * is locked or because the server runs in sealed mode
+   */
+  public isLocked(): boolean {
+    return this.sealedRecipients !== null || this.requireKeyring().isLocked();
+  }
+  
+  /**
+   * Unlock a passphrase-protected key file so thoughts can be decrypted.
+   * The passphrase is read out of band, never taken from a tool call.
+   * The keys lock again after the configured idle timeout.
+   */
+  public async unlock(): Promise<void> {
+    const keyring = this.requireKeyring();
+    const passphrase = await this.readPassphrase();
+    await keyring.unlock(passphrase);
+    this.onUnlocked();
+  }
+  
+  /**
+   * Read the key file passphrase from the configured passphrase file
+   */
+  private async readPassphrase(): Promise<string> {
+    if (!this.config.passphraseFile) {
+      throw new EncryptionError(
+        'No passphrase available; set encryption.passphraseFile',
+        'INVALID_PASSPHRASE'
+      );
+    }
+    
     try {
-      // Use KEY_FILE_PATH environment variable if available, otherwise use config path
-      const keyFilePath = process.env.KEY_FILE_PATH || this.config.keyFile;
-      console.log(`Loading encryption key from: ${keyFilePath}`);
-      
-      // Check if key file exists
-      await fsPromises.access(keyFilePath, fs.constants.R_OK);
-      
-      // Load existing key
-      const keyBase64 = await fsPromises.readFile(keyFilePath, 'utf-8');
-      const key = Buffer.from(keyBase64.trim(), 'base64');
-      
-      // Validate key size
-      if (key.length !== this.config.keySize) {
-        throw new EncryptionError(
-          `Invalid key size: expected ${this.config.keySize} bytes, got ${key.length}`,
-          'INVALID_KEY_SIZE'
-        );
-      }
-      
-      return key;
+      return (await fsPromises.readFile(this.config.passphraseFile, 'utf-8')).replace(/\r?\n$/, '');
     } catch (error) {
-      // If error is not about file not existing, rethrow
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !(error instanceof EncryptionError)) {
-        throw error;
+      throw new EncryptionError(
+        `Failed to read passphrase file: ${(error as Error).message}`,
+        'INVALID_PASSPHRASE'
+      );
+    }
+  }
+  
+  /**
+   * Submit one key escrow share. Shares are kept in memory until the
+   * threshold is reached, then combined to unlock the key file; neither the
+   * shares nor the recovered key are ever written to disk.
+   * @param encodedShare Share text as written by the escrow tool
+   * @returns Progress towards the threshold
+   */
+  public submitEscrowShare(encodedShare: string): EscrowSubmissionResult {
+    const keyring = this.requireKeyring();
+    const escrow = keyring.getEscrowParameters();
+    if (!escrow) {
+      throw new EncryptionError('Key file is not protected by key escrow', 'NOT_PROTECTED');
+    }
+    
+    const share = parseEscrowShare(encodedShare);
+    keyring.verifyEscrowShare(share);
+    
+    if (keyring.isLocked()) {
+      this.pendingShares.get(share.index)?.value.fill(0);
+      this.pendingShares.set(share.index, share);
+    } else {
+      share.value.fill(0);
+    }
+    
+    const sharesSubmitted = this.pendingShares.size;
+    if (keyring.isLocked() && sharesSubmitted >= escrow.threshold) {
+      try {
+        keyring.unlockWithShares([...this.pendingShares.values()]);
+      } finally {
+        this.clearPendingShares();
       }
-      
-      // Generate new key if file doesn't exist or key size is invalid
-      const key = crypto.randomBytes(this.config.keySize);
-      
-      // Use KEY_FILE_PATH environment variable if available, otherwise use config path
-      const keyFilePath = process.env.KEY_FILE_PATH || this.config.keyFile;
-      
-      // Save key in base64 format for readability
-      await fsPromises.writeFile(keyFilePath, key.toString('base64'));
-      
-      return key;
+      this.onUnlocked();
+    }
+    
+    return {
+      shareIndex: share.index,
+      sharesSubmitted,
+      threshold: escrow.threshold,
+      locked: keyring.isLocked()
+    };
+  }
+  
+  /**
+   * Lock a protected key file, zeroing all key material in memory
+   */
+  public lock(): void {
+    const keyring = this.requireKeyring();
+    if (!keyring.isProtected()) {
+      throw new EncryptionError('Key file is not protected', 'NOT_PROTECTED');
+    }
+    
+    if (this.idleLockTimer) {
+      clearTimeout(this.idleLockTimer);
+      this.idleLockTimer = null;
+    }
+    this.clearPendingShares();
+    keyring.lock();
+  }
+  
+  /**
+   * Register a callback to run whenever the key file is unlocked
+   * @param listener Callback to invoke
+   */
+  public onUnlock(listener: () => void): void {
+    this.unlockListeners.push(listener);
+  }
+  
+  /**
+   * Start the idle timer and notify listeners after the key file is unlocked
+   */
+  private onUnlocked(): void {
+    this.scheduleIdleLock();
+    
+    for (const listener of this.unlockListeners) {
+      listener();
+    }
+  }
+  
+  /**
+   * Zero and forget escrow shares submitted so far
+   */
+  private clearPendingShares(): void {
+    for (const share of this.pendingShares.values()) {
+      share.value.fill(0);
     }
+    this.pendingShares.clear();
   }
   
   /**
-   * Encrypt data using AES-256
+   * Restart the idle timer after which an unlocked key file locks again
+   */
+  private scheduleIdleLock(): void {
+    if (this.idleLockTimer) {
+      clearTimeout(this.idleLockTimer);
+      this.idleLockTimer = null;
+    }
+    if (this.config.idleLockMinutes <= 0 || !this.requireKeyring().isProtected()) {
+      return;
+    }
+    
+    this.idleLockTimer = setTimeout(() => {
+      // lock() also zeroes escrow shares submitted since the unlock
+      this.lock();
+      console.error('Key file locked after idle timeout');
+    }, this.config.idleLockMinutes * 60 * 1000);
+    this.idleLockTimer.unref();
+  }
+  
+  /**
+   * Encrypt data into an AES-256-GCM envelope using the active key,
+   * or sealed to the offline recipients in sealed mode
    * @param data The data to encrypt (string or Buffer)
-   * @returns Buffer containing encrypted data with IV prepended
+   * @param associatedData Optional data stored in clear but authenticated (e.g. thought id, timestamp)
+   * @returns Buffer containing the encrypted envelope
    */
-  public async encrypt(data: string | Buffer): Promise<Buffer> {
+  public async encrypt(
+    data: string | Buffer,
+    associatedData?: EnvelopeAssociatedData
+  ): Promise<Buffer> {
     try {
-      // Ensure we have a key
-      if (this.key.length === 0) {
-        throw new EncryptionError(
-          'Encryption key not initialized',
-          'KEY_NOT_INITIALIZED'
-        );
-      }
-      
       // Convert string to Buffer if needed
       const dataBuffer = typeof data === 'string' ? 
         Buffer.from(data, 'utf-8') : data;
       
-      // Generate random IV (Initialization Vector)
-      const iv = crypto.randomBytes(16);
+      if (this.sealedRecipients) {
+        return sealToRecipients(dataBuffer, this.sealedRecipients, associatedData);
+      }
       
-      // Create cipher with AES-256-CBC
-      const cipher = crypto.createCipheriv('aes-256-cbc', this.key, iv);
+      const keyring = this.requireKeyring();
+      const activeKey = keyring.getActiveKey();
       
-      // Encrypt
-      const encryptedData = Buffer.concat([
-        cipher.update(dataBuffer),
-        cipher.final()
-      ]);
+      // Protected key files only expose public keys while locked, so always
+      // encrypt to the active key's public key and keep the code path uniform
+      let algorithm = EnvelopeAlgorithm.AES_256_GCM;
+      let encapsulatedKey = Buffer.alloc(0);
+      let contentKey = activeKey.key;
+      if (keyring.isProtected()) {
+        const encapsulated = encapsulateX25519(activeKey.publicKey);
+        algorithm = EnvelopeAlgorithm.X25519_AES_256_GCM;
+        encapsulatedKey = encapsulated.ephemeralPublicKey;
+        contentKey = encapsulated.contentKey;
+      }
       
-      // Prepend IV to encrypted data (needed for decryption)
-      return Buffer.concat([iv, encryptedData]);
+      try {
+        return encryptEnvelopePayload(
+          {
+            algorithm,
+            keyId: activeKey.id,
+            encapsulatedKey,
+            associatedData
+          },
+          contentKey,
+          dataBuffer
+        );
+      } finally {
+        if (contentKey !== activeKey.key) {
+          contentKey.fill(0);
+        }
+      }
     } catch (error) {
       if (error instanceof EncryptionError) {
         throw error;
@@ -130,20 +369,83 @@ export class EncryptionManager {
   
   /**
    * Decrypt data that was encrypted with this manager
-   * @param encryptedData Buffer containing encrypted data with IV prepended
+   * Accepts both envelopes and legacy IV-prefixed AES-256-CBC data
+   * @param encryptedData Buffer containing an envelope or legacy encrypted data
    * @returns Decrypted data as a string
    */
   public async decrypt(encryptedData: Buffer): Promise<string> {
+    return (await this.decryptToBuffer(encryptedData)).toString('utf-8');
+  }
+  
+  /**
+   * Re-encrypt data with the active key, preserving its associated data
+   * @param encryptedData Buffer containing an envelope or legacy encrypted data
+   * @returns Buffer containing the new envelope
+   */
+  public async reencrypt(encryptedData: Buffer): Promise<Buffer> {
+    const associatedData = isEnvelope(encryptedData) ?
+      parseEnvelope(encryptedData).header.associatedData :
+      undefined;
+    const plaintext = await this.decryptToBuffer(encryptedData);
     try {
-      // Ensure we have a key
-      if (this.key.length === 0) {
-        throw new EncryptionError(
-          'Encryption key not initialized',
-          'KEY_NOT_INITIALIZED'
-        );
+      return await this.encrypt(plaintext, associatedData);
+    } finally {
+      plaintext.fill(0);
+    }
+  }
+  
+  /**
+   * Get the id of the key that protects some encrypted data
+   * @param encryptedData Buffer containing an envelope or legacy encrypted data
+   * @returns The key id, or null for legacy data which carries no key id
+   */
+  public getKeyIdOf(encryptedData: Buffer): string | null {
+    if (!isEnvelope(encryptedData)) {
+      return null;
+    }
+    return parseEnvelope(encryptedData).header.keyId;
+  }
+  
+  /**
+   * Generate a new active key; the previous active key becomes decrypt-only
+   * @returns Information about the new key
+   */
+  public async rotateKey(): Promise<KeyringKeyInfo> {
+    const keyring = this.requireKeyring();
+    const entry = keyring.createKey();
+    await keyring.save();
+    return { id: entry.id, createdAt: entry.createdAt, status: entry.status };
+  }
+  
+  /**
+   * Retire keys that no longer protect any thought
+   * @param keyIds Identifiers of the keys to retire
+   */
+  public async retireKeys(keyIds: string[]): Promise<void> {
+    const keyring = this.requireKeyring();
+    for (const keyId of keyIds) {
+      keyring.retireKey(keyId);
+    }
+    await keyring.save();
+  }
+  
+  /**
+   * Decrypt data to a Buffer
+   */
+  private async decryptToBuffer(encryptedData: Buffer): Promise<Buffer> {
+    try {
+      const keyring = this.requireKeyring();
+      
+      if (keyring.isLocked()) {
+        throw new EncryptionError('Key file is locked; unlock it first', 'LOCKED');
+      }
+      this.scheduleIdleLock();
+      
+      if (isEnvelope(encryptedData)) {
+        return this.decryptEnvelope(keyring, encryptedData);
       }
       
-      // Validate input
+      // Legacy format: validate input
       if (encryptedData.length < 16) {
         throw new EncryptionError(
           'Encrypted data too short (missing IV)',
@@ -155,17 +457,19 @@ export class EncryptionManager {
       const iv = encryptedData.slice(0, 16);
       const ciphertext = encryptedData.slice(16);
       
-      // Create decipher
-      const decipher = crypto.createDecipheriv('aes-256-cbc', this.key, iv);
-      
-      // Decrypt
-      const decrypted = Buffer.concat([
+      // Legacy data carries no key id; only the key of the original key file wrote it
+      const legacyKey = keyring.getLegacyKey();
+      if (!legacyKey) {
+        throw new EncryptionError(
+          'Legacy data needs the key converted from the original key file, which this keyring does not have',
+          'KEY_NOT_FOUND'
+        );
+      }
+      const decipher = crypto.createDecipheriv('aes-256-cbc', legacyKey.key, iv);
+      return Buffer.concat([
         decipher.update(ciphertext),
         decipher.final()
       ]);
-      
-      // Return as UTF-8 string
-      return decrypted.toString('utf-8');
     } catch (error) {
       if (error instanceof EncryptionError) {
         throw error;
@@ -178,13 +482,157 @@ export class EncryptionManager {
   }
   
   /**
-   * Get information about the encryption key
+   * Decrypt an AES-256-GCM envelope
+   * @param keyring Keyring to look the envelope's key up in
+   * @param encryptedData Buffer containing the envelope
+   * @returns Decrypted data
+   */
+  private decryptEnvelope(keyring: Keyring, encryptedData: Buffer): Buffer {
+    const envelope = parseEnvelope(encryptedData);
+    const { header } = envelope;
+    
+    const entry = keyring.getDecryptionKey(header.keyId);
+    if (!entry) {
+      throw new EncryptionError(
+        `Envelope was encrypted with unknown or retired key: ${header.keyId}`,
+        'KEY_NOT_FOUND'
+      );
+    }
+    
+    const contentKey = this.getContentKey(entry, header.algorithm, header.encapsulatedKey);
+    
+    try {
+      return decryptEnvelopePayload(envelope, contentKey);
+    } finally {
+      if (contentKey !== entry.key) {
+        contentKey.fill(0);
+      }
+    }
+  }
+  
+  /**
+   * Get the AES-256-GCM key for an envelope
+   * @param entry Keyring key named in the envelope header
+   * @param algorithm Envelope algorithm
+   * @param encapsulatedKey Encapsulated key material from the envelope header
+   */
+  private getContentKey(
+    entry: KeyringEntry,
+    algorithm: EnvelopeAlgorithm,
+    encapsulatedKey: Buffer
+  ): Buffer {
+    switch (algorithm) {
+      case EnvelopeAlgorithm.AES_256_GCM:
+        return entry.key;
+      case EnvelopeAlgorithm.X25519_AES_256_GCM:
+        try {
+          return decapsulateX25519(deriveX25519PrivateKey(entry.key), encapsulatedKey);
+        } catch (error) {
+          throw new EncryptionError(
+            `Invalid encapsulated key: ${(error as Error).message}`,
+            'TAMPERED'
+          );
+        }
+      case EnvelopeAlgorithm.SEALED_AES_256_GCM:
+        throw new EncryptionError(
+          'Envelope is sealed to offline recipients; decrypt it with the offline tool',
+          'SEALED_MODE'
+        );
+      default:
+        throw new EncryptionError(
+          `Unsupported envelope algorithm: ${algorithm}`,
+          'UNSUPPORTED_ALGORITHM'
+        );
+    }
+  }
+  
+  /**
+   * Get information about the encryption keys
+   * @param usage Optional count of stored thoughts per key
    */
-  public getKeyInfo(): KeyInfo {
+  public getKeyInfo(usage?: ThoughtKeyUsage): KeyInfo {
+    if (this.sealedRecipients) {
+      return this.getSealedKeyInfo(this.sealedRecipients, usage);
+    }
+    
+    const keyring = this.requireKeyring();
+    const keys = keyring.listKeys().map(key => usage ?
+      { ...key, thoughtCount: usage.byKeyId[key.id] ?? 0 } :
+      key
+    );
+    
     return {
-      algorithm: 'AES-256',
+      mode: 'keyring',
+      algorithm: keyring.isProtected() ? 'X25519-HKDF-SHA256 + AES-256-GCM' : 'AES-256-GCM',
       keyFile: this.config.keyFile,
-      keySizeBits: this.config.keySize * 8
+      keySizeBits: this.config.keySize * 8,
+      keyId: keyring.getActiveKey().id,
+      envelopeVersion: ENVELOPE_VERSION,
+      keys,
+      protection: this.getProtectionInfo(keyring),
+      ...(usage ? { legacyThoughtCount: usage.legacy } : {})
+    };
+  }
+  
+  /**
+   * Describe how the key file is protected, without revealing any secret
+   * @param keyring The keyring
+   */
+  private getProtectionInfo(keyring: Keyring): KeyProtectionInfo {
+    const kdf = keyring.getKdfParameters();
+    if (kdf) {
+      return {
+        type: 'passphrase',
+        locked: keyring.isLocked(),
+        kdf: { algorithm: 'scrypt', ...kdf },
+        idleLockMinutes: this.config.idleLockMinutes
+      };
+    }
+    
+    const escrow = keyring.getEscrowParameters();
+    if (escrow) {
+      return {
+        type: 'escrow',
+        locked: keyring.isLocked(),
+        escrow: {
+          algorithm: 'shamir-gf256',
+          threshold: escrow.threshold,
+          shareCount: escrow.shares.length,
+          shares: escrow.shares,
+          sharesSubmitted: this.pendingShares.size
+        },
+        idleLockMinutes: this.config.idleLockMinutes
+      };
+    }
+    
+    return { type: 'none', locked: false };
+  }
+  
+  /**
+   * Get information about the recipients used in sealed mode
+   * @param recipients Configured recipients
+   * @param usage Optional count of stored thoughts per key
+   */
+  private getSealedKeyInfo(recipients: SealedRecipient[], usage?: ThoughtKeyUsage): KeyInfo {
+    const keyId = computeRecipientSetId(recipients);
+    
+    return {
+      mode: 'sealed',
+      algorithm: 'Sealed (X25519-HKDF-SHA256 or RSA-OAEP-SHA256) + AES-256-GCM',
+      keySizeBits: 256,
+      keyId,
+      envelopeVersion: ENVELOPE_VERSION,
+      keys: [],
+      recipients: recipients.map((recipient, index) => ({
+        id: recipient.id,
+        type: recipient.type,
+        publicKeyFile: this.config.recipients[index].publicKeyFile
+      })),
+      protection: { type: 'sealed', locked: true },
+      ...(usage ? {
+        sealedThoughtCount: usage.byKeyId[keyId] ?? 0,
+        legacyThoughtCount: usage.legacy
+      } : {})
     };
   }
 }
@@ -0,0 +1,292 @@
+/**
+ * Envelope format for encrypted thoughts
+ * Defines the versioned on-disk layout used for all new `.enc` files
+ *
+ * Layout (all multi-byte integers are big-endian):
+ *
+ *   magic               4 bytes   "LSEC"
+ *   version             1 byte
+ *   algorithm           1 byte
+ *   keyIdLength         1 byte    followed by the key id (UTF-8)
+ *   nonceLength         1 byte    followed by the nonce
+ *   encapsulatedKeyLen  2 bytes   followed by algorithm-specific key material
+ *   associatedDataLen   2 bytes   followed by associated data (UTF-8 JSON)
+ *   ciphertext          variable
+ *   tag                 16 bytes
+ *
+ * Everything before the ciphertext is the header. The header is passed to
+ * AES-GCM as additional authenticated data, so any change to the key id,
+ * algorithm or associated data is detected on decryption.
+ */
+
+import * as crypto from 'crypto';
+import { EncryptionError } from '../utils/errors.js';
+
+/** Magic bytes identifying an envelope */
+export const ENVELOPE_MAGIC = Buffer.from('LSEC', 'ascii');
+
+/** Current envelope format version */
+export const ENVELOPE_VERSION = 1;
+
+/** Length of the GCM authentication tag in bytes */
+export const ENVELOPE_TAG_LENGTH = 16;
+
+/** Length of the GCM nonce in bytes */
+export const ENVELOPE_NONCE_LENGTH = 12;
+
+/**
+ * Algorithm identifiers stored in the envelope header
+ */
+export enum EnvelopeAlgorithm {
+  /** AES-256-GCM with a symmetric key taken directly from the keyring */
+  AES_256_GCM = 1,
+  /** AES-256-GCM with a content key encapsulated to a keyring key's X25519 public key */
+  X25519_AES_256_GCM = 2,
+  /** AES-256-GCM with a random content key wrapped for one or more offline recipients */
+  SEALED_AES_256_GCM = 3,
+}
+
+/**
+ * Associated data stored in clear (but authenticated) in the envelope header
+ */
+export type EnvelopeAssociatedData = Record<string, string | number>;
+
+/**
+ * Parsed envelope header fields
+ */
+export interface EnvelopeHeader {
+  /** Format version */
+  version: number;
+  /** Algorithm used to encrypt the payload */
+  algorithm: EnvelopeAlgorithm;
+  /** Identifier of the key that protects the payload */
+  keyId: string;
+  /** Nonce used for the payload cipher */
+  nonce: Buffer;
+  /** Algorithm-specific key material (empty for direct symmetric keys) */
+  encapsulatedKey: Buffer;
+  /** Optional associated data */
+  associatedData?: EnvelopeAssociatedData;
+}
+
+/**
+ * A fully parsed envelope
+ */
+export interface ParsedEnvelope {
+  /** Header fields */
+  header: EnvelopeHeader;
+  /** Raw header bytes (used as additional authenticated data) */
+  headerBytes: Buffer;
+  /** Encrypted payload */
+  ciphertext: Buffer;
+  /** Authentication tag */
+  tag: Buffer;
+}
+
+/**
+ * Check whether a buffer starts with the envelope magic bytes
+ * @param data Buffer to check
+ */
+export function isEnvelope(data: Buffer): boolean {
+  return data.length >= ENVELOPE_MAGIC.length &&
+    data.subarray(0, ENVELOPE_MAGIC.length).equals(ENVELOPE_MAGIC);
+}
+
+/**
+ * Serialize an envelope header
+ * @param header Header fields to serialize
+ * @returns Header bytes, to be used as additional authenticated data
+ */
+export function serializeEnvelopeHeader(header: EnvelopeHeader): Buffer {
+  const keyId = Buffer.from(header.keyId, 'utf-8');
+  const associatedData = header.associatedData ?
+    Buffer.from(JSON.stringify(header.associatedData), 'utf-8') :
+    Buffer.alloc(0);
+  
+  if (keyId.length > 0xff) {
+    throw new EncryptionError('Key id too long for envelope header', 'MALFORMED_ENVELOPE');
+  }
+  if (header.nonce.length > 0xff) {
+    throw new EncryptionError('Nonce too long for envelope header', 'MALFORMED_ENVELOPE');
+  }
+  if (header.encapsulatedKey.length > 0xffff) {
+    throw new EncryptionError('Encapsulated key too long for envelope header', 'MALFORMED_ENVELOPE');
+  }
+  if (associatedData.length > 0xffff) {
+    throw new EncryptionError('Associated data too long for envelope header', 'MALFORMED_ENVELOPE');
+  }
+  
+  const fixed = Buffer.alloc(ENVELOPE_MAGIC.length + 2);
+  ENVELOPE_MAGIC.copy(fixed, 0);
+  fixed.writeUInt8(header.version, ENVELOPE_MAGIC.length);
+  fixed.writeUInt8(header.algorithm, ENVELOPE_MAGIC.length + 1);
+  
+  return Buffer.concat([
+    fixed,
+    lengthPrefix(keyId.length, 1), keyId,
+    lengthPrefix(header.nonce.length, 1), header.nonce,
+    lengthPrefix(header.encapsulatedKey.length, 2), header.encapsulatedKey,
+    lengthPrefix(associatedData.length, 2), associatedData
+  ]);
+}
+
+/**
+ * Assemble a complete envelope from its parts
+ * @param headerBytes Serialized header
+ * @param ciphertext Encrypted payload
+ * @param tag Authentication tag
+ */
+export function assembleEnvelope(headerBytes: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+  return Buffer.concat([headerBytes, ciphertext, tag]);
+}
+
+/**
+ * Parse an envelope
+ * @param data Raw envelope bytes
+ * @returns Parsed envelope
+ * @throws EncryptionError if the envelope is malformed or uses an unsupported version
+ */
+export function parseEnvelope(data: Buffer): ParsedEnvelope {
+  if (!isEnvelope(data)) {
+    throw new EncryptionError('Data is not an envelope (bad magic bytes)', 'MALFORMED_ENVELOPE');
+  }
+  
+  let offset = ENVELOPE_MAGIC.length;
+  
+  const readBytes = (length: number): Buffer => {
+    if (offset + length > data.length) {
+      throw new EncryptionError('Envelope is truncated', 'MALFORMED_ENVELOPE');
+    }
+    const bytes = data.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+  const readUInt8 = (): number => readBytes(1).readUInt8(0);
+  const readUInt16 = (): number => readBytes(2).readUInt16BE(0);
+  
+  const version = readUInt8();
+  if (version !== ENVELOPE_VERSION) {
+    throw new EncryptionError(
+      `Unsupported envelope version: ${version}`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+  
+  const algorithm = readUInt8();
+  if (!Object.values(EnvelopeAlgorithm).includes(algorithm)) {
+    throw new EncryptionError(
+      `Unsupported envelope algorithm: ${algorithm}`,
+      'UNSUPPORTED_ALGORITHM'
+    );
+  }
+  
+  const keyId = readBytes(readUInt8()).toString('utf-8');
+  const nonce = readBytes(readUInt8());
+  const encapsulatedKey = readBytes(readUInt16());
+  const associatedDataBytes = readBytes(readUInt16());
+  
+  let associatedData: EnvelopeAssociatedData | undefined;
+  if (associatedDataBytes.length > 0) {
+    try {
+      associatedData = JSON.parse(associatedDataBytes.toString('utf-8'));
+    } catch (error) {
+      throw new EncryptionError('Envelope associated data is not valid JSON', 'MALFORMED_ENVELOPE');
+    }
+  }
+  
+  const headerBytes = data.subarray(0, offset);
+  
+  if (data.length - offset < ENVELOPE_TAG_LENGTH) {
+    throw new EncryptionError('Envelope is truncated (missing tag)', 'MALFORMED_ENVELOPE');
+  }
+  
+  return {
+    header: {
+      version,
+      algorithm,
+      keyId,
+      nonce,
+      encapsulatedKey,
+      associatedData
+    },
+    headerBytes,
+    ciphertext: data.subarray(offset, data.length - ENVELOPE_TAG_LENGTH),
+    tag: data.subarray(data.length - ENVELOPE_TAG_LENGTH)
+  };
+}
+
+/**
+ * Encrypt a payload with AES-256-GCM into a complete envelope
+ * @param header Header fields (version and nonce are filled in)
+ * @param contentKey 256-bit key for the payload cipher
+ * @param plaintext Data to encrypt
+ * @returns Buffer containing the envelope
+ */
+export function encryptEnvelopePayload(
+  header: Omit<EnvelopeHeader, 'version' | 'nonce'>,
+  contentKey: Buffer,
+  plaintext: Buffer
+): Buffer {
+  // Generate random nonce
+  const nonce = crypto.randomBytes(ENVELOPE_NONCE_LENGTH);
+  
+  // Build the header first, it is authenticated along with the payload
+  const headerBytes = serializeEnvelopeHeader({
+    ...header,
+    version: ENVELOPE_VERSION,
+    nonce
+  });
+  
+  const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, nonce, {
+    authTagLength: ENVELOPE_TAG_LENGTH
+  });
+  cipher.setAAD(headerBytes);
+  
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final()
+  ]);
+  
+  return assembleEnvelope(headerBytes, ciphertext, cipher.getAuthTag());
+}
+
+/**
+ * Decrypt and authenticate the payload of a parsed envelope
+ * @param envelope Parsed envelope
+ * @param contentKey 256-bit key for the payload cipher
+ * @returns Decrypted data
+ * @throws EncryptionError with code TAMPERED if authentication fails
+ */
+export function decryptEnvelopePayload(envelope: ParsedEnvelope, contentKey: Buffer): Buffer {
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', contentKey, envelope.header.nonce, {
+      authTagLength: ENVELOPE_TAG_LENGTH
+    });
+    decipher.setAAD(envelope.headerBytes);
+    decipher.setAuthTag(envelope.tag);
+    
+    return Buffer.concat([
+      decipher.update(envelope.ciphertext),
+      decipher.final()
+    ]);
+  } catch (error) {
+    // GCM only fails in final() when the tag does not match
+    throw new EncryptionError(
+      'Envelope authentication failed: data has been tampered with or truncated',
+      'TAMPERED'
+    );
+  }
+}
+
+/**
+ * Encode a length as a big-endian prefix of the given width
+ */
+function lengthPrefix(length: number, width: 1 | 2): Buffer {
+  const prefix = Buffer.alloc(width);
+  if (width === 1) {
+    prefix.writeUInt8(length, 0);
+  } else {
+    prefix.writeUInt16BE(length, 0);
+  }
+  return prefix;
+}
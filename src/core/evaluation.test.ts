@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { promises as fsPromises } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG } from '../config.js';
+import { LabeledDocument, evaluateDetector, labelSegments, loadCorpus, sweepThresholds } from './evaluation.js';
+import { createPrivacyDetector } from './privacy-detector.js';
+
+const PRIVATE = 'Between us, this is confidential.';
+
+/**
+ * A document whose private spans are the given parts of its text
+ */
+function labeled(id: string, text: string, ...privateParts: string[]): LabeledDocument {
+  return {
+    id,
+    text,
+    privateSpans: privateParts.map(part => ({ start: text.indexOf(part), end: text.indexOf(part) + part.length }))
+  };
+}
+
+/** One true positive, false positive and false negative, three true negatives and a failure */
+const DOCUMENTS = [
+  labeled('found', `${PRIVATE}\n\nThe deploy runs at noon.`, PRIVATE),
+  labeled('false alarm', 'The file is confidential by default.\n\nThe build takes ten minutes.'),
+  labeled('missed', 'The tests passed.\n\nThe release is tomorrow.', 'The release is tomorrow.'),
+  labeled('malformed', '<private>never closed')
+];
+
+describe('evaluation', () => {
+  let tempDir: string;
+  
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+  
+  describe('evaluateDetector', () => {
+    it('counts segment and span decisions against the labels', async () => {
+      const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+      
+      const result = await evaluateDetector(detector, DOCUMENTS);
+      
+      expect(result.documents).toBe(3);
+      expect(result.segments).toEqual({
+        truePositives: 1,
+        falsePositives: 1,
+        falseNegatives: 1,
+        trueNegatives: 3,
+        precision: 0.5,
+        recall: 0.5,
+        f1: 0.5
+      });
+      expect(result.spans).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+      expect(result.failures).toEqual([{ id: 'malformed', error: expect.stringContaining('Unclosed <private>') }]);
+    });
+    
+    it('reports the precision of each rule', async () => {
+      const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+      
+      const { byRule } = await evaluateDetector(detector, DOCUMENTS);
+      
+      expect(byRule['pattern:(private|secret|confidential|personal|sensitive)'])
+        .toEqual({ truePositives: 1, falsePositives: 1, precision: 0.5 });
+      expect(byRule['pattern:(between|just|only)\\s+(us|ourselves|me and you)'])
+        .toEqual({ truePositives: 1, falsePositives: 0, precision: 1 });
+    });
+    
+    it('labels a segment private when at least half of it is in private spans', async () => {
+      const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+      const text = 'The tests passed on every platform.';
+      
+      const half = await evaluateDetector(detector, [labeled('half', text, 'The tests passed on ')]);
+      const less = await evaluateDetector(detector, [labeled('less', text, 'The tests ')]);
+      
+      expect(half.segments.falseNegatives).toBe(1);
+      expect(less.segments.trueNegatives).toBe(1);
+    });
+  });
+  
+  describe('labelSegments', () => {
+    it('turns the analyzed segments into training examples', async () => {
+      const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+      const document = labeled('code', `${PRIVATE}\n\nRun \`npm test\` first.\n\n\`\`\`\nnpm test\n\`\`\``, PRIVATE);
+      
+      const { examples, failures } = await labelSegments(detector, [document, DOCUMENTS[3]]);
+      
+      expect(examples).toEqual([
+        { text: PRIVATE, isPrivate: true },
+        { text: 'Run            first.', isPrivate: false }
+      ]);
+      expect(failures).toEqual([{ id: 'malformed', error: expect.any(String) }]);
+    });
+  });
+  
+  describe('loadCorpus', () => {
+    it('reads labeled documents, one JSON object per line', async () => {
+      const file = path.join(tempDir, 'corpus.jsonl');
+      await fsPromises.writeFile(file, [
+        JSON.stringify({ id: 7, text: 'one two three', privateSpans: [{ start: 8, end: 13 }, { start: 0, end: 3 }] }),
+        '',
+        JSON.stringify({ text: 'public', privateSpans: [] })
+      ].join('\r\n'));
+      
+      expect(await loadCorpus(file)).toEqual([
+        { id: '7', text: 'one two three', privateSpans: [{ start: 0, end: 3 }, { start: 8, end: 13 }] },
+        { id: 'line 3', text: 'public', privateSpans: [] }
+      ]);
+    });
+    
+    it.each([
+      ['invalid JSON', '{"text":'],
+      ['a missing text', '{"privateSpans":[]}'],
+      ['missing private spans', '{"text":"abc"}'],
+      ['an empty span', '{"text":"abc","privateSpans":[{"start":1,"end":1}]}'],
+      ['a span past the end', '{"text":"abc","privateSpans":[{"start":1,"end":4}]}']
+    ])('rejects %s with its line number', async (_, line) => {
+      const file = path.join(tempDir, 'corpus.jsonl');
+      await fsPromises.writeFile(file, `{"text":"fine","privateSpans":[]}\n${line}\n`);
+      
+      await expect(loadCorpus(file)).rejects.toMatchObject({
+        code: 'PRIVACY_INVALID_CORPUS',
+        message: expect.stringContaining(`${file}:2:`)
+      });
+    });
+  });
+  
+  describe('sweepThresholds', () => {
+    it('evaluates each point of the threshold grid', async () => {
+      const result = await sweepThresholds(DEFAULT_CONFIG.privacy, DOCUMENTS.slice(0, 3), 0.5);
+      
+      expect(result.top).toEqual([result.suggested]);
+      expect(result.suggested).toMatchObject({ introspectionThreshold: 0.5, sensitivityThreshold: 0.5 });
+      expect(result.current).toMatchObject({
+        introspectionThreshold: DEFAULT_CONFIG.privacy.introspectionThreshold,
+        sensitivityThreshold: DEFAULT_CONFIG.privacy.sensitivityThreshold,
+        segments: { precision: 0.5, recall: 0.5 }
+      });
+    });
+    
+    it('rejects scores not combined with any, and invalid steps', async () => {
+      const weighted = { ...DEFAULT_CONFIG.privacy, scoring: { ...DEFAULT_CONFIG.privacy.scoring, combine: 'weighted' as const } };
+      
+      await expect(sweepThresholds(weighted, DOCUMENTS, 0.1)).rejects.toMatchObject({ code: 'PRIVACY_INVALID_CONFIG' });
+      await expect(sweepThresholds(DEFAULT_CONFIG.privacy, DOCUMENTS, 1)).rejects.toMatchObject({ code: 'PRIVACY_INVALID_CONFIG' });
+    });
+  });
+});
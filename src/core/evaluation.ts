@@ -0,0 +1,349 @@
+/**
+ * Offline evaluation of the privacy detector for LLM-Secrets MCP server
+ * Runs the detector over a labeled corpus and measures how well its
+ * decisions match the labels, per segment and per private span.
+ */
+
+import { promises as fsPromises } from 'fs';
+import { PrivacyConfig } from '../config.js';
+import { createPrivacyDetector, PrivacyDetector } from './privacy-detector.js';
+import { TrainingExample } from './classifier.js';
+import { maskInlineCode } from './segmenter.js';
+import { TextSpan } from './types.js';
+import { PrivacyError } from '../utils/errors.js';
+
+/**
+ * A labeled document of an evaluation corpus
+ */
+export interface LabeledDocument {
+  /** Identifier of the document (defaults to its line number) */
+  id: string;
+  /** The text, as the LLM would have written it */
+  text: string;
+  /** Spans of the text that are private */
+  privateSpans: TextSpan[];
+}
+
+/**
+ * Counts of a binary classification, with the derived metrics
+ */
+export interface ClassificationMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** Precision (1.0 when nothing was predicted private) */
+  precision: number;
+  /** Recall (1.0 when nothing is labeled private) */
+  recall: number;
+  /** Harmonic mean of precision and recall */
+  f1: number;
+}
+
+/**
+ * Result of evaluating the detector on a corpus
+ */
+export interface EvaluationResult {
+  /** Number of documents evaluated, excluding failed ones */
+  documents: number;
+  /**
+   * Segment-level metrics: a segment is labeled private if at least half
+   * of it lies in labeled private spans, and predicted private if the
+   * detector decided so
+   */
+  segments: ClassificationMetrics & { trueNegatives: number };
+  /**
+   * Span-level metrics: a predicted span is correct if it overlaps a
+   * labeled span, and a labeled span is found if a predicted span overlaps it
+   */
+  spans: ClassificationMetrics;
+  /** For each rule that made segments private, how often it was right */
+  byRule: Record<string, { truePositives: number; falsePositives: number; precision: number }>;
+  /** Documents the detector failed on (e.g. malformed markup) */
+  failures: { id: string; error: string }[];
+}
+
+/**
+ * A point of a threshold sweep
+ */
+export interface SweepPoint {
+  introspectionThreshold: number;
+  sensitivityThreshold: number;
+  segments: ClassificationMetrics;
+  spans: ClassificationMetrics;
+}
+
+/**
+ * Result of sweeping the introspection and sensitivity thresholds
+ */
+export interface SweepResult {
+  /** What the suggestion maximizes */
+  objective: 'segment-f1';
+  /** The configured thresholds */
+  current: SweepPoint;
+  /** The best thresholds found */
+  suggested: SweepPoint;
+  /** The best points, best first */
+  top: SweepPoint[];
+}
+
+/** Number of best sweep points reported */
+const SWEEP_TOP = 10;
+
+/**
+ * Read a labeled corpus: one JSON object per line, with a text and its
+ * private spans, e.g. {"id": "a", "text": "...", "privateSpans": [{"start": 0, "end": 12}]}
+ * @param file Path of the JSONL file
+ * @throws PrivacyError with code PRIVACY_INVALID_CORPUS naming the first invalid line
+ */
+export async function loadCorpus(file: string): Promise<LabeledDocument[]> {
+  const lines = (await fsPromises.readFile(file, 'utf-8')).split(/\r?\n/);
+  const documents: LabeledDocument[] = [];
+  
+  for (const [index, line] of lines.entries()) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    const fail = (message: string): never => {
+      throw new PrivacyError(`${file}:${index + 1}: ${message}`, 'INVALID_CORPUS');
+    };
+    
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      fail(`invalid JSON: ${(error as Error).message}`);
+    }
+    if (!entry || typeof entry.text !== 'string') {
+      fail('expected an object with a "text" string');
+    }
+    if (!Array.isArray(entry.privateSpans)) {
+      fail('expected a "privateSpans" array (empty if nothing is private)');
+    }
+    
+    const spans: TextSpan[] = entry.privateSpans.map((span: any) => ({ start: span?.start, end: span?.end }));
+    for (const { start, end } of spans) {
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > entry.text.length) {
+        fail(`invalid private span ${JSON.stringify({ start, end })}: need 0 <= start < end <= ${entry.text.length}`);
+      }
+    }
+    
+    documents.push({
+      id: entry.id === undefined ? `line ${index + 1}` : String(entry.id),
+      text: entry.text,
+      privateSpans: spans.sort((a, b) => a.start - b.start)
+    });
+  }
+  
+  return documents;
+}
+
+/**
+ * Run the detector over a corpus and compare its decisions with the labels
+ * @param detector An initialized detector
+ * @param documents The labeled documents
+ */
+export async function evaluateDetector(
+  detector: PrivacyDetector,
+  documents: LabeledDocument[]
+): Promise<EvaluationResult> {
+  const segments = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+  const spans = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+  const byRule: Record<string, { truePositives: number; falsePositives: number }> = {};
+  const failures: EvaluationResult['failures'] = [];
+  
+  for (const document of documents) {
+    let result;
+    try {
+      result = await detector.processOutput(document.text);
+    } catch (error) {
+      failures.push({ id: document.id, error: (error as Error).message });
+      continue;
+    }
+    
+    for (const segment of result.segments) {
+      const labeled = isLabeledPrivate(segment, document);
+      const predicted = segment.decision === 'private';
+      if (predicted && labeled) {
+        segments.truePositives++;
+      } else if (predicted) {
+        segments.falsePositives++;
+      } else if (labeled) {
+        segments.falseNegatives++;
+      } else {
+        segments.trueNegatives++;
+      }
+      
+      for (const rule of predicted ? segment.triggeredBy : []) {
+        byRule[rule] ??= { truePositives: 0, falsePositives: 0 };
+        byRule[rule][labeled ? 'truePositives' : 'falsePositives']++;
+      }
+    }
+    
+    for (const span of result.privateSpans) {
+      spans[overlapLength(span, document.privateSpans) > 0 ? 'truePositives' : 'falsePositives']++;
+    }
+    for (const span of document.privateSpans) {
+      if (overlapLength(span, result.privateSpans) === 0) {
+        spans.falseNegatives++;
+      }
+    }
+  }
+  
+  return {
+    documents: documents.length - failures.length,
+    segments: { ...withMetrics(segments), trueNegatives: segments.trueNegatives },
+    spans: withMetrics(spans),
+    byRule: Object.fromEntries(Object.entries(byRule)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([rule, counts]) => [rule, { ...counts, precision: ratio(counts.truePositives, counts.truePositives + counts.falsePositives) }])),
+    failures
+  };
+}
+
+/**
+ * Turn a corpus into classifier training examples: the segments the
+ * detector analyzes, labeled as in evaluateDetector. Markup and skipped code
+ * blocks are left out, as the classifier never scores them.
+ * @param detector An initialized detector, which decides the segmentation
+ * @param documents The labeled documents
+ * @returns The examples, and the documents the detector failed on
+ */
+export async function labelSegments(
+  detector: PrivacyDetector,
+  documents: LabeledDocument[]
+): Promise<{ examples: TrainingExample[]; failures: EvaluationResult['failures'] }> {
+  const examples: TrainingExample[] = [];
+  const failures: EvaluationResult['failures'] = [];
+  
+  for (const document of documents) {
+    let result;
+    try {
+      result = await detector.processOutput(document.text);
+    } catch (error) {
+      failures.push({ id: document.id, error: (error as Error).message });
+      continue;
+    }
+    
+    for (const segment of result.segments) {
+      if (segment.kind === 'markup' || segment.decision === 'skipped') {
+        continue;
+      }
+      // Scorers see prose with its inline code blanked out
+      const text = document.text.slice(segment.start, segment.end);
+      examples.push({
+        text: segment.kind === 'code' ? text : maskInlineCode(text),
+        isPrivate: isLabeledPrivate(segment, document)
+      });
+    }
+  }
+  
+  return { examples, failures };
+}
+
+/**
+ * Evaluate every combination of introspection and sensitivity thresholds
+ * on a grid, with all other settings as configured
+ * @param config Privacy configuration (its scores must be combined with 'any', the only mode using these thresholds)
+ * @param documents The labeled documents
+ * @param step Grid step between 0 and 1
+ */
+export async function sweepThresholds(
+  config: PrivacyConfig,
+  documents: LabeledDocument[],
+  step: number
+): Promise<SweepResult> {
+  if (config.scoring.combine !== 'any') {
+    throw new PrivacyError(
+      `Threshold sweeps need privacy.scoring.combine "any"; "${config.scoring.combine}" does not use the scorer thresholds`,
+      'INVALID_CONFIG'
+    );
+  }
+  if (!(step > 0 && step < 1)) {
+    throw new PrivacyError('Sweep step must be between 0 and 1', 'INVALID_CONFIG');
+  }
+  
+  const evaluatePoint = async (introspectionThreshold: number, sensitivityThreshold: number): Promise<SweepPoint> => {
+    const detector = await createPrivacyDetector({ ...config, introspectionThreshold, sensitivityThreshold });
+    const { segments, spans } = await evaluateDetector(detector, documents);
+    const { trueNegatives, ...segmentMetrics } = segments;
+    return { introspectionThreshold, sensitivityThreshold, segments: segmentMetrics, spans };
+  };
+  
+  // Grid values, rounded so they print as written
+  const values: number[] = [];
+  for (let index = 1; index * step < 1 - 1e-9; index++) {
+    values.push(Math.round(index * step * 1e6) / 1e6);
+  }
+  
+  const points: SweepPoint[] = [];
+  for (const introspection of values) {
+    for (const sensitivity of values) {
+      points.push(await evaluatePoint(introspection, sensitivity));
+    }
+  }
+  // Ties go to the precise side, then to the thresholds closest to the configured ones
+  const distance = (point: SweepPoint) =>
+    Math.abs(point.introspectionThreshold - config.introspectionThreshold) +
+    Math.abs(point.sensitivityThreshold - config.sensitivityThreshold);
+  points.sort((a, b) =>
+    b.segments.f1 - a.segments.f1 ||
+    b.segments.precision - a.segments.precision ||
+    b.spans.f1 - a.spans.f1 ||
+    distance(a) - distance(b)
+  );
+  
+  return {
+    objective: 'segment-f1',
+    current: await evaluatePoint(config.introspectionThreshold, config.sensitivityThreshold),
+    suggested: points[0],
+    top: points.slice(0, SWEEP_TOP)
+  };
+}
+
+/**
+ * Whether a segment is labeled private: at least half of it lies in the
+ * document's labeled private spans
+ */
+function isLabeledPrivate(segment: TextSpan, document: LabeledDocument): boolean {
+  return overlapLength(segment, document.privateSpans) * 2 >= segment.end - segment.start;
+}
+
+/**
+ * Total length of the overlap between a span and a list of spans
+ */
+function overlapLength(span: TextSpan, others: TextSpan[]): number {
+  return others.reduce(
+    (total, other) => total + Math.max(0, Math.min(span.end, other.end) - Math.max(span.start, other.start)),
+    0
+  );
+}
+
+/**
+ * Add precision, recall and F1 to classification counts
+ */
+function withMetrics(counts: { truePositives: number; falsePositives: number; falseNegatives: number }): ClassificationMetrics {
+  const precision = ratio(counts.truePositives, counts.truePositives + counts.falsePositives);
+  const recall = ratio(counts.truePositives, counts.truePositives + counts.falseNegatives);
+  return {
+    truePositives: counts.truePositives,
+    falsePositives: counts.falsePositives,
+    falseNegatives: counts.falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? round(2 * precision * recall / (precision + recall)) : 0
+  };
+}
+
+/**
+ * Ratio rounded for reports; 1.0 when there is nothing to count
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1.0 : round(numerator / denominator);
+}
+
+/**
+ * Round a metric to 4 decimals, so reports compare cleanly
+ */
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
@@ -6,6 +6,9 @@ import { ServerConfig } from '../config.js';
 import { createPrivacyDetector, PrivacyDetector } from './privacy-detector.js';
 import { createEncryptionManager, EncryptionManager } from './encryption.js';
 import { createStorageManager, StorageManager } from './storage.js';
+import { createKeyRotationManager, KeyRotationManager } from './key-rotation.js';
+import { createOperatorAuthorizer, OperatorAuthorizer } from './operator-auth.js';
+import { createAuditLog, AuditLog } from './audit-log.js';
 
 /**
  * Interface for all core components of the system
@@ -17,6 +20,12 @@ export interface CoreComponents {
   encryptionManager: EncryptionManager;
   /** Storage component */
   storageManager: StorageManager;
+  /** Key rotation component */
+  keyRotationManager: KeyRotationManager;
+  /** Operator authorization component */
+  operatorAuthorizer: OperatorAuthorizer;
+  /** Audit log component */
+  auditLog: AuditLog;
 }
 
 /**
@@ -31,18 +40,33 @@ export async function createCoreComponents(config: ServerConfig): Promise<CoreCo
   // Initialize encryption manager
   const encryptionManager = await createEncryptionManager(config.encryption);
   
-  // Initialize storage manager
-  const storageManager = await createStorageManager(config.storage);
+  // Initialize audit log (records thoughts expired by the retention policy)
+  const auditLog = await createAuditLog(config.audit);
+  
+  // Initialize storage manager (enforces the retention policy)
+  const storageManager = await createStorageManager(config.storage, auditLog);
+  
+  // Initialize key rotation manager (resumes any interrupted rotation)
+  const keyRotationManager = await createKeyRotationManager(encryptionManager, storageManager);
+  
+  // Initialize operator authorization
+  const operatorAuthorizer = await createOperatorAuthorizer(config.access);
   
   return {
     privacyDetector,
     encryptionManager,
-    storageManager
+    storageManager,
+    keyRotationManager,
+    operatorAuthorizer,
+    auditLog
   };
 }
 
 // Re-export all component types
 export * from './types.js';
-export { PrivacyDetector } from './privacy-detector.js';
+export { PrivacyDetector, withoutContributions } from './privacy-detector.js';
 export { EncryptionManager } from './encryption.js';
 export { StorageManager } from './storage.js';
+export { KeyRotationManager } from './key-rotation.js';
+export { OperatorAuthorizer } from './operator-auth.js';
+export { AuditLog } from './audit-log.js';
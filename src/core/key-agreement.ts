@@ -0,0 +1,135 @@
+/**
+ * Key agreement helpers for LLM-Secrets MCP server
+ * Implements X25519 ECDH-ES key encapsulation, so thoughts can be encrypted
+ * with only a public key while the matching private key stays locked away
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+
+/** DER prefix of a PKCS#8 X25519 private key (followed by the 32-byte key) */
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/** DER prefix of an SPKI X25519 public key (followed by the 32-byte key) */
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+/** HKDF info used to derive the X25519 private key from a data key */
+const PRIVATE_KEY_INFO = 'llm-secrets/x25519-private-key';
+
+/** HKDF info used to derive content keys from a shared secret */
+const CONTENT_KEY_INFO = 'llm-secrets/x25519-aes-256-gcm';
+
+/**
+ * Result of encapsulating a fresh content key to a recipient
+ */
+export interface EncapsulatedKey {
+  /** Raw ephemeral public key, to be stored with the ciphertext */
+  ephemeralPublicKey: Buffer;
+  /** Content key to encrypt the payload with (zero it after use) */
+  contentKey: Buffer;
+}
+
+/**
+ * Derive the X25519 private key belonging to a data key.
+ * Deriving (rather than using the data key directly) keeps the X25519 and
+ * AES uses of the same key material separate.
+ * @param dataKey Symmetric data key from the keyring
+ */
+export function deriveX25519PrivateKey(dataKey: Buffer): crypto.KeyObject {
+  const raw = Buffer.from(crypto.hkdfSync('sha256', dataKey, Buffer.alloc(0), PRIVATE_KEY_INFO, 32));
+  try {
+    return x25519PrivateKeyFromRaw(raw);
+  } finally {
+    raw.fill(0);
+  }
+}
+
+/**
+ * Get the raw 32-byte public key matching an X25519 private key
+ * @param privateKey X25519 private key
+ */
+export function x25519RawPublicKey(privateKey: crypto.KeyObject): Buffer {
+  const spki = crypto.createPublicKey(privateKey).export({ format: 'der', type: 'spki' });
+  return Buffer.from(spki.subarray(X25519_SPKI_PREFIX.length));
+}
+
+/**
+ * Build an X25519 private key object from its raw 32 bytes
+ * @param raw Raw private key
+ */
+export function x25519PrivateKeyFromRaw(raw: Buffer): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, raw]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+}
+
+/**
+ * Build an X25519 public key object from its raw 32 bytes
+ * @param raw Raw public key
+ */
+export function x25519PublicKeyFromRaw(raw: Buffer): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: Buffer.concat([X25519_SPKI_PREFIX, raw]),
+    format: 'der',
+    type: 'spki'
+  });
+}
+
+/**
+ * Generate a fresh content key and encapsulate it to a recipient public key
+ * @param recipientPublicKey Raw X25519 public key of the recipient
+ */
+export function encapsulateX25519(recipientPublicKey: Buffer): EncapsulatedKey {
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const ephemeralPublicKey = x25519RawPublicKey(ephemeral.privateKey);
+  const sharedSecret = crypto.diffieHellman({
+    privateKey: ephemeral.privateKey,
+    publicKey: x25519PublicKeyFromRaw(recipientPublicKey)
+  });
+  
+  try {
+    return {
+      ephemeralPublicKey,
+      contentKey: deriveContentKey(sharedSecret, ephemeralPublicKey, recipientPublicKey)
+    };
+  } finally {
+    sharedSecret.fill(0);
+  }
+}
+
+/**
+ * Recover a content key encapsulated with encapsulateX25519
+ * @param privateKey X25519 private key of the recipient
+ * @param ephemeralPublicKey Raw ephemeral public key stored with the ciphertext
+ * @returns The content key (zero it after use)
+ */
+export function decapsulateX25519(
+  privateKey: crypto.KeyObject,
+  ephemeralPublicKey: Buffer
+): Buffer {
+  const recipientPublicKey = x25519RawPublicKey(privateKey);
+  const sharedSecret = crypto.diffieHellman({
+    privateKey,
+    publicKey: x25519PublicKeyFromRaw(ephemeralPublicKey)
+  });
+  
+  try {
+    return deriveContentKey(sharedSecret, ephemeralPublicKey, recipientPublicKey);
+  } finally {
+    sharedSecret.fill(0);
+  }
+}
+
+/**
+ * Derive a content key from an ECDH shared secret, bound to both public keys
+ */
+function deriveContentKey(
+  sharedSecret: Buffer,
+  ephemeralPublicKey: Buffer,
+  recipientPublicKey: Buffer
+): Buffer {
+  const salt = Buffer.concat([ephemeralPublicKey, recipientPublicKey]);
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, salt, CONTENT_KEY_INFO, 32));
+}
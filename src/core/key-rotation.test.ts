@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG } from '../config.js';
+import { EncryptionManager, createEncryptionManager } from './encryption.js';
+import { StorageManager, createStorageManager } from './storage.js';
+import { createKeyRotationManager } from './key-rotation.js';
+
+describe('KeyRotationManager', () => {
+  let dir: string;
+  let encryptionManager: EncryptionManager;
+  let storageManager: StorageManager;
+  let ids: string[];
+  
+  /**
+   * Key ids of the stored thoughts, read from their headers
+   */
+  async function keyIdsOfThoughts(): Promise<(string | null)[]> {
+    return Promise.all(ids.map(async id =>
+      encryptionManager.getKeyIdOf(await storageManager.readEncryptedThoughtById(id))
+    ));
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    encryptionManager = await createEncryptionManager({
+      ...DEFAULT_CONFIG.encryption,
+      keyFile: path.join(dir, 'key.json')
+    });
+    storageManager = await createStorageManager({ ...DEFAULT_CONFIG.storage, backend: 'memory' });
+    
+    ids = [];
+    for (const content of ['first', 'second', 'third']) {
+      const thought = await storageManager.saveEncryptedThought(await encryptionManager.encrypt(content));
+      ids.push(thought.id);
+    }
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('re-encrypts every thought and retires the old key', async () => {
+    const oldKeyId = encryptionManager.getKeyInfo().keyId;
+    const manager = await createKeyRotationManager(encryptionManager, storageManager);
+    
+    await manager.rotate();
+    const status = await manager.waitForCompletion();
+    const newKeyId = encryptionManager.getKeyInfo().keyId;
+    
+    expect(status).toMatchObject({ state: 'completed', processed: 3, reencrypted: 3, failures: [] });
+    expect(await keyIdsOfThoughts()).toEqual([newKeyId, newKeyId, newKeyId]);
+    expect(encryptionManager.getKeyInfo().keys.find(key => key.id === oldKeyId)?.status).toBe('retired');
+    await expect(fsPromises.access(path.join(dir, 'key.json.rotation.json'))).rejects.toThrow();
+  });
+  
+  it('resumes an interrupted rotation from the journal', async () => {
+    // A rotation that stopped after re-encrypting the first thought
+    const oldKeyId = encryptionManager.getKeyInfo().keyId;
+    const newKey = await encryptionManager.rotateKey();
+    await fsPromises.writeFile(path.join(dir, 'key.json.rotation.json'), JSON.stringify({
+      targetKeyId: newKey.id,
+      retiringKeyIds: [oldKeyId],
+      startedAt: Date.now()
+    }));
+    const first = await storageManager.readEncryptedThoughtById(ids[0]);
+    await storageManager.replaceEncryptedThoughtById(ids[0], await encryptionManager.reencrypt(first));
+    expect(await keyIdsOfThoughts()).toEqual([newKey.id, oldKeyId, oldKeyId]);
+    
+    const manager = await createKeyRotationManager(encryptionManager, storageManager);
+    const status = await manager.waitForCompletion();
+    
+    expect(status).toMatchObject({ state: 'completed', targetKeyId: newKey.id, processed: 3, reencrypted: 2 });
+    expect(await keyIdsOfThoughts()).toEqual([newKey.id, newKey.id, newKey.id]);
+    expect(encryptionManager.getKeyInfo().keys.find(key => key.id === oldKeyId)?.status).toBe('retired');
+    await expect(fsPromises.access(path.join(dir, 'key.json.rotation.json'))).rejects.toThrow();
+  });
+  
+  it('counts thoughts per key from the thought index', async () => {
+    const oldKeyId = encryptionManager.getKeyInfo().keyId;
+    const manager = await createKeyRotationManager(encryptionManager, storageManager);
+    expect(await manager.countThoughtsByKey()).toEqual({ byKeyId: { [oldKeyId]: 3 }, legacy: 0 });
+    
+    await manager.rotate();
+    await manager.waitForCompletion();
+    await storageManager.saveEncryptedThought(await encryptionManager.encrypt('fourth'));
+    const readSpy = jest.spyOn(storageManager, 'readEncryptedThoughtById');
+    
+    expect(await manager.countThoughtsByKey()).toEqual({
+      byKeyId: { [encryptionManager.getKeyInfo().keyId]: 4 },
+      legacy: 0
+    });
+    expect(readSpy).not.toHaveBeenCalled();
+  });
+});
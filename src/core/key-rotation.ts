@@ -0,0 +1,284 @@
+/**
+ * Key rotation module for LLM-Secrets MCP server
+ * Creates a new active key and re-encrypts stored thoughts in the background
+ */
+/// <reference types="node" />
+
+import { promises as fsPromises } from 'fs';
+import { EncryptionManager } from './encryption.js';
+import { StorageManager } from './storage.js';
+import { KeyRotationStatus, ThoughtKeyUsage } from './types.js';
+import { EncryptionError, StorageError } from '../utils/errors.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+/**
+ * Persistent record of an unfinished rotation, used to resume after a crash
+ */
+interface RotationJournal {
+  /** Key that thoughts are being re-encrypted to */
+  targetKeyId: string;
+  /** Keys to retire once every thought uses the target key */
+  retiringKeyIds: string[];
+  /** Time the rotation started (Unix timestamp in ms) */
+  startedAt: number;
+}
+
+/**
+ * Rotates encryption keys and re-encrypts stored thoughts.
+ *
+ * Re-encryption is idempotent: each file is replaced atomically and files
+ * already protected by the target key are skipped, so an interrupted
+ * rotation simply resumes from the journal on the next start. Old keys stay
+ * decrypt-only until every file has been re-encrypted, so no thought becomes
+ * unreadable if the process dies partway.
+ */
+export class KeyRotationManager {
+  private readonly encryptionManager: EncryptionManager;
+  private readonly storageManager: StorageManager;
+  private readonly journalPath: string;
+  private status: KeyRotationStatus = KeyRotationManager.idleStatus();
+  private job: Promise<void> | null = null;
+  
+  /**
+   * Create a new KeyRotationManager
+   * @param encryptionManager Encryption manager holding the keyring
+   * @param storageManager Storage manager holding the encrypted thoughts
+   */
+  constructor(encryptionManager: EncryptionManager, storageManager: StorageManager) {
+    this.encryptionManager = encryptionManager;
+    this.storageManager = storageManager;
+    this.journalPath = `${encryptionManager.getKeyFilePath()}.rotation.json`;
+  }
+  
+  /**
+   * Initialize the rotation manager, resuming any interrupted rotation
+   */
+  public async initialize(): Promise<void> {
+    // Re-encryption needs to decrypt, so a locked key file defers it until unlocked
+    this.encryptionManager.onUnlock(() => {
+      this.resume().catch(error => {
+        console.error(`Failed to resume key rotation: ${(error as Error).message}`);
+      });
+    });
+    await this.resume();
+  }
+  
+  /**
+   * Resume an interrupted rotation recorded in the journal, if any
+   */
+  private async resume(): Promise<void> {
+    if (this.job) {
+      return;
+    }
+    
+    const journal = await this.readJournal();
+    if (!journal) {
+      return;
+    }
+    
+    if (this.encryptionManager.isLocked()) {
+      console.error(`Key rotation to key ${journal.targetKeyId} will resume once the key file is unlocked`);
+      this.status = {
+        ...KeyRotationManager.idleStatus(),
+        state: 'pending',
+        targetKeyId: journal.targetKeyId,
+        retiringKeyIds: journal.retiringKeyIds,
+        startedAt: journal.startedAt
+      };
+      return;
+    }
+    
+    console.error(`Resuming key rotation to key ${journal.targetKeyId}`);
+    this.startJob(journal);
+  }
+  
+  /**
+   * Create a new active key and start re-encrypting stored thoughts
+   * @returns Status of the newly started rotation
+   */
+  public async rotate(): Promise<KeyRotationStatus> {
+    if (this.job) {
+      throw new EncryptionError(
+        `Key rotation to ${this.status.targetKeyId} is still in progress`,
+        'ROTATION_IN_PROGRESS'
+      );
+    }
+    
+    // Every key that can still decrypt will be retired once re-encryption completes
+    const retiringKeyIds = this.encryptionManager.getKeyInfo().keys
+      .filter(key => key.status !== 'retired')
+      .map(key => key.id);
+    
+    const newKey = await this.encryptionManager.rotateKey();
+    const journal: RotationJournal = {
+      targetKeyId: newKey.id,
+      retiringKeyIds,
+      startedAt: Date.now()
+    };
+    await writeFileAtomic(this.journalPath, JSON.stringify(journal, null, 2), 0o600);
+    
+    this.startJob(journal);
+    return this.getStatus();
+  }
+  
+  /**
+   * Get the progress of the current or most recent rotation
+   */
+  public getStatus(): KeyRotationStatus {
+    return {
+      ...this.status,
+      failures: this.status.failures.slice()
+    };
+  }
+  
+  /**
+   * Wait for the current rotation, if any, to finish
+   */
+  public async waitForCompletion(): Promise<KeyRotationStatus> {
+    if (this.job) {
+      await this.job;
+    }
+    return this.getStatus();
+  }
+  
+  /**
+   * Count stored thoughts per key, from the thought index when it is enabled
+   */
+  public async countThoughtsByKey(): Promise<ThoughtKeyUsage> {
+    return this.storageManager.getKeyUsage() ?? this.readThoughtKeyIds();
+  }
+  
+  /**
+   * Count stored thoughts per key by reading each envelope header
+   */
+  private async readThoughtKeyIds(): Promise<ThoughtKeyUsage> {
+    const usage: ThoughtKeyUsage = { byKeyId: {}, legacy: 0 };
+    
+    for (const id of await this.storageManager.listThoughtIds()) {
+      try {
+        const data = await this.storageManager.readEncryptedThoughtById(id);
+        const keyId = this.encryptionManager.getKeyIdOf(data);
+        if (keyId === null) {
+          usage.legacy++;
+        } else {
+          usage.byKeyId[keyId] = (usage.byKeyId[keyId] ?? 0) + 1;
+        }
+      } catch (error) {
+        console.error(`Error reading key id of ${id}: ${(error as Error).message}`);
+        // Continue with other files
+      }
+    }
+    
+    return usage;
+  }
+  
+  /**
+   * Run a rotation in the background
+   */
+  private startJob(journal: RotationJournal): void {
+    this.status = {
+      ...KeyRotationManager.idleStatus(),
+      state: 'running',
+      targetKeyId: journal.targetKeyId,
+      retiringKeyIds: journal.retiringKeyIds,
+      startedAt: journal.startedAt
+    };
+    
+    this.job = this.run(journal)
+      .catch(error => {
+        console.error(`Key rotation failed: ${(error as Error).message}`);
+        this.status.state = 'failed';
+        this.status.completedAt = Date.now();
+      })
+      .finally(() => {
+        this.job = null;
+      });
+  }
+  
+  /**
+   * Re-encrypt every stored thought to the target key, then retire old keys
+   */
+  private async run(journal: RotationJournal): Promise<void> {
+    const ids = await this.storageManager.listThoughtIds();
+    
+    for (const id of ids) {
+      try {
+        const data = await this.storageManager.readEncryptedThoughtById(id);
+        if (this.encryptionManager.getKeyIdOf(data) !== journal.targetKeyId) {
+          const reencrypted = await this.encryptionManager.reencrypt(data);
+          await this.storageManager.replaceEncryptedThoughtById(id, reencrypted);
+          this.status.reencrypted++;
+        }
+      } catch (error) {
+        // Thoughts purged during the rotation need no re-encryption
+        if (error instanceof StorageError && error.code === 'STORAGE_NOT_FOUND') {
+          this.status.processed++;
+          continue;
+        }
+        const filepath = this.storageManager.getThoughtLocation(id);
+        this.status.failures.push({ filepath, error: (error as Error).message });
+        console.error(`Failed to re-encrypt ${filepath}: ${(error as Error).message}`);
+      }
+      this.status.processed++;
+    }
+    
+    if (this.status.failures.length > 0) {
+      // Keep the old keys and the journal so the rotation is retried on next start
+      this.status.state = 'failed';
+      this.status.completedAt = Date.now();
+      return;
+    }
+    
+    await this.encryptionManager.retireKeys(journal.retiringKeyIds);
+    await fsPromises.unlink(this.journalPath).catch(error => {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    });
+    
+    this.status.state = 'completed';
+    this.status.completedAt = Date.now();
+  }
+  
+  /**
+   * Read the rotation journal, if one exists
+   */
+  private async readJournal(): Promise<RotationJournal | null> {
+    try {
+      const data = await fsPromises.readFile(this.journalPath, 'utf-8');
+      return JSON.parse(data) as RotationJournal;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new EncryptionError(
+        `Failed to read key rotation journal: ${(error as Error).message}`,
+        'ROTATION_JOURNAL_INVALID'
+      );
+    }
+  }
+  
+  /**
+   * Status of a rotation manager that has not rotated anything yet
+   */
+  private static idleStatus(): KeyRotationStatus {
+    return {
+      state: 'idle',
+      processed: 0,
+      reencrypted: 0,
+      failures: []
+    };
+  }
+}
+
+/**
+ * Factory function to create and initialize a KeyRotationManager
+ */
+export async function createKeyRotationManager(
+  encryptionManager: EncryptionManager,
+  storageManager: StorageManager
+): Promise<KeyRotationManager> {
+  const manager = new KeyRotationManager(encryptionManager, storageManager);
+  await manager.initialize();
+  return manager;
+}
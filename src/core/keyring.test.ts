@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG } from '../config.js';
+import { Keyring } from './keyring.js';
+import { encodeEscrowShare, parseEscrowShare } from './shamir.js';
+
+describe('Keyring passphrase protection', () => {
+  const kdf = { cost: 1024, blockSize: 8, parallelization: 1 };
+  let dir: string;
+  let keyFile: string;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    keyFile = path.join(dir, 'key.json');
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('zeroes the key material on lock', async () => {
+    const keyring = new Keyring(keyFile, DEFAULT_CONFIG.encryption.keySize, kdf);
+    await keyring.load({ requireProtection: true, passphrase: 'correct horse battery staple' });
+    await keyring.unlock('correct horse battery staple');
+    const key = keyring.getActiveKey().key;
+    expect(key.some(byte => byte !== 0)).toBe(true);
+    
+    keyring.lock();
+    
+    expect(keyring.isLocked()).toBe(true);
+    expect(key.every(byte => byte === 0)).toBe(true);
+    expect(keyring.getActiveKey().key).toHaveLength(0);
+    expect(keyring.getActiveKey().publicKey).toHaveLength(32);
+  });
+  
+  it('requires a passphrase to protect an unprotected key file', async () => {
+    const keyring = new Keyring(keyFile, DEFAULT_CONFIG.encryption.keySize, kdf);
+    
+    await expect(keyring.load({ requireProtection: true })).rejects.toMatchObject({ code: 'ENCRYPTION_PASSPHRASE_REQUIRED' });
+  });
+});
+
+describe('Keyring key escrow', () => {
+  let dir: string;
+  let keyFile: string;
+  
+  /**
+   * Load the key file into a new keyring
+   */
+  async function loadKeyring(): Promise<Keyring> {
+    const keyring = new Keyring(keyFile, DEFAULT_CONFIG.encryption.keySize, DEFAULT_CONFIG.encryption.kdf);
+    await keyring.load({ requireProtection: false });
+    return keyring;
+  }
+  
+  /**
+   * Put the key file under escrow
+   * @returns The shares and the key that was escrowed
+   */
+  async function escrow(threshold: number, shareCount: number): Promise<{ shares: string[]; key: Buffer }> {
+    const keyring = await loadKeyring();
+    const key = Buffer.from(keyring.getActiveKey().key);
+    const shares = keyring.splitIntoEscrow(threshold, shareCount);
+    await keyring.save();
+    return { shares, key };
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    keyFile = path.join(dir, 'key.json');
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('loads an escrowed key file locked and unlocks it with threshold shares', async () => {
+    const { shares, key } = await escrow(2, 3);
+    
+    const keyring = await loadKeyring();
+    expect(keyring.isLocked()).toBe(true);
+    expect(keyring.getEscrowParameters()?.threshold).toBe(2);
+    
+    keyring.unlockWithShares([parseEscrowShare(shares[2]), parseEscrowShare(shares[0])]);
+    expect(keyring.isLocked()).toBe(false);
+    expect(keyring.getActiveKey().key).toEqual(key);
+  });
+  
+  it('requires threshold shares', async () => {
+    const { shares } = await escrow(3, 5);
+    const keyring = await loadKeyring();
+    
+    expect(() => keyring.unlockWithShares(shares.slice(0, 2).map(parseEscrowShare)))
+      .toThrow('Key escrow requires 3 shares, got 2');
+    expect(keyring.isLocked()).toBe(true);
+  });
+  
+  it('rejects a modified share', async () => {
+    const { shares } = await escrow(2, 3);
+    const keyring = await loadKeyring();
+    const share = parseEscrowShare(shares[1]);
+    share.value[0] ^= 0x01;
+    
+    expect(() => keyring.verifyEscrowShare(share)).toThrow('Share does not belong to the current key escrow split');
+    expect(() => keyring.unlockWithShares([parseEscrowShare(shares[0]), share])).toThrow();
+    expect(keyring.isLocked()).toBe(true);
+  });
+  
+  it('rejects shares of a replaced split', async () => {
+    const { shares: oldShares } = await escrow(2, 3);
+    const keyring = await loadKeyring();
+    keyring.unlockWithShares(oldShares.slice(0, 2).map(parseEscrowShare));
+    keyring.splitIntoEscrow(2, 3);
+    await keyring.save();
+    
+    const reloaded = await loadKeyring();
+    expect(() => reloaded.unlockWithShares(oldShares.slice(0, 2).map(parseEscrowShare)))
+      .toThrow('Share does not belong to the current key escrow split');
+  });
+  
+  it('rejects a share relabeled with another index', async () => {
+    const { shares } = await escrow(2, 3);
+    const keyring = await loadKeyring();
+    const share = parseEscrowShare(shares[0]);
+    const relabeled = parseEscrowShare(encodeEscrowShare({ ...share, index: 3 }));
+    
+    expect(() => keyring.verifyEscrowShare(relabeled)).toThrow('Share does not belong to the current key escrow split');
+  });
+});
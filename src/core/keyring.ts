@@ -0,0 +1,728 @@
+/**
+ * Keyring module for LLM-Secrets MCP server
+ * Stores multiple encryption keys, each with an id, creation date and status,
+ * optionally wrapped with a key derived from a passphrase or with a key that
+ * is split among escrow share holders
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { ScryptConfig } from '../config.js';
+import { KeyStatus, KeyringKeyInfo } from './types.js';
+import { deriveX25519PrivateKey, x25519RawPublicKey } from './key-agreement.js';
+import {
+  EscrowShare,
+  combineShares,
+  computeShareFingerprint,
+  encodeEscrowShare,
+  splitSecret
+} from './shamir.js';
+import { EncryptionError } from '../utils/errors.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+/**
+ * A data key wrapped with the passphrase-derived or escrowed key (AES-256-GCM)
+ */
+interface WrappedKey {
+  nonce: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+/**
+ * Parameters of the key derivation function protecting the keyring
+ */
+interface KdfParameters extends ScryptConfig {
+  /** Random salt */
+  salt: Buffer;
+}
+
+/**
+ * Parameters of the M-of-N key escrow protecting the keyring.
+ * Only share fingerprints are stored, never the shares themselves.
+ */
+export interface EscrowParameters {
+  /** Identifier of the split */
+  setId: string;
+  /** Number of shares needed to unlock (M) */
+  threshold: number;
+  /** Index and fingerprint of every share handed out (N in total) */
+  shares: { index: number; fingerprint: string }[];
+}
+
+/**
+ * A key held in the keyring
+ */
+export interface KeyringEntry {
+  /** Key identifier (fingerprint of the key material) */
+  id: string;
+  /** Creation time (Unix timestamp in ms) */
+  createdAt: number;
+  /** Current status of the key */
+  status: KeyStatus;
+  /** Key material (empty while locked or once the key is retired) */
+  key: Buffer;
+  /** Raw X25519 public key derived from the key material */
+  publicKey: Buffer;
+  /** Wrapped key material (protected keyrings only) */
+  wrappedKey?: WrappedKey;
+}
+
+/**
+ * Serialized keyring file format
+ */
+interface KeyringFile {
+  version: 1;
+  kdf?: {
+    algorithm: 'scrypt';
+    salt: string;
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+  };
+  escrow?: {
+    algorithm: 'shamir-gf256';
+    setId: string;
+    threshold: number;
+    shares: { index: number; fingerprint: string }[];
+  };
+  legacyKeyId?: string;
+  keys: {
+    id: string;
+    createdAt: string;
+    status: KeyStatus;
+    publicKey?: string;
+    key?: string;
+    wrappedKey?: { nonce: string; ciphertext: string; tag: string };
+  }[];
+}
+
+/**
+ * Options for loading a keyring
+ */
+export interface KeyringLoadOptions {
+  /** Refuse to run with a keyring that is not passphrase-protected */
+  requireProtection: boolean;
+  /** Passphrase used to protect a keyring that is not protected yet */
+  passphrase?: string;
+}
+
+/**
+ * Holds the set of keys used to encrypt and decrypt thoughts.
+ * Exactly one key is active at a time; older keys stay decrypt-only until
+ * every thought has been re-encrypted, after which they are retired.
+ *
+ * A protected keyring stores its keys wrapped with a key derived from a
+ * passphrase, or with a random key split into escrow shares. It loads
+ * locked: only the public keys are available until unlock() (or
+ * unlockWithShares()) is called, and lock() zeroes all key material again.
+ */
+export class Keyring {
+  private readonly filePath: string;
+  private readonly keySize: number;
+  private readonly kdfConfig: ScryptConfig;
+  private entries: KeyringEntry[] = [];
+  private kdf: KdfParameters | null = null;
+  private escrow: EscrowParameters | null = null;
+  /** Id of the key converted from a legacy key file, the only key of legacy AES-256-CBC files */
+  private legacyKeyId: string | null = null;
+  private wrappingKey: Buffer | null = null;
+  
+  /**
+   * Create a new Keyring
+   * @param filePath Path to the keyring file
+   * @param keySize Size of each key in bytes
+   * @param kdfConfig scrypt parameters used when protecting the keyring
+   */
+  constructor(filePath: string, keySize: number, kdfConfig: ScryptConfig) {
+    this.filePath = filePath;
+    this.keySize = keySize;
+    this.kdfConfig = kdfConfig;
+  }
+  
+  /**
+   * Derive a short, non-secret identifier for a key
+   * @param key The key material
+   * @returns Hex fingerprint of the key
+   */
+  public static computeKeyId(key: Buffer): string {
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  }
+  
+  /**
+   * Load the keyring from disk, creating it if it doesn't exist.
+   * A legacy key file holding a single base64 key is converted in place.
+   * @param options Protection requirements
+   */
+  public async load(options: KeyringLoadOptions): Promise<void> {
+    let contents: string | null = null;
+    try {
+      contents = (await fsPromises.readFile(this.filePath, 'utf-8')).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    let dirty = false;
+    if (contents === null) {
+      // No keyring yet: start with a single active key
+      this.entries = [];
+      this.createKey();
+      dirty = true;
+    } else if (contents.startsWith('{')) {
+      this.parseKeyringFile(contents);
+    } else {
+      // Legacy key file: a single base64 key
+      const key = this.validateKey(Buffer.from(contents, 'base64'));
+      const stats = await fsPromises.stat(this.filePath);
+      this.entries = [this.buildEntry(key, Math.floor(stats.mtimeMs), 'active')];
+      this.legacyKeyId = this.entries[0].id;
+      dirty = true;
+      console.log(`Converting legacy key file to keyring: ${this.filePath}`);
+    }
+    
+    if (this.entries.filter(entry => entry.status === 'active').length !== 1) {
+      throw new EncryptionError(
+        'Keyring must contain exactly one active key',
+        'INVALID_KEYRING'
+      );
+    }
+    
+    if (options.requireProtection && !this.isProtected()) {
+      if (!options.passphrase) {
+        throw new EncryptionError(
+          'Key file is not passphrase-protected; set KEY_PASSPHRASE to protect it',
+          'PASSPHRASE_REQUIRED'
+        );
+      }
+      await this.protect(options.passphrase);
+      dirty = true;
+      console.log(`Protected key file with passphrase: ${this.filePath}`);
+    }
+    
+    if (dirty) {
+      await this.save();
+    }
+    
+    // A protected keyring always starts locked
+    this.lock();
+  }
+  
+  /**
+   * Write the keyring to disk atomically
+   */
+  public async save(): Promise<void> {
+    const kdf = this.kdf;
+    const escrow = this.escrow;
+    const wrapped = this.isProtected();
+    const file: KeyringFile = {
+      version: 1,
+      ...(kdf ? {
+        kdf: {
+          algorithm: 'scrypt',
+          salt: kdf.salt.toString('base64'),
+          cost: kdf.cost,
+          blockSize: kdf.blockSize,
+          parallelization: kdf.parallelization
+        }
+      } : {}),
+      ...(escrow ? {
+        escrow: {
+          algorithm: 'shamir-gf256',
+          setId: escrow.setId,
+          threshold: escrow.threshold,
+          shares: escrow.shares
+        }
+      } : {}),
+      ...(this.legacyKeyId ? { legacyKeyId: this.legacyKeyId } : {}),
+      keys: this.entries.map(entry => {
+        const stored: KeyringFile['keys'][number] = {
+          id: entry.id,
+          createdAt: new Date(entry.createdAt).toISOString(),
+          status: entry.status
+        };
+        if (entry.status !== 'retired') {
+          stored.publicKey = entry.publicKey.toString('base64');
+          if (wrapped && entry.wrappedKey) {
+            stored.wrappedKey = {
+              nonce: entry.wrappedKey.nonce.toString('base64'),
+              ciphertext: entry.wrappedKey.ciphertext.toString('base64'),
+              tag: entry.wrappedKey.tag.toString('base64')
+            };
+          } else if (!wrapped) {
+            stored.key = entry.key.toString('base64');
+          }
+        }
+        return stored;
+      })
+    };
+    await writeFileAtomic(this.filePath, JSON.stringify(file, null, 2), 0o600);
+  }
+  
+  /**
+   * Whether the keyring is wrapped with a passphrase or escrowed key
+   */
+  public isProtected(): boolean {
+    return this.kdf !== null || this.escrow !== null;
+  }
+  
+  /**
+   * Whether key material is currently unavailable
+   */
+  public isLocked(): boolean {
+    return this.isProtected() && this.wrappingKey === null;
+  }
+  
+  /**
+   * Get the scrypt parameters protecting the keyring, if any
+   */
+  public getKdfParameters(): ScryptConfig | null {
+    if (!this.kdf) {
+      return null;
+    }
+    const { cost, blockSize, parallelization } = this.kdf;
+    return { cost, blockSize, parallelization };
+  }
+  
+  /**
+   * Get the key escrow configuration protecting the keyring, if any
+   */
+  public getEscrowParameters(): EscrowParameters | null {
+    return this.escrow;
+  }
+  
+  /**
+   * Unwrap all usable keys with a key derived from the passphrase
+   * @param passphrase The keyring passphrase
+   */
+  public async unlock(passphrase: string): Promise<void> {
+    const kdf = this.kdf;
+    if (!kdf) {
+      throw new EncryptionError(
+        this.escrow ?
+          'Key file is protected by key escrow; submit escrow shares to unlock it' :
+          'Key file is not passphrase-protected',
+        this.escrow ? 'ESCROW_PROTECTED' : 'NOT_PROTECTED'
+      );
+    }
+    if (this.wrappingKey) {
+      return;
+    }
+    
+    const wrappingKey = await Keyring.deriveWrappingKey(passphrase, kdf);
+    this.unlockWith(wrappingKey, new EncryptionError('Incorrect passphrase', 'INVALID_PASSPHRASE'));
+  }
+  
+  /**
+   * Check that a share belongs to the current key escrow split
+   * @param share Parsed escrow share
+   */
+  public verifyEscrowShare(share: EscrowShare): void {
+    const escrow = this.escrow;
+    if (!escrow) {
+      throw new EncryptionError('Key file is not protected by key escrow', 'NOT_PROTECTED');
+    }
+    
+    const known = escrow.shares.find(candidate => candidate.index === share.index);
+    if (share.setId !== escrow.setId || share.threshold !== escrow.threshold ||
+        !known || known.fingerprint !== computeShareFingerprint(share)) {
+      throw new EncryptionError(
+        'Share does not belong to the current key escrow split',
+        'INVALID_SHARE'
+      );
+    }
+  }
+  
+  /**
+   * Recombine the escrowed wrapping key in memory and unwrap all usable keys
+   * @param shares At least threshold distinct shares of the current split
+   */
+  public unlockWithShares(shares: EscrowShare[]): void {
+    const escrow = this.escrow;
+    if (!escrow) {
+      throw new EncryptionError('Key file is not protected by key escrow', 'NOT_PROTECTED');
+    }
+    if (this.wrappingKey) {
+      return;
+    }
+    if (shares.length < escrow.threshold) {
+      throw new EncryptionError(
+        `Key escrow requires ${escrow.threshold} shares, got ${shares.length}`,
+        'INSUFFICIENT_SHARES'
+      );
+    }
+    
+    for (const share of shares) {
+      this.verifyEscrowShare(share);
+    }
+    const wrappingKey = combineShares(shares.slice(0, escrow.threshold));
+    this.unlockWith(
+      wrappingKey,
+      new EncryptionError('Escrow shares do not recover the key', 'INVALID_SHARE')
+    );
+  }
+  
+  /**
+   * Wrap every key with a fresh random key and split that key into escrow
+   * shares. Replaces any passphrase protection. Requires an unlocked keyring.
+   * The caller is responsible for saving the keyring.
+   * @param threshold Number of shares needed to unlock (M)
+   * @param shareCount Number of shares to create (N)
+   * @returns The encoded shares, to be handed out and never stored
+   */
+  public splitIntoEscrow(threshold: number, shareCount: number): string[] {
+    if (this.isLocked()) {
+      throw new EncryptionError('Key file is locked; unlock it first', 'LOCKED');
+    }
+    
+    const wrappingKey = crypto.randomBytes(32);
+    const setId = crypto.randomBytes(4).toString('hex');
+    const shares: EscrowShare[] = splitSecret(wrappingKey, threshold, shareCount)
+      .map(share => ({ ...share, setId, threshold }));
+    
+    for (const entry of this.entries) {
+      if (entry.status !== 'retired') {
+        entry.wrappedKey = Keyring.wrapKey(wrappingKey, entry.id, entry.key);
+      }
+    }
+    
+    this.kdf = null;
+    this.escrow = {
+      setId,
+      threshold,
+      shares: shares.map(share => ({
+        index: share.index,
+        fingerprint: computeShareFingerprint(share)
+      }))
+    };
+    this.wrappingKey?.fill(0);
+    this.wrappingKey = wrappingKey;
+    
+    const encoded = shares.map(encodeEscrowShare);
+    for (const share of shares) {
+      share.value.fill(0);
+    }
+    return encoded;
+  }
+  
+  /**
+   * Zero all key material held in memory (protected keyrings only)
+   */
+  public lock(): void {
+    if (!this.isProtected()) {
+      return;
+    }
+    this.zeroKeys();
+    if (this.wrappingKey) {
+      this.wrappingKey.fill(0);
+      this.wrappingKey = null;
+    }
+  }
+  
+  /**
+   * Get the key used for new encryptions
+   */
+  public getActiveKey(): KeyringEntry {
+    const active = this.entries.find(entry => entry.status === 'active');
+    if (!active) {
+      throw new EncryptionError('Keyring has no active key', 'KEY_NOT_INITIALIZED');
+    }
+    return active;
+  }
+  
+  /**
+   * Get a key that may be used for decryption
+   * @param id Key identifier
+   * @returns The key, or undefined if it is unknown or retired
+   */
+  public getDecryptionKey(id: string): KeyringEntry | undefined {
+    return this.entries.find(entry => entry.id === id && entry.status !== 'retired');
+  }
+  
+  /**
+   * Get the key converted from a legacy key file, which is the only key
+   * that can have written legacy AES-256-CBC files
+   * @returns The key, or undefined if there was no legacy key file or the key is retired
+   */
+  public getLegacyKey(): KeyringEntry | undefined {
+    return this.legacyKeyId ? this.getDecryptionKey(this.legacyKeyId) : undefined;
+  }
+  
+  /**
+   * Generate a new active key; the previous active key becomes decrypt-only.
+   * The caller is responsible for saving the keyring.
+   * @returns The new key
+   */
+  public createKey(): KeyringEntry {
+    if (this.isLocked()) {
+      throw new EncryptionError('Key file is locked; unlock it first', 'LOCKED');
+    }
+    
+    const entry = this.buildEntry(crypto.randomBytes(this.keySize), Date.now(), 'active');
+    if (this.wrappingKey) {
+      entry.wrappedKey = Keyring.wrapKey(this.wrappingKey, entry.id, entry.key);
+    }
+    
+    for (const existing of this.entries) {
+      if (existing.status === 'active') {
+        existing.status = 'decrypt-only';
+      }
+    }
+    this.entries.push(entry);
+    return entry;
+  }
+  
+  /**
+   * Retire a key: it can no longer decrypt and its material is discarded.
+   * The caller is responsible for saving the keyring.
+   * @param id Key identifier
+   */
+  public retireKey(id: string): void {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new EncryptionError(`Unknown key: ${id}`, 'KEY_NOT_FOUND');
+    }
+    if (entry.status === 'active') {
+      throw new EncryptionError(`Cannot retire the active key: ${id}`, 'KEY_ACTIVE');
+    }
+    entry.status = 'retired';
+    entry.key.fill(0);
+    entry.key = Buffer.alloc(0);
+    entry.wrappedKey = undefined;
+  }
+  
+  /**
+   * List keys without their key material
+   */
+  public listKeys(): KeyringKeyInfo[] {
+    return this.entries.map(entry => ({
+      id: entry.id,
+      createdAt: entry.createdAt,
+      status: entry.status
+    }));
+  }
+  
+  /**
+   * Wrap every key with a key derived from a new passphrase
+   */
+  private async protect(passphrase: string): Promise<void> {
+    const kdf: KdfParameters = { ...this.kdfConfig, salt: crypto.randomBytes(16) };
+    const wrappingKey = await Keyring.deriveWrappingKey(passphrase, kdf);
+    
+    for (const entry of this.entries) {
+      if (entry.status !== 'retired') {
+        entry.wrappedKey = Keyring.wrapKey(wrappingKey, entry.id, entry.key);
+      }
+    }
+    
+    this.kdf = kdf;
+    this.wrappingKey = wrappingKey;
+  }
+  
+  /**
+   * Unwrap all usable keys with a wrapping key, which the keyring then keeps.
+   * On failure all key material is zeroed and invalidError is thrown.
+   */
+  private unlockWith(wrappingKey: Buffer, invalidError: EncryptionError): void {
+    try {
+      for (const entry of this.entries) {
+        if (entry.status === 'retired' || !entry.wrappedKey) {
+          continue;
+        }
+        const key = Keyring.unwrapKey(wrappingKey, entry.id, entry.wrappedKey);
+        if (!key) {
+          throw invalidError;
+        }
+        if (Keyring.computeKeyId(key) !== entry.id) {
+          key.fill(0);
+          throw new EncryptionError(`Key ${entry.id} does not match its id`, 'INVALID_KEYRING');
+        }
+        entry.key = key;
+      }
+    } catch (error) {
+      wrappingKey.fill(0);
+      this.zeroKeys();
+      throw error;
+    }
+    
+    this.wrappingKey = wrappingKey;
+  }
+  
+  /**
+   * Zero and drop the material of every key
+   */
+  private zeroKeys(): void {
+    for (const entry of this.entries) {
+      entry.key.fill(0);
+      entry.key = Buffer.alloc(0);
+    }
+  }
+  
+  /**
+   * Build an entry from key material
+   */
+  private buildEntry(key: Buffer, createdAt: number, status: KeyStatus): KeyringEntry {
+    return {
+      id: Keyring.computeKeyId(key),
+      createdAt,
+      status,
+      key,
+      publicKey: x25519RawPublicKey(deriveX25519PrivateKey(key))
+    };
+  }
+  
+  /**
+   * Parse and validate a serialized keyring
+   */
+  private parseKeyringFile(contents: string): void {
+    let file: KeyringFile;
+    try {
+      file = JSON.parse(contents);
+    } catch (error) {
+      throw new EncryptionError(
+        `Keyring file is not valid JSON: ${(error as Error).message}`,
+        'INVALID_KEYRING'
+      );
+    }
+    
+    if (file.version !== 1 || !Array.isArray(file.keys)) {
+      throw new EncryptionError(
+        `Unsupported keyring format version: ${file.version}`,
+        'INVALID_KEYRING'
+      );
+    }
+    
+    this.legacyKeyId = typeof file.legacyKeyId === 'string' ? file.legacyKeyId : null;
+    
+    if (file.kdf) {
+      if (file.kdf.algorithm !== 'scrypt') {
+        throw new EncryptionError(
+          `Unsupported key derivation function: ${file.kdf.algorithm}`,
+          'INVALID_KEYRING'
+        );
+      }
+      this.kdf = {
+        salt: Buffer.from(file.kdf.salt, 'base64'),
+        cost: file.kdf.cost,
+        blockSize: file.kdf.blockSize,
+        parallelization: file.kdf.parallelization
+      };
+    }
+    
+    if (file.escrow) {
+      if (file.escrow.algorithm !== 'shamir-gf256' || this.kdf) {
+        throw new EncryptionError(
+          `Unsupported key escrow configuration: ${file.escrow.algorithm}`,
+          'INVALID_KEYRING'
+        );
+      }
+      this.escrow = {
+        setId: file.escrow.setId,
+        threshold: file.escrow.threshold,
+        shares: file.escrow.shares
+      };
+    }
+    
+    this.entries = file.keys.map(stored => {
+      const createdAt = Date.parse(stored.createdAt);
+      if (stored.status === 'retired') {
+        return {
+          id: stored.id,
+          createdAt,
+          status: stored.status,
+          key: Buffer.alloc(0),
+          publicKey: Buffer.alloc(0)
+        };
+      }
+      
+      if (this.isProtected()) {
+        if (!stored.wrappedKey || !stored.publicKey) {
+          throw new EncryptionError(`Key ${stored.id} is not wrapped`, 'INVALID_KEYRING');
+        }
+        return {
+          id: stored.id,
+          createdAt,
+          status: stored.status,
+          key: Buffer.alloc(0),
+          publicKey: Buffer.from(stored.publicKey, 'base64'),
+          wrappedKey: {
+            nonce: Buffer.from(stored.wrappedKey.nonce, 'base64'),
+            ciphertext: Buffer.from(stored.wrappedKey.ciphertext, 'base64'),
+            tag: Buffer.from(stored.wrappedKey.tag, 'base64')
+          }
+        };
+      }
+      
+      if (!stored.key) {
+        throw new EncryptionError(`Key ${stored.id} has no key material`, 'INVALID_KEYRING');
+      }
+      return this.buildEntry(
+        this.validateKey(Buffer.from(stored.key, 'base64')),
+        createdAt,
+        stored.status
+      );
+    });
+  }
+  
+  /**
+   * Check that a key has the configured size
+   */
+  private validateKey(key: Buffer): Buffer {
+    if (key.length !== this.keySize) {
+      throw new EncryptionError(
+        `Invalid key size: expected ${this.keySize} bytes, got ${key.length}`,
+        'INVALID_KEY_SIZE'
+      );
+    }
+    return key;
+  }
+  
+  /**
+   * Derive the key-wrapping key from a passphrase with scrypt
+   */
+  private static deriveWrappingKey(passphrase: string, kdf: KdfParameters): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(
+        passphrase,
+        kdf.salt,
+        32,
+        {
+          N: kdf.cost,
+          r: kdf.blockSize,
+          p: kdf.parallelization,
+          // scrypt needs 128 * N * r bytes; leave headroom over the default limit
+          maxmem: 256 * kdf.cost * kdf.blockSize
+        },
+        (error, derivedKey) => error ? reject(error) : resolve(derivedKey)
+      );
+    });
+  }
+  
+  /**
+   * Wrap a data key with AES-256-GCM, binding it to its key id
+   */
+  private static wrapKey(wrappingKey: Buffer, keyId: string, key: Buffer): WrappedKey {
+    const nonce = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', wrappingKey, nonce);
+    cipher.setAAD(Buffer.from(keyId, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+    return { nonce, ciphertext, tag: cipher.getAuthTag() };
+  }
+  
+  /**
+   * Unwrap a data key
+   * @returns The key, or null if the wrapping key is wrong
+   */
+  private static unwrapKey(wrappingKey: Buffer, keyId: string, wrapped: WrappedKey): Buffer | null {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', wrappingKey, wrapped.nonce);
+    decipher.setAAD(Buffer.from(keyId, 'utf-8'));
+    decipher.setAuthTag(wrapped.tag);
+    try {
+      return Buffer.concat([decipher.update(wrapped.ciphertext), decipher.final()]);
+    } catch (error) {
+      return null;
+    }
+  }
+}
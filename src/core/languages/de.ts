@@ -0,0 +1,39 @@
+/**
+ * German language pack
+ */
+
+import { LanguagePack } from './types.js';
+
+export const GERMAN: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  spaced: true,
+  stopwords: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'zu', 'den', 'mit',
+    'ein', 'eine', 'es', 'auf', 'für', 'von', 'sich', 'dass', 'auch', 'wir'
+  ],
+  indicators: [
+    /(privat|geheim|vertraulich|persönlich|sensibel)/iu,
+    /(nicht|keinesfalls|niemals)\s+(weitersagen|weitererzählen|verraten|teilen|preisgeben)/iu,
+    /unter\s+uns/iu,
+    /behalte?n?\s+(das|dies)\s+für\s+(dich|sich)/iu,
+    /(innere[rnms]?)\s+(Gedanken?|Monolog|Dialog|Stimme)/iu,
+    /(niemand|keiner)\s+(sollte|darf)\s+(das|davon)\s+(wissen|erfahren|hören|sehen|lesen)/iu,
+    /(ehrlich\s+gesagt|um\s+ehrlich\s+zu\s+sein)/iu,
+    /ich\s+(würde|werde|kann|möchte)\s+(das|dies)\s+nicht\s+(öffentlich|offen)\s+(sagen|zugeben|eingestehen)/iu
+  ],
+  introspection: {
+    firstPerson: ['ich', 'mich', 'mir', 'mein', 'meine', 'meiner', 'meinen', 'meinem', 'meines'],
+    thinking: ['denke', 'glaube', 'fühle', 'frage mich', 'zweifle', 'bezweifle', 'überlege', 'vermute'],
+    uncertainty: ['vielleicht', 'möglicherweise', 'eventuell', 'könnte sein', 'unsicher', 'unklar', 'wohl']
+  },
+  sensitivity: {
+    topics: [
+      'umstritten', 'kontrovers', 'streit', 'streitfrage', 'meinungsverschiedenheit',
+      'persönlich', 'privat', 'intim', 'geheim',
+      'sorge', 'sorgen', 'bedenken', 'angst', 'ängstlich', 'befürchtung',
+      'kritik', 'kritisch', 'fehler', 'schwäche', 'schwachstelle', 'mangel'
+    ],
+    caution: ['vorsichtig', 'warnung', 'unter uns', 'nicht für', 'zögerlich', 'zögere']
+  }
+};
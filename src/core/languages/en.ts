@@ -0,0 +1,39 @@
+/**
+ * English language pack
+ */
+
+import { LanguagePack } from './types.js';
+
+export const ENGLISH: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  spaced: true,
+  stopwords: [
+    'the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'this',
+    'with', 'for', 'not', 'you', 'be', 'on', 'was', 'what', 'have', 'but'
+  ],
+  indicators: [
+    /(private|secret|confidential|personal|sensitive)/i,
+    /(don't|do not|shouldn't|should not|wouldn't|would not)\s+(share|tell|reveal|disclose)/i,
+    /(between|just|only)\s+(us|ourselves|me and you)/i,
+    /keep\s+this\s+(to\s+yourself|private|secret|confidential)/i,
+    /(internal|introspective|inner)\s+(thought|reflection|monologue|dialogue)/i,
+    /(nobody|no one)\s+should\s+(know|hear|see|read)/i,
+    /if\s+I'm\s+being\s+honest/i,
+    /I\s+(wouldn't|won't|can't|cannot|don't)\s+(say|admit|acknowledge)\s+this\s+(publicly|openly)/i
+  ],
+  introspection: {
+    firstPerson: ['I', 'me', 'my', 'mine', 'myself'],
+    thinking: ['think', 'feel', 'believe', 'wonder', 'question', 'doubt', 'reflect'],
+    uncertainty: ['maybe', 'perhaps', 'possibly', 'might', 'could be', 'uncertain', 'unsure']
+  },
+  sensitivity: {
+    topics: [
+      'controversial', 'controversy', 'contentious', 'dispute', 'disagreement',
+      'personal', 'private', 'intimate', 'secret',
+      'worry', 'concern', 'afraid', 'fear', 'anxious', 'anxiety',
+      'critique', 'criticism', 'critical', 'flaw', 'weakness', 'shortcoming'
+    ],
+    caution: ['careful', 'cautious', 'warning', 'between us', 'not for', 'hesitant']
+  }
+};
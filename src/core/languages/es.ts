@@ -0,0 +1,39 @@
+/**
+ * Spanish language pack
+ */
+
+import { LanguagePack } from './types.js';
+
+export const SPANISH: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  spaced: true,
+  stopwords: [
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una',
+    'es', 'por', 'con', 'no', 'para', 'se', 'lo', 'del', 'al', 'pero'
+  ],
+  indicators: [
+    /(privad[oa]|secret[oa]|confidencial|personal|delicad[oa])/iu,
+    /no\s+(debería|deberías|quiero|puedo)\s+(compartir|decir|revelar|contar)/iu,
+    /no\s+(lo\s+)?(compartas|digas|reveles|cuentes)/iu,
+    /entre\s+(nosotros|nosotras|tú\s+y\s+yo)/iu,
+    /guárd(alo|atelo|elo)\s+(para\s+(ti|usted)|en\s+secreto)/iu,
+    /(pensamiento|reflexión|monólogo|diálogo)\s+(interno|interior|íntimo)/iu,
+    /(nadie|ninguno)\s+debería\s+(saber|oír|ver|leer)/iu,
+    /(para\s+ser|si\s+soy)\s+(sincer[oa]|honest[oa])/iu
+  ],
+  introspection: {
+    firstPerson: ['yo', 'me', 'mi', 'mis', 'mío', 'mía', 'míos', 'mías', 'conmigo'],
+    thinking: ['pienso', 'creo', 'siento', 'me pregunto', 'dudo', 'reflexiono', 'opino'],
+    uncertainty: ['quizás', 'quizá', 'tal vez', 'posiblemente', 'podría ser', 'incierto', 'inseguro', 'insegura']
+  },
+  sensitivity: {
+    topics: [
+      'polémico', 'polémica', 'controvertido', 'controversia', 'disputa', 'desacuerdo',
+      'personal', 'privado', 'privada', 'íntimo', 'íntima', 'secreto', 'secreta',
+      'preocupación', 'preocupa', 'miedo', 'temor', 'ansiedad', 'ansioso', 'ansiosa',
+      'crítica', 'crítico', 'defecto', 'debilidad', 'fallo', 'carencia'
+    ],
+    caution: ['cuidado', 'cauteloso', 'cautelosa', 'advertencia', 'entre nosotros', 'no para', 'reacio', 'reacia']
+  }
+};
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DEFAULT_CONFIG } from '../../config.js';
+import { createPrivacyDetector } from '../privacy-detector.js';
+import { compileLexicon, detectLanguage, getLanguagePacks } from './index.js';
+
+describe('getLanguagePacks', () => {
+  it('returns the configured packs in order, without duplicates', () => {
+    expect(getLanguagePacks(['de', 'en', 'de']).map(({ code }) => code)).toEqual(['de', 'en']);
+  });
+  
+  it.each([[[]], [['en', 'fr']], [['toString']]])('rejects %j', codes => {
+    expect(() => getLanguagePacks(codes)).toThrow(expect.objectContaining({ code: 'PRIVACY_INVALID_CONFIG' }));
+  });
+});
+
+describe('detectLanguage', () => {
+  const packs = getLanguagePacks(['en', 'de', 'es', 'ja']);
+  
+  it.each([
+    ['The build is not ready and the tests fail.', 'en'],
+    ['Ich denke, dass der Test nicht stabil ist.', 'de'],
+    ['Creo que la prueba no es estable para el equipo.', 'es'],
+    ['私はこのテストが不安定だと思います。', 'ja'],
+    ['npm run build', 'en']
+  ])('detects %s as %s', (text, code) => {
+    expect(detectLanguage(text, packs).code).toBe(code);
+  });
+  
+  it('falls back to the first pack', () => {
+    expect(detectLanguage('12345', getLanguagePacks(['de', 'en'])).code).toBe('de');
+  });
+});
+
+describe('compileLexicon', () => {
+  it('matches whole words in languages written with spaces, in any script', () => {
+    const lexicon = compileLexicon(['fear', 'between us', 'größe'], true);
+    
+    expect('I fear that, between  us, the GRÖSSE größe is fearless'.match(lexicon)).toEqual(['fear', 'between  us', 'größe']);
+  });
+  
+  it('matches terms anywhere in languages written without spaces', () => {
+    expect('私は心配です'.match(compileLexicon(['心配'], false))).toEqual(['心配']);
+  });
+});
+
+describe('PrivacyDetector languages', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('scores each segment with the pack of its language', async () => {
+    const detector = await createPrivacyDetector({ ...DEFAULT_CONFIG.privacy, languages: ['en', 'de', 'ja'] });
+    
+    const result = await detector.processOutput(
+      'The release is ready.\n\nUnter uns, das ist nicht für die Kunden.\n\nここだけの話ですが、私は不安です。'
+    );
+    
+    expect(result.segments.map(({ language, decision }) => [language, decision])).toEqual([
+      ['en', 'public'],
+      ['de', 'private'],
+      ['ja', 'private']
+    ]);
+    expect(result.segments[1].matchedRules).toContain('pattern:unter\\s+uns');
+  });
+  
+  it('splits long Japanese paragraphs into sentences', async () => {
+    const detector = await createPrivacyDetector({ ...DEFAULT_CONFIG.privacy, languages: ['en', 'ja'] });
+    const filler = 'この関数はリストを返します。'.repeat(40);
+    
+    const result = await detector.processOutput(`${filler}ここだけの話ですが、これは秘密です。${filler}`);
+    
+    expect(result.privateThoughts).toEqual(['ここだけの話ですが、これは秘密です。']);
+    expect(result.publicOutput).toBe(filler + filler);
+  });
+});
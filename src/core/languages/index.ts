@@ -0,0 +1,93 @@
+/**
+ * Language packs index - selects the configured packs and detects the
+ * language of each segment
+ */
+
+import { LanguagePack } from './types.js';
+import { PrivacyError } from '../../utils/errors.js';
+import { segmentWords } from '../segmenter.js';
+import { ENGLISH } from './en.js';
+import { GERMAN } from './de.js';
+import { SPANISH } from './es.js';
+import { JAPANESE } from './ja.js';
+
+/** Built-in language packs by code */
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = Object.fromEntries(
+  [ENGLISH, GERMAN, SPANISH, JAPANESE].map(pack => [pack.code, pack])
+);
+
+/**
+ * Get the configured language packs
+ * @param codes Language codes from privacy.languages, the fallback first
+ * @throws PrivacyError if no language or an unknown one is configured
+ */
+export function getLanguagePacks(codes: string[]): LanguagePack[] {
+  if (!Array.isArray(codes) || codes.length === 0) {
+    throw new PrivacyError('privacy.languages must name at least one language', 'INVALID_CONFIG');
+  }
+  const unknown = codes.filter(code => !Object.hasOwn(LANGUAGE_PACKS, code));
+  if (unknown.length > 0) {
+    throw new PrivacyError(
+      `Unknown language(s) in privacy.languages: ${unknown.join(', ')} (available: ${Object.keys(LANGUAGE_PACKS).join(', ')})`,
+      'INVALID_CONFIG'
+    );
+  }
+  return [...new Set(codes)].map(code => LANGUAGE_PACKS[code]);
+}
+
+/**
+ * Detect the language of a text among the configured packs: a pack whose
+ * script appears in the text wins, otherwise the pack whose stopwords occur
+ * most often. Inconclusive texts get the first pack.
+ * @param text The text
+ * @param packs The configured packs, the fallback first
+ */
+export function detectLanguage(text: string, packs: LanguagePack[]): LanguagePack {
+  if (packs.length === 1) {
+    return packs[0];
+  }
+  
+  const scripted = packs.find(pack => pack.script?.test(text));
+  if (scripted) {
+    return scripted;
+  }
+  
+  const words = segmentWords(text).map(word => word.toLowerCase());
+  let best = packs[0];
+  let bestCount = 0;
+  for (const pack of packs) {
+    const stopwords = new Set(pack.stopwords);
+    const count = words.filter(word => stopwords.has(word)).length;
+    if (count > bestCount) {
+      best = pack;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Compile lexicon terms into one pattern counting their occurrences. Terms
+ * of languages written with spaces only match whole words, with word
+ * boundaries that hold in every script (unlike \b, which only knows ASCII).
+ * @param terms The terms
+ * @param spaced Whether the language separates words with spaces
+ * @returns A global, case-insensitive pattern
+ */
+export function compileLexicon(terms: string[], spaced: boolean): RegExp {
+  const alternatives = terms
+    .map(term => term.trim().split(/\s+/).map(escapeRegExp).join('\\s+'))
+    .join('|');
+  return spaced
+    ? new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives})(?![\\p{L}\\p{N}_])`, 'giu')
+    : new RegExp(`(?:${alternatives})`, 'giu');
+}
+
+/**
+ * Escape the characters with a meaning in regular expressions
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export * from './types.js';
@@ -0,0 +1,38 @@
+/**
+ * Japanese language pack
+ * Japanese is written without spaces, so terms match anywhere in a segment
+ * and words are counted with Intl.Segmenter.
+ */
+
+import { LanguagePack } from './types.js';
+
+export const JAPANESE: LanguagePack = {
+  code: 'ja',
+  name: 'Japanese',
+  spaced: false,
+  // Kana are unique to Japanese; kanji alone also count, as no Chinese pack exists
+  script: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u,
+  stopwords: ['の', 'は', 'が', 'を', 'に', 'で', 'と', 'です', 'ます', 'した'],
+  indicators: [
+    /(秘密|内緒|機密|非公開|プライベート|個人的)/u,
+    /(誰|だれ)にも(言わない|言えない|話さない|話せない|教えない|知られたくない)/u,
+    /ここだけの(話|こと)/u,
+    /(公言|口外)(しない|できない|しないで)/u,
+    /(心の中|内心|内なる)(の)?(声|思い|考え|独白|対話)?/u,
+    /(正直に言うと|正直なところ|本音を言うと|本音では)/u
+  ],
+  introspection: {
+    firstPerson: ['私', 'わたし', '僕', 'ぼく', '俺', '自分'],
+    thinking: ['思う', '思い', '思っ', '考え', '感じ', '気がする', '疑問', '疑っ', '信じ'],
+    uncertainty: ['かもしれ', 'たぶん', '多分', 'おそらく', '恐らく', '不確か', 'わからない', '分からない']
+  },
+  sensitivity: {
+    topics: [
+      '論争', '物議', '議論の的', '対立',
+      '個人的', '私的', '秘密', '内緒',
+      '心配', '不安', '恐れ', '怖', '懸念',
+      '批判', '欠点', '弱点', '問題点'
+    ],
+    caution: ['注意', '慎重', '警告', 'ここだけの話', 'ためらい']
+  }
+};
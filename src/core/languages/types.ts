@@ -0,0 +1,42 @@
+/**
+ * Type definitions for language packs
+ */
+
+/**
+ * The indicators and lexicons the privacy scorers use for one language.
+ * Lexicon terms are plain text, matched case-insensitively; a term of
+ * several words matches them separated by any whitespace.
+ */
+export interface LanguagePack {
+  /** Language code used in privacy.languages and in reports, e.g. 'de' */
+  readonly code: string;
+  /** Name of the language, for messages */
+  readonly name: string;
+  /**
+   * Whether words are separated by spaces. Terms then only match whole
+   * words; otherwise (as in Japanese) they match anywhere in the text.
+   */
+  readonly spaced: boolean;
+  /** Characters that identify the language on their own, e.g. kana for Japanese */
+  readonly script?: RegExp;
+  /** Common function words, which tell apart languages written in the same script */
+  readonly stopwords: string[];
+  /** Phrases that suggest a thought is private, for the patterns scorer */
+  readonly indicators: RegExp[];
+  /** Lexicons of the introspection scorer */
+  readonly introspection: {
+    /** First-person pronouns */
+    firstPerson: string[];
+    /** Verbs of thinking and feeling */
+    thinking: string[];
+    /** Words of uncertainty or personal opinion */
+    uncertainty: string[];
+  };
+  /** Lexicons of the sensitivity scorer */
+  readonly sensitivity: {
+    /** Words of sensitive topics */
+    topics: string[];
+    /** Cautionary phrases, which weigh twice as much */
+    caution: string[];
+  };
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DEFAULT_CONFIG, PrivacyConfig } from '../config.js';
+import { findMarkup, validateMarkupConfig } from './markup.js';
+import { createPrivacyDetector } from './privacy-detector.js';
+
+const MARKUP: PrivacyConfig['markup'] = { privateTag: 'private', publicTag: 'public', privateFence: 'private' };
+
+/**
+ * The text of each marked span's content
+ */
+function contents(text: string, markup = MARKUP): string[] {
+  return findMarkup(text, markup).map(({ content }) => text.slice(content.start, content.end));
+}
+
+describe('findMarkup', () => {
+  it('finds private and public tags in order, with trimmed content', () => {
+    const text = 'Intro <private> my doubts </private> and <PUBLIC>the answer</PUBLIC>.';
+    
+    expect(findMarkup(text, MARKUP).map(({ kind }) => kind)).toEqual(['private', 'public']);
+    expect(contents(text)).toEqual(['my doubts', 'the answer']);
+  });
+  
+  it('finds fenced code blocks with the private info string', () => {
+    const text = 'Answer\n\n```private\nscratch work\n```\n\n```ts\nconst x = 1;\n```\n';
+    
+    expect(contents(text)).toEqual(['scratch work']);
+  });
+  
+  it('ignores markers inside code', () => {
+    const text = 'Wrap it in `<private>` like this:\n\n```html\n<private>example</private>\n```\n';
+    
+    expect(findMarkup(text, MARKUP)).toEqual([]);
+  });
+  
+  it.each([
+    ['unclosed tags', 'Before <private> never closed'],
+    ['unexpected closing tags', 'Text </private> here'],
+    ['nested tags', '<private> a <public> b </public> c </private>'],
+    ['tags with attributes', '<private reason="x">hidden</private>'],
+    ['unterminated markers', '<private hidden</private>'],
+    ['unclosed private fences', 'Text\n\n```private\nhidden']
+  ])('rejects %s', (_, text) => {
+    expect(() => findMarkup(text, MARKUP)).toThrow(expect.objectContaining({ code: 'PRIVACY_MALFORMED_MARKUP' }));
+  });
+  
+  it('finds nothing when no tags are configured', () => {
+    expect(findMarkup('<private>x</private>', { privateTag: '', publicTag: '', privateFence: '' })).toEqual([]);
+  });
+});
+
+describe('validateMarkupConfig', () => {
+  it.each([
+    { privateTag: '1private', publicTag: 'public', privateFence: '' },
+    { privateTag: 'pri vate', publicTag: 'public', privateFence: '' },
+    { privateTag: 'secret', publicTag: 'SECRET', privateFence: '' }
+  ])('rejects %j', markup => {
+    expect(() => validateMarkupConfig(markup)).toThrow(expect.objectContaining({ code: 'PRIVACY_INVALID_CONFIG' }));
+  });
+});
+
+describe('PrivacyDetector markup', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('stores private content as thoughts and strips the markers of public content', async () => {
+    const detector = await createPrivacyDetector({ ...DEFAULT_CONFIG.privacy, markup: MARKUP });
+    const text = 'The answer is 42.\n\n<private>I am not sure about this.</private>\n\n<public>I feel confident.</public>';
+    
+    const result = await detector.processOutput(text);
+    
+    expect(result.privateThoughts).toEqual(['I am not sure about this.']);
+    expect(result.detections).toEqual([expect.objectContaining({ matchedRules: ['markup:private'] })]);
+    expect(result.publicOutput).toBe('The answer is 42.\n\n\n\nI feel confident.');
+    expect(result.segments.filter(({ kind }) => kind === 'markup').map(({ decidedBy }) => decidedBy))
+      .toEqual(['markup:private', 'markup:public']);
+  });
+  
+  it('replaces private content with a placeholder in placeholder mode', async () => {
+    const detector = await createPrivacyDetector({
+      ...DEFAULT_CONFIG.privacy,
+      markup: MARKUP,
+      redactionMode: 'placeholder'
+    });
+    
+    const result = await detector.processOutput('Done. <private>hidden</private>');
+    
+    expect(result.publicOutput).toBe('Done. [private thought withheld]');
+  });
+  
+  it('rejects responses with malformed markup', async () => {
+    const detector = await createPrivacyDetector({ ...DEFAULT_CONFIG.privacy, markup: MARKUP });
+    
+    await expect(detector.processOutput('<private>never closed')).rejects
+      .toMatchObject({ code: 'PRIVACY_MALFORMED_MARKUP' });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Explicit privacy markup for LLM-Secrets MCP server
+ * Finds the spans an LLM marked as private (<private>…</private>, or fenced
+ * code blocks with a configured info string) or as public (<public>…</public>).
+ * Markers inside code are ignored, so a response can talk about the markup.
+ */
+
+import { PrivacyConfig } from '../config.js';
+import { TextSpan } from './types.js';
+import { maskInlineCode, segmentMarkdown, trimSpan } from './segmenter.js';
+import { PrivacyError } from '../utils/errors.js';
+
+/**
+ * Whether marked content is private or public
+ */
+export type MarkupKind = 'private' | 'public';
+
+/**
+ * A span of text enclosed in privacy markup
+ */
+export interface MarkedSpan extends TextSpan {
+  /** Whether the content is private or public */
+  kind: MarkupKind;
+  /** The content between the markers, trimmed of whitespace */
+  content: TextSpan;
+}
+
+/**
+ * A marker found in the text
+ */
+interface Marker {
+  kind: MarkupKind;
+  closing: boolean;
+  start: number;
+  end: number;
+}
+
+/** Valid tag names */
+const TAG_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+/** Opening line of a fenced code block; group 1 is the fence, group 2 the info string */
+const FENCE_INFO = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\r\n]*)/;
+
+/**
+ * Check that the markup configuration is usable
+ * @throws PrivacyError if a tag name is invalid or both tags are the same
+ */
+export function validateMarkupConfig(markup: PrivacyConfig['markup']): void {
+  for (const [name, value] of [['privateTag', markup.privateTag], ['publicTag', markup.publicTag]]) {
+    if (value && !TAG_NAME.test(value)) {
+      throw new PrivacyError(
+        `Invalid markup.${name} "${value}": tag names must start with a letter and contain only letters, digits, "_" and "-"`,
+        'INVALID_CONFIG'
+      );
+    }
+  }
+  if (markup.privateTag && markup.privateTag.toLowerCase() === markup.publicTag?.toLowerCase()) {
+    throw new PrivacyError('markup.privateTag and markup.publicTag must differ', 'INVALID_CONFIG');
+  }
+}
+
+/**
+ * Find the marked spans of a text
+ * @param text The text
+ * @param markup Markup configuration
+ * @returns Marked spans in order; they never overlap
+ * @throws PrivacyError if a marker is malformed, unclosed, unexpected or nested
+ */
+export function findMarkup(text: string, markup: PrivacyConfig['markup']): MarkedSpan[] {
+  const spans: MarkedSpan[] = [];
+  
+  // Blank out code so markers inside it are ignored; fenced blocks with the
+  // private info string are marked spans of their own
+  let masked = text;
+  for (const block of segmentMarkdown(text)) {
+    if (block.kind !== 'code') {
+      continue;
+    }
+    masked = masked.slice(0, block.start) + ' '.repeat(block.end - block.start) + masked.slice(block.end);
+    const fence = markup.privateFence ? privateFence(text, block, markup.privateFence) : null;
+    if (fence) {
+      spans.push(fence);
+    }
+  }
+  masked = maskInlineCode(masked);
+  
+  // Pair up the tags; content of the same kind cannot be nested either
+  let open: Marker | null = null;
+  for (const marker of findMarkers(masked, markup)) {
+    if (!marker.closing) {
+      if (open) {
+        throw new PrivacyError(
+          `Nested privacy markup: <${tagName(markup, marker.kind)}> at line ${lineOf(text, marker.start)} ` +
+            `is inside <${tagName(markup, open.kind)}> from line ${lineOf(text, open.start)}`,
+          'MALFORMED_MARKUP'
+        );
+      }
+      open = marker;
+    } else if (!open || open.kind !== marker.kind) {
+      throw new PrivacyError(
+        `Unexpected </${tagName(markup, marker.kind)}> at line ${lineOf(text, marker.start)}` +
+          (open ? `: <${tagName(markup, open.kind)}> from line ${lineOf(text, open.start)} is still open` : ''),
+        'MALFORMED_MARKUP'
+      );
+    } else {
+      spans.push({
+        kind: open.kind,
+        start: open.start,
+        end: marker.end,
+        content: trimSpan(text, { start: open.end, end: marker.start })
+      });
+      open = null;
+    }
+  }
+  if (open) {
+    throw new PrivacyError(
+      `Unclosed <${tagName(markup, open.kind)}> at line ${lineOf(text, open.start)}`,
+      'MALFORMED_MARKUP'
+    );
+  }
+  
+  spans.sort((a, b) => a.start - b.start);
+  for (let index = 1; index < spans.length; index++) {
+    if (spans[index].start < spans[index - 1].end) {
+      throw new PrivacyError(
+        `Nested privacy markup at line ${lineOf(text, spans[index].start)}`,
+        'MALFORMED_MARKUP'
+      );
+    }
+  }
+  
+  return spans;
+}
+
+/**
+ * Find the markers of the configured tags. Anything that starts like a
+ * marker but is not a plain opening or closing tag is rejected, so that
+ * a typo cannot leak the content it was meant to hide.
+ */
+function findMarkers(text: string, markup: PrivacyConfig['markup']): Marker[] {
+  const names = new Map<string, MarkupKind>();
+  if (markup.privateTag) {
+    names.set(markup.privateTag.toLowerCase(), 'private');
+  }
+  if (markup.publicTag) {
+    names.set(markup.publicTag.toLowerCase(), 'public');
+  }
+  if (names.size === 0) {
+    return [];
+  }
+  
+  // Tag names are validated, so they need no escaping
+  const candidate = new RegExp(`<(/?)(${[...names.keys()].join('|')})\\b([^<>\\n]*)(>?)`, 'gi');
+  const markers: Marker[] = [];
+  for (const match of text.matchAll(candidate)) {
+    const [marker, slash, name, rest, close] = match;
+    if (!close || rest.trim().length > 0) {
+      throw new PrivacyError(
+        `Malformed privacy marker "${marker.trim()}" at line ${lineOf(text, match.index!)}: ` +
+          `expected <${name}> or </${name}>`,
+        'MALFORMED_MARKUP'
+      );
+    }
+    markers.push({
+      kind: names.get(name.toLowerCase())!,
+      closing: slash === '/',
+      start: match.index!,
+      end: match.index! + marker.length
+    });
+  }
+  return markers;
+}
+
+/**
+ * Get the marked span of a fenced code block with the private info string
+ * @returns The span, or null if the block has another info string
+ * @throws PrivacyError if the block is unclosed
+ */
+function privateFence(text: string, block: TextSpan, info: string): MarkedSpan | null {
+  const source = text.slice(block.start, block.end);
+  const opening = FENCE_INFO.exec(source);
+  if (!opening || opening[2].trim().toLowerCase() !== info.toLowerCase()) {
+    return null;
+  }
+  
+  const lines = source.split(/\r?\n/);
+  const closing = lines[lines.length - 1].trim();
+  if (
+    lines.length < 2 ||
+    closing.length < opening[1].length ||
+    [...closing].some(char => char !== opening[1][0])
+  ) {
+    throw new PrivacyError(
+      `Unclosed ${opening[1]}${info} block at line ${lineOf(text, block.start)}`,
+      'MALFORMED_MARKUP'
+    );
+  }
+  
+  const firstBreak = source.indexOf('\n');
+  const lastBreak = source.lastIndexOf('\n');
+  return {
+    start: block.start,
+    end: block.end,
+    kind: 'private',
+    content: firstBreak < lastBreak
+      ? { start: block.start + firstBreak + 1, end: block.start + lastBreak - (source[lastBreak - 1] === '\r' ? 1 : 0) }
+      : { start: block.start + firstBreak, end: block.start + firstBreak }
+  };
+}
+
+/**
+ * Get the configured tag name of a kind of markup
+ */
+function tagName(markup: PrivacyConfig['markup'], kind: MarkupKind): string {
+  return kind === 'private' ? markup.privateTag : markup.publicTag;
+}
+
+/**
+ * Get the 1-based line number of an offset
+ */
+function lineOf(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { createOperatorAuthorizer } from './operator-auth.js';
+
+const TOKEN = 'operator-token-0123456789';
+
+describe('OperatorAuthorizer', () => {
+  let dir: string;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.OPERATOR_TOKEN;
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('accepts the token from OPERATOR_TOKEN and rejects any other', async () => {
+    process.env.OPERATOR_TOKEN = TOKEN;
+    const authorizer = await createOperatorAuthorizer({ operatorTokenFile: '' });
+    
+    expect(authorizer.isEnabled()).toBe(true);
+    expect(() => authorizer.authorize(TOKEN)).not.toThrow();
+    for (const token of [`${TOKEN}x`, TOKEN.slice(0, -1), '', 42, undefined]) {
+      expect(() => authorizer.authorize(token)).toThrow(expect.objectContaining({
+        code: 'UNAUTHORIZED',
+        message: 'Invalid or missing operator token'
+      }));
+    }
+  });
+  
+  it('reads the token file, ignoring surrounding whitespace', async () => {
+    const operatorTokenFile = path.join(dir, 'operator-token');
+    await fsPromises.writeFile(operatorTokenFile, `${TOKEN}\n`);
+    
+    const authorizer = await createOperatorAuthorizer({ operatorTokenFile });
+    
+    expect(() => authorizer.authorize(TOKEN)).not.toThrow();
+  });
+  
+  it('denies every request when no token is configured', async () => {
+    const authorizer = await createOperatorAuthorizer({ operatorTokenFile: '' });
+    
+    expect(authorizer.isEnabled()).toBe(false);
+    expect(() => authorizer.authorize(TOKEN)).toThrow(expect.objectContaining({
+      code: 'UNAUTHORIZED',
+      message: 'Operator access is not enabled on this server'
+    }));
+  });
+  
+  it.each([
+    ['a short token', 'too-short', ''],
+    ['a missing token file', '', 'missing-token']
+  ])('fails to initialize with %s', async (_, token, file) => {
+    if (token) {
+      process.env.OPERATOR_TOKEN = token;
+    }
+    
+    await expect(createOperatorAuthorizer({ operatorTokenFile: file && path.join(dir, file) }))
+      .rejects.toMatchObject({ code: 'INIT_FAILED' });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Operator authorization for LLM-Secrets MCP server
+ * Operator-only tools (such as revealing a thought) require a token that is
+ * configured out of band and never given to the model. Without a configured
+ * token, every operator request is denied.
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { AccessConfig } from '../config.js';
+import { LlmSecretsError } from '../utils/errors.js';
+
+/**
+ * Checks operator credentials
+ */
+export class OperatorAuthorizer {
+  private readonly config: AccessConfig;
+  private tokenDigest: Buffer | null = null;
+  
+  /**
+   * Create a new OperatorAuthorizer
+   * @param config Access configuration
+   */
+  constructor(config: AccessConfig) {
+    this.config = config;
+  }
+  
+  /**
+   * Load the operator token from the OPERATOR_TOKEN environment variable
+   * or the configured token file. Only a digest of the token is kept.
+   */
+  public async initialize(): Promise<void> {
+    let token = process.env.OPERATOR_TOKEN;
+    if (!token && this.config.operatorTokenFile) {
+      try {
+        token = (await fsPromises.readFile(this.config.operatorTokenFile, 'utf-8')).trim();
+      } catch (error) {
+        throw new LlmSecretsError(
+          `Failed to read operator token file: ${(error as Error).message}`,
+          'INIT_FAILED'
+        );
+      }
+    }
+    
+    if (!token) {
+      console.log('No operator token configured; operator tools are disabled');
+      return;
+    }
+    if (token.length < 16) {
+      throw new LlmSecretsError('Operator token must be at least 16 characters', 'INIT_FAILED');
+    }
+    this.tokenDigest = OperatorAuthorizer.digest(token);
+  }
+  
+  /**
+   * Whether an operator token is configured
+   */
+  public isEnabled(): boolean {
+    return this.tokenDigest !== null;
+  }
+  
+  /**
+   * Check an operator token supplied with a request
+   * @param token Token from the request arguments
+   * @throws LlmSecretsError with code UNAUTHORIZED if the token is missing or wrong
+   */
+  public authorize(token: unknown): void {
+    if (!this.tokenDigest) {
+      throw new LlmSecretsError('Operator access is not enabled on this server', 'UNAUTHORIZED');
+    }
+    // Compare digests so the comparison takes the same time for any input length
+    if (typeof token !== 'string' ||
+        !crypto.timingSafeEqual(OperatorAuthorizer.digest(token), this.tokenDigest)) {
+      throw new LlmSecretsError('Invalid or missing operator token', 'UNAUTHORIZED');
+    }
+  }
+  
+  /**
+   * Hash a token for storage and comparison
+   */
+  private static digest(token: string): Buffer {
+    return crypto.createHash('sha256').update(token, 'utf-8').digest();
+  }
+}
+
+/**
+ * Factory function to create and initialize an OperatorAuthorizer
+ */
+export async function createOperatorAuthorizer(
+  config: AccessConfig
+): Promise<OperatorAuthorizer> {
+  const authorizer = new OperatorAuthorizer(config);
+  await authorizer.initialize();
+  return authorizer;
+}
@@ -0,0 +1,270 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG, PrivacyConfig } from '../config.js';
+import { createPrivacyDetector, withoutContributions } from './privacy-detector.js';
+
+/**
+ * Scorer module whose scorers read their scores from the segment, so that
+ * "a=0.9 b=0.1" scores 0.9 for a and 0.1 for b; "force=public" or
+ * "force=private" makes a force the verdict
+ */
+const SCORER_MODULE = `
+const read = (name, text) => Number(new RegExp(name + '=([0-9.]+)').exec(text)?.[1] ?? 0);
+export default () => [
+  {
+    name: 'a',
+    score: ({ text }) => ({ score: read('a', text), verdict: /force=(private|public)/.exec(text)?.[1] })
+  },
+  { name: 'b', score: ({ text }) => ({ score: read('b', text) }) }
+];
+`;
+
+describe('PrivacyDetector scoring', () => {
+  let tempDir: string;
+  let modulePath: string;
+  
+  /**
+   * Create a detector that only runs the scorers of the test module
+   */
+  function detector(scoring: Partial<PrivacyConfig['scoring']>, options: Partial<PrivacyConfig> = {}) {
+    return createPrivacyDetector({
+      ...DEFAULT_CONFIG.privacy,
+      ...options,
+      scoring: {
+        ...DEFAULT_CONFIG.privacy.scoring,
+        modules: [modulePath],
+        ...scoring,
+        weights: { patterns: 0, introspection: 0, sensitivity: 0, ...scoring.weights }
+      }
+    });
+  }
+  
+  beforeAll(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    modulePath = path.join(tempDir, 'scorers.mjs');
+    await fsPromises.writeFile(modulePath, SCORER_MODULE);
+  });
+  
+  afterAll(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+  
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('makes a segment private when any score is over its threshold', async () => {
+    const privacy = await detector({ combine: 'any' });
+    
+    const result = await privacy.processOutput('a=0.7 b=0.1\n\na=0.3 b=0.2');
+    
+    expect(result.privateThoughts).toEqual(['a=0.7 b=0.1']);
+    expect(result.publicOutput).toBe('\n\na=0.3 b=0.2');
+    expect(result.segments).toEqual([
+      expect.objectContaining({ decision: 'private', decidedBy: 'any', triggeredBy: ['a-threshold'] }),
+      expect.objectContaining({ decision: 'public', decidedBy: 'any', triggeredBy: [] })
+    ]);
+    expect(result.segments[0].scores).toEqual({ a: 0.7, b: 0.1 });
+    expect(result.segments[0].thresholds).toEqual({ a: 0.5, b: 0.5 });
+  });
+  
+  it('compares the weighted mean of the scores with the threshold', async () => {
+    const privacy = await detector({ combine: 'weighted', weights: { a: 3, b: 1 }, threshold: 0.5 });
+    const reversed = await detector({ combine: 'weighted', weights: { a: 1, b: 3 }, threshold: 0.5 });
+    
+    const result = await privacy.processOutput('a=0.9 b=0.1');
+    
+    expect(result.segments[0]).toMatchObject({
+      decision: 'private',
+      decidedBy: 'weighted',
+      aggregate: { score: expect.closeTo(0.7), threshold: 0.5 }
+    });
+    expect((await reversed.processOutput('a=0.9 b=0.1')).segments[0]).toMatchObject({
+      decision: 'public',
+      aggregate: { score: expect.closeTo(0.3) }
+    });
+  });
+  
+  it('decides with the rule expression', async () => {
+    const privacy = await detector({ combine: 'rule', rule: 'a > 0.8 && b < 0.2' });
+    
+    const result = await privacy.processOutput('a=0.9 b=0.1\n\na=0.9 b=0.5');
+    
+    expect(result.segments.map(({ decision }) => decision)).toEqual(['private', 'public']);
+    expect(result.segments[0]).toMatchObject({ decidedBy: 'rule', triggeredBy: ['a-threshold', 'rule'] });
+  });
+  
+  it('skips scorers with a weight of 0', async () => {
+    const privacy = await detector({ combine: 'any', weights: { a: 0 } });
+    
+    const result = await privacy.processOutput('a=0.9 b=0.1');
+    
+    expect(result.privateThoughts).toEqual([]);
+    expect(result.segments[0].scores).toEqual({ b: 0.1 });
+  });
+  
+  it('lets a forced verdict override the scores', async () => {
+    const privacy = await detector({ combine: 'any' });
+    
+    const result = await privacy.processOutput('a=0.9 force=public\n\na=0.1 force=private');
+    
+    expect(result.segments).toEqual([
+      expect.objectContaining({ decision: 'public', decidedBy: 'forced' }),
+      expect.objectContaining({ decision: 'private', decidedBy: 'forced', triggeredBy: ['a-threshold'] })
+    ]);
+  });
+  
+  it('skips code blocks unless they are analyzed', async () => {
+    const text = 'a=0.1\n\n```\na=0.9\n```';
+    const skipping = await detector({ combine: 'any' });
+    const analyzing = await detector({ combine: 'any', weights: { patterns: 1 } }, { codeBlocks: 'analyze' });
+    
+    const skipped = await skipping.processOutput(text);
+    const analyzed = await analyzing.processOutput(text);
+    
+    expect(skipped.segments[1]).toMatchObject({ kind: 'code', decision: 'skipped', decidedBy: 'code-excluded' });
+    // Only scorers that understand code score it
+    expect(analyzed.segments[1]).toMatchObject({ kind: 'code', decision: 'public', scores: { patterns: 0 } });
+  });
+  
+  it.each([
+    ['an unknown combine mode', { combine: 'average' as PrivacyConfig['scoring']['combine'] }, 'PRIVACY_INVALID_CONFIG'],
+    ['a rule with an unknown name', { combine: 'rule' as const, rule: 'c > 0.5' }, 'PRIVACY_INVALID_RULE'],
+    ['a weight of an unknown scorer', { weights: { c: 1 } }, 'PRIVACY_INVALID_CONFIG'],
+    ['a negative weight', { weights: { a: -1 } }, 'PRIVACY_INVALID_CONFIG']
+  ])('rejects %s', async (_, scoring, code) => {
+    await expect(detector(scoring)).rejects.toMatchObject({ code });
+  });
+  
+  it('rejects scorer modules without a valid scorer', async () => {
+    const invalid = path.join(tempDir, 'invalid.mjs');
+    await fsPromises.writeFile(invalid, `export default { name: '1st', score: () => ({ score: 0 }) };\n`);
+    
+    await expect(detector({ modules: [invalid] })).rejects.toMatchObject({ code: 'PRIVACY_SCORER_LOAD_FAILED' });
+  });
+});
+
+describe('PrivacyDetector reports', () => {
+  const TEXT = [
+    '# Release plan',
+    'The deploy runs at noon.',
+    'Between us, this is confidential.',
+    '- check the logs\n- tag the release',
+    '```sh\nnpm run deploy\n```'
+  ].join('\n\n');
+  
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('reports every segment in order, with its kind, decision and hash', async () => {
+    const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+    
+    const { segments } = await detector.processOutput(TEXT);
+    
+    expect(segments.map(({ kind, decision }) => [kind, decision])).toEqual([
+      ['heading', 'public'],
+      ['paragraph', 'public'],
+      ['paragraph', 'private'],
+      ['list-item', 'public'],
+      ['list-item', 'public'],
+      ['code', 'skipped']
+    ]);
+    for (const segment of segments) {
+      const source = TEXT.slice(segment.start, segment.end);
+      expect(segment.hash).toBe(crypto.createHash('sha256').update(source).digest('hex').slice(0, 16));
+    }
+    expect(segments[4]).toMatchObject({ decidedBy: 'any', language: 'en', triggeredBy: [] });
+  });
+  
+  it('reports the rules and scores that made a segment private', async () => {
+    const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+    
+    const { segments, detections } = await detector.processOutput(TEXT);
+    
+    const report = segments[2];
+    expect(report.decidedBy).toBe('any');
+    expect(report.matchedRules).toEqual([
+      'pattern:(private|secret|confidential|personal|sensitive)',
+      'pattern:(between|just|only)\\s+(us|ourselves|me and you)'
+    ]);
+    // Scores over their thresholds without rules of their own are named after the scorer
+    expect(report.triggeredBy).toEqual([...report.matchedRules, 'sensitivity-threshold']);
+    expect(Object.keys(report.scores)).toEqual(['patterns', 'introspection', 'sensitivity']);
+    expect(report.scores.patterns).toBe(1);
+    expect(report.thresholds).toEqual({
+      patterns: 0.5,
+      introspection: DEFAULT_CONFIG.privacy.introspectionThreshold,
+      sensitivity: DEFAULT_CONFIG.privacy.sensitivityThreshold
+    });
+    expect(detections).toEqual([expect.objectContaining({ matchedRules: report.triggeredBy, language: 'en' })]);
+  });
+  
+  it('names the stored thoughts in reference mode', async () => {
+    const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+    const result = await detector.processOutput('Fine.\n\nThis is confidential.\n\nAlso a secret.');
+    
+    expect(detector.redact('Fine.\n\nThis is confidential.\n\nAlso a secret.', result, 'reference', ['thought-1']))
+      .toBe('Fine.\n\n[private thought withheld: thought-1]\n\n[private thought withheld]');
+  });
+  
+  it.each([
+    [
+      'headings, lists and fenced code with CRLF line endings',
+      '# Plan\r\n\r\nBetween us, this is confidential.\r\n\r\n- check the logs\r\n- tag the release\r\n\r\n```sh\r\nnpm run deploy  \r\n```\r\n',
+      '# Plan\r\n\r\n\r\n\r\n- check the logs\r\n- tag the release\r\n\r\n```sh\r\nnpm run deploy  \r\n```\r\n'
+    ],
+    [
+      'a private list item',
+      '1. check the logs\n2. between us, this is confidential\n3. tag the release',
+      '1. check the logs\n2. \n3. tag the release'
+    ],
+    [
+      'a private heading',
+      '## Between us, a secret plan\n\nThe deploy runs at noon.',
+      '## \n\nThe deploy runs at noon.'
+    ],
+    [
+      'indentation, tabs, trailing spaces and non-ASCII text',
+      '  Café ☕ — the build is green.\t\n\nThis is confidential.\n\n  > quoted 引用  \n',
+      '  Café ☕ — the build is green.\t\n\n\n\n  > quoted 引用  \n'
+    ]
+  ])('keeps the public text of %s unchanged', async (_, text, expected) => {
+    const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+    const result = await detector.processOutput(text);
+    
+    expect(detector.redact(text, result, 'drop')).toBe(expected);
+    // Everything outside the private spans is kept as it is, in every mode
+    const [span] = result.privateSpans;
+    expect(result.privateSpans).toHaveLength(1);
+    expect(detector.redact(text, result, 'placeholder'))
+      .toBe(text.slice(0, span.start) + '[private thought withheld]' + text.slice(span.end));
+  });
+  
+  it('masks sensitive data without touching the text around it', async () => {
+    const detector = await createPrivacyDetector(DEFAULT_CONFIG.privacy);
+    const text = '- mail jane@example.com\r\n- call +1 415 555 0100\r\n\r\n```\r\nkeep  \r\n```';
+    
+    const { publicOutput } = await detector.processOutput(text);
+    
+    expect(publicOutput).toBe('- mail j****@example.com\r\n- call +* *** *** 0100\r\n\r\n```\r\nkeep  \r\n```');
+  });
+  
+  it('drops feature contributions from scorer details', () => {
+    expect(withoutContributions({
+      classifier: { modelVersion: 'nb-1', contributions: [{ feature: 'my doubts', weight: 1.2 }] }
+    })).toEqual({ classifier: { modelVersion: 'nb-1' } });
+    expect(withoutContributions(undefined)).toBeUndefined();
+  });
+});
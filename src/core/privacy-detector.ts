@@ -3,28 +3,62 @@
  * Analyzes LLM output to identify content the LLM organically considers private
  */
 
+import * as crypto from 'crypto';
 import { PrivacyConfig } from '../config.js';
-import { PrivacyAnalysisResult } from './types.js';
+import {
+  PrivacyAnalysisResult,
+  ScorerDetails,
+  SegmentReport,
+  SensitiveDataMatch,
+  TextSpan,
+  ThoughtDetection
+} from './types.js';
+import { Segment, maskInlineCode, segmentMarkdown, splitSentences, trimSpan } from './segmenter.js';
+import { findMarkup, validateMarkupConfig } from './markup.js';
+import { LanguagePack, detectLanguage, getLanguagePacks } from './languages/index.js';
+import { SensitiveDataDetector, maskSensitiveData } from './sensitive-data.js';
+import { CompiledRule, PrivacyScorer, ScorerInput, ScorerResult, compileRule, createScorers } from './scorers/index.js';
 import { PrivacyError } from '../utils/errors.js';
 
+/** Blocks of prose longer than this are analyzed sentence by sentence */
+const MAX_PARAGRAPH_LENGTH = 500;
+
+/** Text that replaces a private span in placeholder and reference modes */
+const PLACEHOLDER = '[private thought withheld]';
+
+/** Hex digits of the segment hashes in reports */
+const SEGMENT_HASH_LENGTH = 16;
+
+/** Threshold of scorers that do not set their own */
+const DEFAULT_SCORER_THRESHOLD = 0.5;
+
+/** Ways of combining scores */
+const COMBINE_MODES: PrivacyConfig['scoring']['combine'][] = ['any', 'weighted', 'rule'];
+
 /**
- * Processes LLM output to identify private thoughts without explicit markers
+ * The detector's verdict on a segment
+ */
+interface SegmentVerdict extends Pick<
+  SegmentReport,
+  'decidedBy' | 'triggeredBy' | 'matchedRules' | 'scores' | 'thresholds' | 'details' | 'aggregate'
+> {
+  /** Whether the segment is private */
+  isPrivate: boolean;
+}
+
+/**
+ * Processes LLM output to identify private thoughts without explicit markers.
+ * Each segment is scored by a pipeline of scorers (privacy patterns,
+ * introspection, sensitivity and any custom ones), combined as configured,
+ * with the language pack of the segment's detected language. Personal data
+ * and credentials are found separately and handled by their own policies.
  */
 export class PrivacyDetector {
   private readonly config: PrivacyConfig;
-  private privacyPatterns: RegExp[] = [];
-  
-  // Indicators that might suggest a thought is private (for contextual analysis)
-  private static readonly DEFAULT_PRIVACY_INDICATORS = [
-    /(private|secret|confidential|personal|sensitive)/i,
-    /(don't|do not|shouldn't|should not|wouldn't|would not)\s+(share|tell|reveal|disclose)/i,
-    /(between|just|only)\s+(us|ourselves|me and you)/i,
-    /keep\s+this\s+(to\s+yourself|private|secret|confidential)/i,
-    /(internal|introspective|inner)\s+(thought|reflection|monologue|dialogue)/i,
-    /(nobody|no one)\s+should\s+(know|hear|see|read)/i,
-    /if\s+I'm\s+being\s+honest/i,
-    /I\s+(wouldn't|won't|can't|cannot|don't)\s+(say|admit|acknowledge)\s+this\s+(publicly|openly)/i
-  ];
+  private packs: LanguagePack[] = [];
+  private sensitiveData: SensitiveDataDetector | null = null;
+  private scorers: PrivacyScorer[] = [];
+  private rule: CompiledRule | null = null;
   
   /**
    * Create a new PrivacyDetector
@@ -38,69 +72,149 @@ export class PrivacyDetector {
    * Initialize the privacy detector
    */
   public async initialize(): Promise<void> {
-    // Initialize patterns
-    this.privacyPatterns = PrivacyDetector.DEFAULT_PRIVACY_INDICATORS.slice();
+    validateMarkupConfig(this.config.markup);
     
-    // Add custom patterns if provided
-    if (this.config.customPatterns && this.config.customPatterns.length > 0) {
-      for (const pattern of this.config.customPatterns) {
-        try {
-          // Escape special regex characters to treat the pattern as literal text
-          const escapedPattern = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          this.privacyPatterns.push(new RegExp(escapedPattern, 'i'));
-          console.log(`Added privacy pattern: ${escapedPattern}`);
-        } catch (error) {
-          console.warn(`Invalid regex pattern: ${pattern}. Error: ${(error as Error).message}`);
-        }
-      }
+    const { combine, rule } = this.config.scoring;
+    if (!COMBINE_MODES.includes(combine)) {
+      throw new PrivacyError(
+        `privacy.scoring.combine must be one of: ${COMBINE_MODES.join(', ')}`,
+        'INVALID_CONFIG'
+      );
+    }
+    
+    this.packs = getLanguagePacks(this.config.languages);
+    if (this.config.sensitiveData.enabled) {
+      this.sensitiveData = new SensitiveDataDetector(this.config.sensitiveData);
+    }
+    console.log(`Privacy languages: ${this.packs.map(pack => pack.code).join(', ')}`);
+    
+    // Built-in and custom scorers
+    this.scorers = await createScorers(this.config, this.packs);
+    console.log(`Privacy scorers: ${this.scorers.map(scorer => scorer.name).join(', ')} (combined with ${combine})`);
+    
+    if (combine === 'rule') {
+      this.rule = compileRule(rule, [...this.scorers.map(scorer => scorer.name), 'score']);
     }
   }
   
   /**
-   * Process LLM output to identify and extract private thoughts
+   * Process LLM output to identify and extract private thoughts.
+   * Content in explicit privacy markup is private or public as marked, and
+   * the markers are stripped; the rest is split into segments analyzed as
+   * character spans of the original text, so removing the private ones
+   * leaves the formatting of the rest intact.
    * @param text The raw text output from the LLM
    * @returns Analysis result with public output and private thoughts
+   * @throws PrivacyError with code PRIVACY_MALFORMED_MARKUP if the markup is malformed
    */
   public async processOutput(text: string): Promise<PrivacyAnalysisResult> {
     try {
-      // Split text into segments for analysis
-      const segments = this.splitIntoSegments(text);
+      const marked = findMarkup(text, this.config.markup);
       
-      const publicSegments: string[] = [];
-      const privateThoughts: string[] = [];
+      // Private thoughts found so far, ordered by position once complete
+      const found: { span: TextSpan; thought: string; detection: ThoughtDetection }[] = [];
+      const markupSpans: TextSpan[] = [];
+      const reports: SegmentReport[] = [];
       
-      // Debug information (optional)
-      const introspectionScores: Record<string, number> = {};
-      const sensitivityScores: Record<string, number> = {};
+      for (const { kind, content, ...span } of marked) {
+        reports.push({
+          ...span,
+          kind: 'markup',
+          decision: kind,
+          hash: hashSegment(text.slice(content.start, content.end)),
+          decidedBy: `markup:${kind}`,
+          triggeredBy: kind === 'private' ? ['markup:private'] : [],
+          matchedRules: [],
+          scores: {},
+          thresholds: {}
+        });
+        
+        if (kind === 'private' && content.end > content.start) {
+          found.push({
+            span,
+            thought: text.slice(content.start, content.end),
+            detection: { introspectionScore: 0, sensitivityScore: 0, matchedRules: ['markup:private'] }
+          });
+        } else if (kind === 'private') {
+          // Nothing to store, but the empty markup still goes
+          markupSpans.push(span);
+        } else {
+          markupSpans.push({ start: span.start, end: content.start }, { start: content.end, end: span.end });
+        }
+      }
+      
+      // Split the unmarked text into segments for analysis
+      const segments = this.splitIntoSegments(text).flatMap(segment =>
+        removeSpans(text, segment, marked).map(span => ({ kind: segment.kind, ...span }))
+      );
       
       // Analyze each segment
-      for (const segment of segments) {
-        const introspectionScore = this.calculateIntrospectionScore(segment);
-        const sensitivityScore = this.calculateSensitivityScore(segment);
+      for (const { kind, ...span } of segments) {
+        const segment = text.slice(span.start, span.end);
+        
+        if (kind === 'code' && this.config.codeBlocks !== 'analyze') {
+          reports.push({
+            ...span,
+            kind,
+            decision: 'skipped',
+            hash: hashSegment(segment),
+            decidedBy: 'code-excluded',
+            triggeredBy: [],
+            matchedRules: [],
+            scores: {},
+            thresholds: {}
+          });
+          continue;
+        }
         
-        // Store scores for debugging
-        introspectionScores[segment.slice(0, 30) + '...'] = introspectionScore;
-        sensitivityScores[segment.slice(0, 30) + '...'] = sensitivityScore;
+        // Inline code in prose is not analyzed
+        const input = kind === 'code' ? segment : maskInlineCode(segment);
+        const language = detectLanguage(input, this.packs).code;
+        const { isPrivate, ...verdict } = await this.scoreSegment({ text: input, kind, language });
+        reports.push({
+          ...span,
+          kind,
+          language,
+          decision: isPrivate ? 'private' : 'public',
+          hash: hashSegment(segment),
+          ...verdict
+        });
         
-        if (this.isLikelyPrivate(segment, introspectionScore, sensitivityScore)) {
-          privateThoughts.push(segment);
-        } else {
-          publicSegments.push(segment);
+        if (isPrivate) {
+          found.push({
+            span,
+            thought: segment,
+            detection: {
+              introspectionScore: verdict.scores.introspection ?? 0,
+              sensitivityScore: verdict.scores.sensitivity ?? 0,
+              scores: verdict.scores,
+              details: withoutContributions(verdict.details),
+              language,
+              matchedRules: verdict.triggeredBy
+            }
+          });
         }
       }
       
-      // Rejoin public segments
-      const publicOutput = publicSegments.join(' ');
+      const sensitiveData = this.handleSensitiveData(text, found);
+      
+      found.sort((a, b) => a.span.start - b.span.start);
+      reports.sort((a, b) => a.start - b.start);
+      const privateSpans = found.map(({ span }) => span);
       
       return {
-        publicOutput,
-        privateThoughts,
-        scores: {
-          introspectionScores,
-          sensitivityScores
-        }
+        publicOutput: this.redact(text, { privateSpans, markupSpans, sensitiveData }),
+        privateThoughts: found.map(({ thought }) => thought),
+        privateSpans,
+        markupSpans,
+        segments: reports,
+        sensitiveData,
+        detections: found.map(({ detection }) => detection)
       };
     } catch (error) {
+      if (error instanceof PrivacyError) {
+        throw error;
+      }
       throw new PrivacyError(
         `Failed to process output: ${(error as Error).message}`,
         'PROCESS_FAILED'
@@ -109,118 +223,264 @@ export class PrivacyDetector {
   }
   
   /**
-   * Split text into logical segments (paragraphs) for analysis
-   * @param text The text to split
-   * @returns List of text segments
+   * Redact private spans from a text, mask sensitive data and strip the
+   * privacy markup, leaving everything else unchanged. In reference mode,
+   * each placeholder names the stored thought; spans without a thought id
+   * get a plain placeholder.
+   * @param text The original text
+   * @param analysis Private spans, markup spans and sensitive data from processOutput
+   * @param mode Redaction mode (defaults to the configured one)
+   * @param thoughtIds Ids of the stored thoughts, in the same order as the private spans
+   * @returns The public output
    */
-  private splitIntoSegments(text: string): string[] {
-    // Split by paragraph breaks
-    const segments = text.split(/\n\s*\n/);
-    
-    const result: string[] = [];
-    for (const segment of segments) {
-      if (segment.trim().length > 500) {  // If segment is very long
-        // Split by sentence-ending punctuation
-        const sentenceSplits = segment.split(/(?<=[.!?])\s+/);
-        result.push(...sentenceSplits);
-      } else {
-        result.push(segment);
-      }
-    }
+  public redact(
+    text: string,
+    analysis: Pick<PrivacyAnalysisResult, 'privateSpans' | 'markupSpans' | 'sensitiveData'>,
+    mode: PrivacyConfig['redactionMode'] = this.config.redactionMode,
+    thoughtIds: string[] = []
+  ): string {
+    const edits = [
+      ...analysis.privateSpans.map((span, index) => ({ span, replacement: placeholder(mode, thoughtIds[index]) })),
+      ...analysis.markupSpans.map(span => ({ span, replacement: '' })),
+      ...analysis.sensitiveData
+        .filter(match => match.replacement !== undefined)
+        .map(({ start, end, replacement }) => ({ span: { start, end }, replacement: replacement! }))
+    ].sort((a, b) => a.span.start - b.span.start);
     
-    return result.map(s => s.trim()).filter(s => s.length > 0);
+    return replaceSpans(text, edits.map(({ span }) => span), index => edits[index].replacement);
   }
   
   /**
-   * Determine if a segment of text is likely to be a private thought
-   * @param text The text segment to analyze
-   * @param introspectionScore Pre-calculated introspection score (optional)
-   * @param sensitivityScore Pre-calculated sensitivity score (optional)
-   * @returns True if the segment is likely private, false otherwise
+   * Find the sensitive data in a text and apply the policy of its type.
+   * Data inside a private thought goes with the thought, which records its
+   * type; data to encrypt elsewhere becomes a private thought of its own.
+   * @param text The text
+   * @param found Private thoughts found so far, completed in place
+   * @returns Every occurrence, with how it was handled
    */
-  private isLikelyPrivate(
-    text: string, 
-    introspectionScore?: number, 
-    sensitivityScore?: number
-  ): boolean {
-    // Check explicit privacy indicators
-    for (const pattern of this.privacyPatterns) {
-      if (pattern.test(text)) {
-        return true;
-      }
-    }
+  private handleSensitiveData(
+    text: string,
+    found: { span: TextSpan; thought: string; detection: ThoughtDetection }[]
+  ): SensitiveDataMatch[] {
+    const thoughts = found.slice();
+    const matches: SensitiveDataMatch[] = [];
     
-    // Calculate scores if not provided
-    const finalIntrospectionScore = introspectionScore ?? this.calculateIntrospectionScore(text);
-    if (finalIntrospectionScore > this.config.introspectionThreshold) {
-      return true;
-    }
-    
-    const finalSensitivityScore = sensitivityScore ?? this.calculateSensitivityScore(text);
-    if (finalSensitivityScore > this.config.sensitivityThreshold) {
-      return true;
+    for (const { type, start, end } of this.sensitiveData?.find(text) ?? []) {
+      const owner = thoughts.find(({ span }) => span.start < end && start < span.end);
+      if (owner) {
+        owner.detection.sensitiveDataTypes = [...new Set([...owner.detection.sensitiveDataTypes ?? [], type])];
+        matches.push({ type, start, end, handling: 'private' });
+        continue;
+      }
+      
+      const value = text.slice(start, end);
+      switch (this.sensitiveData!.policyOf(type)) {
+        case 'encrypt':
+          found.push({
+            span: { start, end },
+            thought: value,
+            detection: {
+              introspectionScore: 0,
+              sensitivityScore: 0,
+              sensitiveDataTypes: [type],
+              matchedRules: [`sensitive-data:${type}`]
+            }
+          });
+          matches.push({ type, start, end, handling: 'encrypted' });
+          break;
+        case 'mask':
+          matches.push({ type, start, end, handling: 'masked', replacement: maskSensitiveData(type, value) });
+          break;
+        default:
+          matches.push({ type, start, end, handling: 'passed' });
+      }
     }
     
-    return false;
+    return matches;
   }
   
   /**
-   * Calculate a score indicating how introspective a piece of text is
-   * @param text The text to analyze
-   * @returns A score from 0.0 to 1.0 indicating introspection level
+   * Split text into logical segments for analysis: the Markdown blocks of
+   * the text, with list items and table rows evaluated individually
+   * @param text The text to split
+   * @returns Segments in order, without surrounding whitespace
    */
-  private calculateIntrospectionScore(text: string): number {
-    // Count first-person pronouns and introspective verbs
-    const firstPerson = (text.match(/\b(I|me|my|mine|myself)\b/gi) || []).length;
-    const thinkingVerbs = (text.match(/\b(think|feel|believe|wonder|question|doubt|reflect)\b/gi) || []).length;
+  private splitIntoSegments(text: string): Segment[] {
+    const result: Segment[] = [];
     
-    // Count words that might indicate uncertainty or personal opinion
-    const uncertainty = (text.match(/\b(maybe|perhaps|possibly|might|could be|uncertain|unsure)\b/gi) || []).length;
-    
-    // Calculate word count for normalization
-    const wordCount = text.split(/\s+/).length;
-    if (wordCount === 0) {
-      return 0.0;
+    for (const block of segmentMarkdown(text)) {
+      if (block.kind !== 'code' && block.end - block.start > MAX_PARAGRAPH_LENGTH) {
+        // Split long prose into sentences, by the rules of its language
+        const language = detectLanguage(text.slice(block.start, block.end), this.packs).code;
+        for (const sentence of splitSentences(text, block, language)) {
+          result.push({ kind: block.kind, ...sentence });
+        }
+      } else {
+        result.push(block);
+      }
     }
     
-    // Calculate normalized score
-    const introspectionIndicators = firstPerson + thinkingVerbs + uncertainty;
-    return Math.min(1.0, introspectionIndicators / (wordCount * 0.3));  // Scale factor can be adjusted
+    return result.filter(segment => segment.end > segment.start);
   }
   
   /**
-   * Calculate a score indicating how sensitive the content might be
-   * @param text The text to analyze
-   * @returns A score from 0.0 to 1.0 indicating sensitivity level
+   * Run the scorers on a segment and combine their scores, unless a scorer
+   * forces the verdict
+   * @param input The segment
+   * @returns The verdict, with each scorer's score and threshold and the rules that matched
    */
-  private calculateSensitivityScore(text: string): number {
-    // Topics that might be considered sensitive
-    const sensitiveTopics = [
-      /\b(controversial|controversy|contentious|dispute|disagreement)\b/gi,
-      /\b(personal|private|intimate|secret)\b/gi,
-      /\b(worry|concern|afraid|fear|anxious|anxiety)\b/gi,
-      /\b(critique|criticism|critical|flaw|weakness|shortcoming)\b/gi,
-    ];
+  private async scoreSegment(input: ScorerInput): Promise<SegmentVerdict> {
+    const { combine, weights, threshold, rule } = this.config.scoring;
+    const scores: Record<string, number> = {};
+    const thresholds: Record<string, number> = {};
+    const details: Record<string, ScorerDetails> = {};
+    const matchedRules: string[] = [];
+    // Rules of the forced verdicts and of the scores over their thresholds
+    const decisive: string[] = [];
+    let anyExceeded = false;
+    let forced: ScorerResult['verdict'];
+    let weightedSum = 0;
+    let totalWeight = 0;
     
-    // Count mentions of sensitive topics
-    const topicMentions = sensitiveTopics.reduce(
-      (sum, pattern) => sum + (text.match(pattern) || []).length,
-      0
-    );
+    for (const scorer of this.scorers) {
+      const weight = weights[scorer.name] ?? 1;
+      // Code is only scored by scorers that understand it
+      if (weight === 0 || (input.kind === 'code' && !scorer.scoresCode)) {
+        continue;
+      }
+      
+      const result = await scorer.score(input);
+      if (typeof result?.score !== 'number' || Number.isNaN(result.score)) {
+        throw new PrivacyError(`Scorer "${scorer.name}" returned an invalid score`, 'SCORER_FAILED');
+      }
+      const score = Math.min(1.0, Math.max(0.0, result.score));
+      scores[scorer.name] = score;
+      thresholds[scorer.name] = scorer.threshold ?? DEFAULT_SCORER_THRESHOLD;
+      matchedRules.push(...(result.matchedRules ?? []));
+      if (result.details) {
+        details[scorer.name] = result.details;
+      }
+      weightedSum += weight * score;
+      totalWeight += weight;
+      
+      if (result.verdict) {
+        forced = result.verdict === 'private' || forced === 'private' ? 'private' : 'public';
+      }
+      const exceeded = score > thresholds[scorer.name];
+      anyExceeded ||= exceeded;
+      if (exceeded || result.verdict) {
+        decisive.push(...(result.matchedRules?.length ? result.matchedRules : [`${scorer.name}-threshold`]));
+      }
+    }
     
-    // Count cautionary phrases
-    const cautionPhrases = (text.match(/\b(careful|cautious|warning|between us|not for|hesitant)\b/gi) || []).length;
+    const verdict = (
+      isPrivate: boolean,
+      decidedBy: string,
+      triggeredBy: string[],
+      aggregate?: SegmentVerdict['aggregate']
+    ): SegmentVerdict => ({
+      isPrivate,
+      decidedBy,
+      triggeredBy: isPrivate ? triggeredBy : [],
+      matchedRules,
+      scores,
+      thresholds,
+      details: Object.keys(details).length > 0 ? details : undefined,
+      aggregate
+    });
     
-    // Calculate word count for normalization
-    const wordCount = text.split(/\s+/).length;
-    if (wordCount === 0) {
-      return 0.0;
+    if (forced) {
+      return verdict(forced === 'private', 'forced', decisive);
     }
     
-    // Calculate normalized score
-    const sensitivityIndicators = topicMentions + (cautionPhrases * 2);  // Weight caution phrases more heavily
-    return Math.min(1.0, sensitivityIndicators / (wordCount * 0.25));  // Scale factor can be adjusted
+    const score = totalWeight > 0 ? weightedSum / totalWeight : 0;
+    switch (combine) {
+      case 'weighted':
+        return verdict(score > threshold, 'weighted', [...decisive, 'weighted-threshold'], { score, threshold });
+      case 'rule':
+        return verdict(this.rule!({ ...scores, score }), 'rule', [...decisive, 'rule'], { score, rule });
+      default:
+        return verdict(anyExceeded, 'any', decisive);
+    }
+  }
+}
+
+/**
+ * Remove spans from a span of text
+ * @param text The whole text
+ * @param span The span to cut
+ * @param holes Non-overlapping spans to remove, in order
+ * @returns The remaining parts, trimmed of whitespace and never empty
+ */
+function removeSpans(text: string, span: TextSpan, holes: TextSpan[]): TextSpan[] {
+  const parts: TextSpan[] = [];
+  let start = span.start;
+  for (const hole of holes) {
+    if (hole.end <= start || hole.start >= span.end) {
+      continue;
+    }
+    parts.push({ start, end: Math.max(start, hole.start) });
+    start = hole.end;
+  }
+  parts.push({ start, end: Math.max(start, span.end) });
+  return parts.map(part => trimSpan(text, part)).filter(part => part.end > part.start);
+}
+
+/**
+ * Get the text that replaces a private span
+ * @param mode Redaction mode
+ * @param thoughtId Id of the stored thought, if known
+ */
+function placeholder(mode: PrivacyConfig['redactionMode'], thoughtId?: string): string {
+  if (mode === 'drop') {
+    return '';
+  }
+  if (mode === 'reference' && thoughtId) {
+    return `[private thought withheld: ${thoughtId}]`;
+  }
+  return PLACEHOLDER;
+}
+
+/**
+ * Hash a segment for reports, so segments can be told apart and compared
+ * across runs without showing their text
+ * @param segment The segment's text
+ */
+function hashSegment(segment: string): string {
+  return crypto.createHash('sha256').update(segment, 'utf8').digest('hex').slice(0, SEGMENT_HASH_LENGTH);
+}
+
+/**
+ * Drop the feature contributions from scorer details; they quote words of
+ * the segment, so they must not be shown for private segments
+ * @param details Scorer details by scorer name
+ */
+export function withoutContributions(
+  details: Record<string, ScorerDetails> | undefined
+): Record<string, ScorerDetails> | undefined {
+  return details && Object.fromEntries(
+    Object.entries(details).map(([name, { contributions, ...rest }]) => [name, rest])
+  );
+}
+
+/**
+ * Replace spans of a text, keeping everything around them unchanged
+ * @param text The text
+ * @param spans Non-overlapping spans, in order
+ * @param replacement Gives the replacement of the span at an index
+ */
+function replaceSpans(
+  text: string,
+  spans: TextSpan[],
+  replacement: (index: number) => string
+): string {
+  let result = '';
+  let position = 0;
+  for (const [index, span] of spans.entries()) {
+    result += text.slice(position, span.start) + replacement(index);
+    position = span.end;
   }
+  return result + text.slice(position);
 }
 
 /**
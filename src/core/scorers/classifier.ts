@@ -0,0 +1,36 @@
+/**
+ * Classifier scorer for LLM-Secrets MCP server
+ * Scores segments with the local statistical classifier trained by the
+ * train-classifier command.
+ */
+
+import { NaiveBayesClassifier } from '../classifier.js';
+import { PrivacyScorer, ScorerInput, ScorerResult } from './types.js';
+
+/**
+ * Scores the probability, estimated by a trained model, that a segment is private
+ */
+export class ClassifierScorer implements PrivacyScorer {
+  public readonly name = 'classifier';
+  
+  /**
+   * Create a new ClassifierScorer
+   * @param classifier Classifier over the trained model
+   * @param threshold Probability above which a segment is private (0.0-1.0)
+   * @param topFeatures Number of strongest features reported with each score
+   */
+  constructor(
+    private readonly classifier: NaiveBayesClassifier,
+    public readonly threshold: number,
+    private readonly topFeatures: number
+  ) {}
+  
+  /**
+   * Estimate the probability that the segment is private
+   * @returns The probability, with the model version and the features that weighed most
+   */
+  public score({ text }: ScorerInput): ScorerResult {
+    const { probability, ...details } = this.classifier.predict(text, this.topFeatures);
+    return { score: probability, details };
+  }
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CustomPatternConfig } from '../../config.js';
+import { PrivacyError } from '../../utils/errors.js';
+import { compileCustomPatterns } from './custom-patterns.js';
+import { PatternScorer } from './patterns.js';
+import { getLanguagePacks } from '../languages/index.js';
+
+/**
+ * Compile patterns and return the error they are rejected with
+ */
+function rejection(patterns: (string | CustomPatternConfig)[]): PrivacyError {
+  try {
+    compileCustomPatterns(patterns);
+  } catch (error) {
+    return error as PrivacyError;
+  }
+  throw new Error('Expected the patterns to be rejected');
+}
+
+describe('compileCustomPatterns', () => {
+  it('compiles strings and pattern objects with their options', () => {
+    const [plain, options] = compileCustomPatterns([
+      'internal note',
+      { pattern: 'project\\s+\\w+', flags: 'i', description: 'project name', weight: 0.4, action: 'force-private' }
+    ]);
+    
+    expect(plain).toMatchObject({ description: 'internal note', weight: 1.0, action: undefined });
+    expect(plain.regex.test('INTERNAL NOTE')).toBe(false);
+    expect(options).toMatchObject({ description: 'project name', weight: 0.4, action: 'force-private' });
+    expect(options.regex.test('PROJECT Falcon')).toBe(true);
+  });
+  
+  it('translates a leading inline flag group', () => {
+    const [pattern] = compileCustomPatterns([{ pattern: '(?i)secret', flags: 'm' }]);
+    
+    expect(pattern.regex.source).toBe('secret');
+    expect(pattern.regex.flags).toBe('im');
+    expect(pattern.description).toBe('(?i)secret');
+  });
+  
+  it('never compiles global patterns, so matching has no state', () => {
+    const [pattern] = compileCustomPatterns(['secret']);
+    
+    expect([pattern.regex.test('secret'), pattern.regex.test('secret')]).toEqual([true, true]);
+  });
+  
+  it.each([
+    ['invalid syntax', '(unclosed'],
+    ['inline flags after the start', 'a(?i)b'],
+    ['unsupported flags', { pattern: 'a', flags: 'g' }],
+    ['nested quantifiers', '(a+)+$'],
+    ['repeated alternatives', '(a|a)*'],
+    ['empty alternatives', '(a|)+'],
+    ['unknown options', { pattern: 'a', flag: 'i' } as CustomPatternConfig],
+    ['negative weights', { pattern: 'a', weight: -1 }],
+    ['unknown actions', { pattern: 'a', action: 'force-secret' } as unknown as CustomPatternConfig],
+    ['empty patterns', ''],
+    ['overlong patterns', 'a'.repeat(1001)]
+  ])('rejects %s', (_, pattern) => {
+    expect(rejection([pattern])).toMatchObject({ code: 'PRIVACY_INVALID_PATTERNS' });
+  });
+  
+  it('accepts bounded repetition of groups', () => {
+    expect(compileCustomPatterns(['(ab)+', '(a+){2}', '(?:x|y)*', '[(a+)]+'])).toHaveLength(4);
+  });
+  
+  it('lists every rejected pattern', () => {
+    const error = rejection(['fine', '(a+)+', '[', 'also fine']);
+    
+    expect(error.message).toContain('Rejected 2 of 4');
+    expect(error.details).toEqual([
+      expect.stringContaining('customPatterns[1] "(a+)+"'),
+      expect.stringContaining('customPatterns[2] "["')
+    ]);
+  });
+});
+
+describe('PatternScorer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('adds up the weights of matching patterns and forces the verdicts of actions', () => {
+    const scorer = new PatternScorer(
+      compileCustomPatterns([
+        { pattern: 'alpha', weight: 0.3 },
+        { pattern: 'beta', weight: 0.3 },
+        { pattern: 'public', action: 'force-public' },
+        { pattern: 'private', action: 'force-private' }
+      ]),
+      getLanguagePacks(['en'])
+    );
+    
+    expect(scorer.score({ text: 'alpha beta', kind: 'paragraph', language: 'en' }))
+      .toEqual({ score: 0.6, matchedRules: ['pattern:alpha', 'pattern:beta'] });
+    expect(scorer.score({ text: 'public', kind: 'paragraph', language: 'en' }).verdict).toBe('public');
+    expect(scorer.score({ text: 'public and private', kind: 'paragraph', language: 'en' }).verdict).toBe('private');
+  });
+});
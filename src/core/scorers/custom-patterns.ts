@@ -0,0 +1,236 @@
+/**
+ * Custom privacy patterns for LLM-Secrets MCP server
+ * Compiles privacy.customPatterns into regular expressions, translating a
+ * leading inline flag group and rejecting patterns that are invalid or
+ * risk catastrophic backtracking before the server starts.
+ */
+
+import { CustomPatternConfig } from '../../config.js';
+import { PrivacyError } from '../../utils/errors.js';
+
+/**
+ * A compiled privacy pattern
+ */
+export interface PrivacyPattern {
+  /** The regular expression (never global, so test() has no state) */
+  regex: RegExp;
+  /** Name of the pattern in matched rules */
+  description: string;
+  /** Contribution of a match to the patterns score */
+  weight: number;
+  /** Verdict forced by a match, if any */
+  action?: CustomPatternConfig['action'];
+}
+
+/**
+ * A group of a pattern being checked for backtracking risks
+ */
+interface Group {
+  /** Offset of the opening parenthesis */
+  start: number;
+  /** Offset where the content starts, after any group prefix */
+  contentStart: number;
+  /** Whether the content has an unbounded quantifier */
+  unbounded: boolean;
+  /** Offsets of the top-level "|" in the content */
+  bars: number[];
+}
+
+/** Flags a pattern may use; g and y would make test() stateful */
+const ALLOWED_FLAGS = 'imsu';
+/** Longest accepted pattern */
+const MAX_PATTERN_LENGTH = 1000;
+/** Option keys of a pattern object */
+const PATTERN_KEYS = ['pattern', 'flags', 'description', 'weight', 'action'];
+/** Verdicts a pattern can force */
+const ACTIONS: NonNullable<CustomPatternConfig['action']>[] = ['force-private', 'force-public'];
+/** Leading inline flag group, e.g. (?i) */
+const INLINE_FLAGS = /^\(\?([A-Za-z]+)\)/;
+/** Inline flag group anywhere else, which JavaScript does not support */
+const LATE_INLINE_FLAGS = /\(\?[A-Za-z]+\)/;
+/** Group prefixes that are not quantifiers */
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/;
+/** Quantifier at the start of a string; group 1 is set for unbounded ones */
+const QUANTIFIER = /^(?:([*+]|\{\d+,\})|\?|\{\d+(?:,\d+)?\})\??/;
+
+/**
+ * Compile the custom privacy patterns
+ * @param patterns Patterns from privacy.customPatterns
+ * @returns The compiled patterns, in order
+ * @throws PrivacyError with code PRIVACY_INVALID_PATTERNS listing every rejected pattern
+ */
+export function compileCustomPatterns(patterns: (string | CustomPatternConfig)[]): PrivacyPattern[] {
+  const compiled: PrivacyPattern[] = [];
+  const problems: string[] = [];
+  
+  for (const [index, entry] of patterns.entries()) {
+    try {
+      compiled.push(compilePattern(entry));
+    } catch (error) {
+      const source = typeof entry === 'string' ? entry : entry?.pattern;
+      problems.push(`customPatterns[${index}] ${JSON.stringify(source)}: ${(error as Error).message}`);
+    }
+  }
+  
+  if (problems.length > 0) {
+    throw new PrivacyError(
+      `Rejected ${problems.length} of ${patterns.length} custom privacy pattern(s):\n  ${problems.join('\n  ')}`,
+      'INVALID_PATTERNS',
+      problems
+    );
+  }
+  
+  return compiled;
+}
+
+/**
+ * Compile one custom pattern
+ * @throws Error describing why the pattern is rejected
+ */
+function compilePattern(entry: string | CustomPatternConfig): PrivacyPattern {
+  const options: CustomPatternConfig = typeof entry === 'string' ? { pattern: entry } : entry;
+  if (!options || typeof options !== 'object' || typeof options.pattern !== 'string' || options.pattern.length === 0) {
+    throw new Error('expected a non-empty pattern string or an object with a "pattern"');
+  }
+  
+  const unknown = Object.keys(options).filter(key => !PATTERN_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`unknown option(s) ${unknown.join(', ')} (expected ${PATTERN_KEYS.join(', ')})`);
+  }
+  if (options.weight !== undefined && (typeof options.weight !== 'number' || !(options.weight >= 0) || options.weight === Infinity)) {
+    throw new Error('weight must be a non-negative number');
+  }
+  if (options.action !== undefined && !ACTIONS.includes(options.action)) {
+    throw new Error(`action must be one of: ${ACTIONS.join(', ')}`);
+  }
+  if (options.description !== undefined && typeof options.description !== 'string') {
+    throw new Error('description must be a string');
+  }
+  if (options.pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  
+  // Translate a leading (?flags) group into regex flags
+  let source = options.pattern;
+  let flags = options.flags ?? '';
+  const inline = INLINE_FLAGS.exec(source);
+  if (inline) {
+    source = source.slice(inline[0].length);
+    flags += inline[1];
+  }
+  if (LATE_INLINE_FLAGS.test(source)) {
+    throw new Error('inline flags such as (?i) are only supported at the start of the pattern');
+  }
+  const invalidFlags = [...flags].filter(flag => !ALLOWED_FLAGS.includes(flag));
+  if (invalidFlags.length > 0) {
+    throw new Error(`unsupported flag(s) "${invalidFlags.join('')}" (supported: ${ALLOWED_FLAGS})`);
+  }
+  
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, [...new Set(flags)].join(''));
+  } catch (error) {
+    throw new Error((error as Error).message);
+  }
+  
+  const risk = findBacktrackingRisk(source);
+  if (risk) {
+    throw new Error(`${risk}, which risks catastrophic backtracking`);
+  }
+  
+  return {
+    regex,
+    description: options.description ?? options.pattern,
+    weight: options.weight ?? 1.0,
+    action: options.action
+  };
+}
+
+/**
+ * Look for the constructs behind catastrophic backtracking: an unbounded
+ * quantifier applied to a group that already contains one, as in (a+)+, or
+ * to a group whose alternatives repeat or can be empty, as in (a|a)*.
+ * This is a conservative check of a valid pattern, not a full analysis.
+ * @param source Source of a valid regular expression
+ * @returns A description of the risk, or null if none was found
+ */
+function findBacktrackingRisk(source: string): string | null {
+  const stack: Group[] = [{ start: 0, contentStart: 0, unbounded: false, bars: [] }];
+  // The atom the next quantifier applies to
+  let atom: { group?: Group; end: number } | null = null;
+  
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    
+    if (char === '\\') {
+      index++;
+      atom = { end: index + 1 };
+    } else if (char === '[') {
+      // Skip the character class, whose content has no quantifiers
+      index++;
+      while (index < source.length && source[index] !== ']') {
+        index += source[index] === '\\' ? 2 : 1;
+      }
+      atom = { end: index + 1 };
+    } else if (char === '(') {
+      const prefix = GROUP_PREFIX.exec(source.slice(index + 1));
+      const contentStart = index + 1 + (prefix ? prefix[0].length : 0);
+      stack.push({ start: index, contentStart, unbounded: false, bars: [] });
+      index = contentStart - 1;
+      atom = null;
+    } else if (char === ')') {
+      const group = stack.pop()!;
+      stack[stack.length - 1].unbounded ||= group.unbounded;
+      atom = { group, end: index + 1 };
+    } else if (char === '|') {
+      stack[stack.length - 1].bars.push(index);
+      atom = null;
+    } else {
+      const quantifier = QUANTIFIER.exec(source.slice(index));
+      if (!quantifier) {
+        atom = { end: index + 1 };
+        continue;
+      }
+      
+      const unbounded = quantifier[1] !== undefined;
+      if (unbounded && atom?.group) {
+        const { group } = atom;
+        const text = source.slice(group.start, atom.end);
+        if (group.unbounded) {
+          return `nested quantifier in ${text}`;
+        }
+        const alternatives = splitAlternatives(source, group, atom.end - 1);
+        if (alternatives.length > 1 && alternatives.some(alternative => alternative.length === 0)) {
+          return `empty alternative in repeated group ${text}`;
+        }
+        if (new Set(alternatives).size < alternatives.length) {
+          return `repeated alternative in repeated group ${text}`;
+        }
+      }
+      if (unbounded) {
+        stack[stack.length - 1].unbounded = true;
+      }
+      index += quantifier[0].length - 1;
+      atom = null;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Get the top-level alternatives of a group
+ * @param source Source of the pattern
+ * @param group The group
+ * @param end Offset of the closing parenthesis
+ */
+function splitAlternatives(source: string, group: Group, end: number): string[] {
+  const alternatives: string[] = [];
+  let start = group.contentStart;
+  for (const bar of group.bars) {
+    alternatives.push(source.slice(start, bar));
+    start = bar + 1;
+  }
+  alternatives.push(source.slice(start, end));
+  return alternatives;
+}
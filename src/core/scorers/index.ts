@@ -0,0 +1,84 @@
+/**
+ * Privacy scorers index - creates the built-in scorers and loads the custom ones
+ */
+
+import { PrivacyConfig } from '../../config.js';
+import { PrivacyScorer } from './types.js';
+import { PrivacyError } from '../../utils/errors.js';
+import { PatternScorer } from './patterns.js';
+import { IntrospectionScorer } from './introspection.js';
+import { SensitivityScorer } from './sensitivity.js';
+import { ClassifierScorer } from './classifier.js';
+import { loadScorerModules } from './modules.js';
+import { compileCustomPatterns } from './custom-patterns.js';
+import { NaiveBayesClassifier, loadClassifierModel } from '../classifier.js';
+import { LanguagePack } from '../languages/index.js';
+
+/**
+ * Create the built-in scorers and load the scorers of the configured modules
+ * @param config Privacy configuration
+ * @param packs Configured language packs, the fallback first
+ * @returns All scorers, built-in ones first
+ * @throws PrivacyError if a custom pattern is rejected, the classifier model is invalid, a module cannot be loaded, two scorers share a name or a weight names no scorer
+ */
+export async function createScorers(config: PrivacyConfig, packs: LanguagePack[]): Promise<PrivacyScorer[]> {
+  const scorers: PrivacyScorer[] = [
+    new PatternScorer(compileCustomPatterns(config.customPatterns ?? []), packs),
+    new IntrospectionScorer(config.introspectionThreshold, packs),
+    new SensitivityScorer(config.sensitivityThreshold, packs),
+    ...await createClassifierScorers(config.classifier),
+    ...await loadScorerModules(config.scoring.modules, config)
+  ];
+  
+  const names = new Set<string>();
+  for (const scorer of scorers) {
+    if (names.has(scorer.name) || scorer.name === 'score') {
+      throw new PrivacyError(`Duplicate or reserved scorer name: ${scorer.name}`, 'INVALID_CONFIG');
+    }
+    names.add(scorer.name);
+  }
+  
+  for (const [name, weight] of Object.entries(config.scoring.weights)) {
+    if (!names.has(name)) {
+      throw new PrivacyError(
+        `privacy.scoring.weights names an unknown scorer "${name}" (scorers: ${[...names].join(', ')})`,
+        'INVALID_CONFIG'
+      );
+    }
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      throw new PrivacyError(`Weight of scorer "${name}" must be a non-negative number`, 'INVALID_CONFIG');
+    }
+  }
+  
+  return scorers;
+}
+
+/**
+ * Create the classifier scorer if a model is configured
+ * @param config Classifier configuration
+ */
+async function createClassifierScorers(config: PrivacyConfig['classifier']): Promise<PrivacyScorer[]> {
+  if (!config.modelFile) {
+    return [];
+  }
+  if (!(config.threshold >= 0 && config.threshold <= 1)) {
+    throw new PrivacyError('privacy.classifier.threshold must be between 0 and 1', 'INVALID_CONFIG');
+  }
+  if (!Number.isInteger(config.topFeatures) || config.topFeatures < 0) {
+    throw new PrivacyError('privacy.classifier.topFeatures must be a non-negative integer', 'INVALID_CONFIG');
+  }
+  
+  const model = await loadClassifierModel(config.modelFile);
+  console.log(`Privacy classifier: model ${model.version} from ${config.modelFile}`);
+  return [new ClassifierScorer(new NaiveBayesClassifier(model), config.threshold, config.topFeatures)];
+}
+
+export * from './types.js';
+export { compileRule } from './rule.js';
+export type { CompiledRule } from './rule.js';
+export { PatternScorer } from './patterns.js';
+export { compileCustomPatterns } from './custom-patterns.js';
+export type { PrivacyPattern } from './custom-patterns.js';
+export { IntrospectionScorer } from './introspection.js';
+export { SensitivityScorer } from './sensitivity.js';
+export { ClassifierScorer } from './classifier.js';
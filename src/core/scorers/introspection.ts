@@ -0,0 +1,59 @@
+/**
+ * Introspection scorer for LLM-Secrets MCP server
+ * Measures how much a segment reads like the LLM's inner monologue
+ */
+
+import { PrivacyScorer, ScorerInput, ScorerResult } from './types.js';
+import { LanguagePack, compileLexicon } from '../languages/index.js';
+import { segmentWords } from '../segmenter.js';
+
+/**
+ * Scores the density of first-person, thinking and uncertainty words, in
+ * the lexicons of the segment's language
+ */
+export class IntrospectionScorer implements PrivacyScorer {
+  public readonly name = 'introspection';
+  // Patterns of each language, by language code
+  private readonly lexicons = new Map<string, { firstPerson: RegExp; thinking: RegExp; uncertainty: RegExp }>();
+  
+  /**
+   * Create a new IntrospectionScorer
+   * @param threshold Threshold for considering text introspective (0.0-1.0)
+   * @param packs Language packs, the fallback first
+   */
+  constructor(public readonly threshold: number, private readonly packs: LanguagePack[]) {
+    for (const { code, spaced, introspection } of packs) {
+      this.lexicons.set(code, {
+        firstPerson: compileLexicon(introspection.firstPerson, spaced),
+        thinking: compileLexicon(introspection.thinking, spaced),
+        uncertainty: compileLexicon(introspection.uncertainty, spaced)
+      });
+    }
+  }
+  
+  /**
+   * Calculate a score indicating how introspective a piece of text is
+   * @returns A score from 0.0 to 1.0 indicating introspection level
+   */
+  public score({ text, language }: ScorerInput): ScorerResult {
+    const lexicon = this.lexicons.get(language) ?? this.lexicons.get(this.packs[0].code)!;
+    
+    // Count first-person pronouns and introspective verbs
+    const firstPerson = (text.match(lexicon.firstPerson) || []).length;
+    const thinkingVerbs = (text.match(lexicon.thinking) || []).length;
+    
+    // Count words that might indicate uncertainty or personal opinion
+    const uncertainty = (text.match(lexicon.uncertainty) || []).length;
+    
+    // Calculate word count for normalization; Intl.Segmenter also counts
+    // the words of scripts written without spaces
+    const wordCount = segmentWords(text, language).length;
+    if (wordCount === 0) {
+      return { score: 0.0 };
+    }
+    
+    // Calculate normalized score
+    const introspectionIndicators = firstPerson + thinkingVerbs + uncertainty;
+    return { score: Math.min(1.0, introspectionIndicators / (wordCount * 0.3)) };  // Scale factor can be adjusted
+  }
+}
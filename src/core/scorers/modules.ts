@@ -0,0 +1,85 @@
+/**
+ * Loader for custom privacy scorer modules
+ * A module's default export is a scorer, an array of scorers, or a function
+ * (possibly async) that takes the privacy configuration and returns either.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { PrivacyConfig } from '../../config.js';
+import { PrivacyScorer } from './types.js';
+import { PrivacyError } from '../../utils/errors.js';
+
+/** Valid scorer names; they are used as names in rule expressions */
+export const SCORER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Load the scorers exported by local modules
+ * @param modulePaths Paths of the modules, relative to the working directory
+ * @param config Privacy configuration, passed to factory functions
+ * @returns The scorers, in the order of the modules
+ * @throws PrivacyError with code PRIVACY_SCORER_LOAD_FAILED if a module cannot be loaded or exports no valid scorer
+ */
+export async function loadScorerModules(
+  modulePaths: string[],
+  config: PrivacyConfig
+): Promise<PrivacyScorer[]> {
+  const scorers: PrivacyScorer[] = [];
+  
+  for (const modulePath of modulePaths) {
+    const resolved = path.resolve(modulePath);
+    let exported: unknown;
+    try {
+      const module = await import(pathToFileURL(resolved).href);
+      exported = module.default;
+      if (typeof exported === 'function') {
+        exported = await exported(config);
+      }
+    } catch (error) {
+      throw new PrivacyError(
+        `Failed to load scorer module ${resolved}: ${(error as Error).message}`,
+        'SCORER_LOAD_FAILED'
+      );
+    }
+    
+    const candidates = Array.isArray(exported) ? exported : [exported];
+    if (candidates.length === 0) {
+      throw new PrivacyError(`Scorer module ${resolved} exports no scorers`, 'SCORER_LOAD_FAILED');
+    }
+    for (const candidate of candidates) {
+      scorers.push(validateScorer(candidate, resolved));
+    }
+    console.log(`Loaded ${candidates.length} privacy scorer(s) from ${resolved}`);
+  }
+  
+  return scorers;
+}
+
+/**
+ * Check that a module export is a usable scorer
+ * @param candidate The exported value
+ * @param source Path of the module, for error messages
+ */
+function validateScorer(candidate: unknown, source: string): PrivacyScorer {
+  const scorer = candidate as Partial<PrivacyScorer> | null;
+  if (!scorer || typeof scorer !== 'object' || typeof scorer.score !== 'function') {
+    throw new PrivacyError(
+      `Scorer module ${source} must export a scorer with a score() method`,
+      'SCORER_LOAD_FAILED'
+    );
+  }
+  if (typeof scorer.name !== 'string' || !SCORER_NAME.test(scorer.name)) {
+    throw new PrivacyError(
+      `Scorer from ${source} has an invalid name "${String(scorer.name)}": ` +
+        'use letters, digits and "_", not starting with a digit',
+      'SCORER_LOAD_FAILED'
+    );
+  }
+  if (scorer.threshold !== undefined && typeof scorer.threshold !== 'number') {
+    throw new PrivacyError(
+      `Scorer "${scorer.name}" from ${source} has a non-numeric threshold`,
+      'SCORER_LOAD_FAILED'
+    );
+  }
+  return scorer as PrivacyScorer;
+}
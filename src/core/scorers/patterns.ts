@@ -0,0 +1,62 @@
+/**
+ * Pattern scorer for LLM-Secrets MCP server
+ * Matches segments against explicit privacy indicators
+ */
+
+import { PrivacyScorer, ScorerInput, ScorerResult } from './types.js';
+import { PrivacyPattern } from './custom-patterns.js';
+import { LanguagePack } from '../languages/index.js';
+
+/**
+ * Scores the total weight of the privacy patterns a segment matches, up to
+ * 1.0; patterns with an action force the verdict instead
+ */
+export class PatternScorer implements PrivacyScorer {
+  public readonly name = 'patterns';
+  public readonly scoresCode = true;
+  // Indicators of each language pack followed by the custom patterns, by language code
+  private readonly patterns = new Map<string, PrivacyPattern[]>();
+  private readonly fallback: string;
+  
+  /**
+   * Create a new PatternScorer
+   * @param customPatterns Compiled custom patterns, checked after the indicators of the segment's language
+   * @param packs Language packs, the fallback first
+   */
+  constructor(customPatterns: PrivacyPattern[], packs: LanguagePack[]) {
+    for (const { code, indicators } of packs) {
+      this.patterns.set(code, [
+        ...indicators.map(regex => ({ regex, description: regex.source, weight: 1.0 })),
+        ...customPatterns
+      ]);
+    }
+    this.fallback = packs[0].code;
+    for (const pattern of customPatterns) {
+      console.log(`Added privacy pattern: ${pattern.regex}${pattern.action ? ` (${pattern.action})` : ''}`);
+    }
+  }
+  
+  /**
+   * Match a segment against the patterns
+   * @returns The score and any forced verdict, with the description of each matching pattern
+   */
+  public score({ text, language }: ScorerInput): ScorerResult {
+    const result: ScorerResult = { score: 0.0, matchedRules: [] };
+    
+    for (const { regex, description, weight, action } of this.patterns.get(language) ?? this.patterns.get(this.fallback)!) {
+      if (!regex.test(text)) {
+        continue;
+      }
+      if (action) {
+        // Forcing a segment private wins over forcing it public
+        result.verdict = action === 'force-private' || result.verdict === 'private' ? 'private' : 'public';
+        result.matchedRules!.push(`${action}:${description}`);
+      } else {
+        result.score = Math.min(1.0, result.score + weight);
+        result.matchedRules!.push(`pattern:${description}`);
+      }
+    }
+    
+    return result;
+  }
+}
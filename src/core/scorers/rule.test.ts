@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { compileRule } from './rule.js';
+
+const NAMES = ['patterns', 'introspection', 'score'];
+
+describe('compileRule', () => {
+  it.each([
+    ['patterns > 0.5', { patterns: 0.6 }, true],
+    ['patterns > 0.5', { patterns: 0.5 }, false],
+    ['patterns > 0.5 || introspection > 0.5 && score > 0.9', { patterns: 0.9, score: 0.1 }, true],
+    ['(patterns > 0.5 || introspection > 0.5) && score > 0.9', { patterns: 0.9, score: 0.1 }, false],
+    ['patterns + introspection * 2 >= 1', { patterns: 0.2, introspection: 0.4 }, true],
+    ['-patterns < 0 && !introspection', { patterns: 0.1 }, true],
+    ['patterns / introspection == 0', { patterns: 0.9 }, true],
+    ['score != .5', { score: 0.5 }, false]
+  ])('evaluates %s with %j to %s', (source, values, expected) => {
+    expect(compileRule(source, NAMES)(values)).toBe(expected);
+  });
+  
+  it.each([
+    [''],
+    ['patterns >'],
+    ['(patterns > 0.5'],
+    ['patterns 0.5'],
+    ['unknown > 0.5'],
+    ['patterns = 0.5'],
+    ['patterns > 0.5; process.exit()']
+  ])('rejects %j', source => {
+    expect(() => compileRule(source, NAMES)).toThrow(expect.objectContaining({ code: 'PRIVACY_INVALID_RULE' }));
+  });
+});
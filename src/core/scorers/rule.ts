@@ -0,0 +1,153 @@
+/**
+ * Rule expressions for combining privacy scores
+ * A small expression language over numbers, evaluated without eval():
+ * arithmetic (+ - * /), comparisons (> >= < <= == !=), logic (&& || !)
+ * and parentheses. Names stand for scores; true is 1 and false is 0.
+ */
+
+import { PrivacyError } from '../../utils/errors.js';
+
+/**
+ * A compiled rule: takes the value of each name and tells whether the rule holds
+ */
+export type CompiledRule = (values: Record<string, number>) => boolean;
+
+/**
+ * A compiled subexpression
+ */
+type Node = (values: Record<string, number>) => number;
+
+/**
+ * A token of a rule
+ */
+interface Token {
+  type: 'number' | 'name' | 'operator';
+  text: string;
+  position: number;
+}
+
+/** Tokens, in order of precedence when they share a prefix */
+const TOKEN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(\|\||&&|>=|<=|==|!=|[-+*/><!()]))/y;
+
+/** Binary operators by precedence level, loosest first */
+const BINARY_LEVELS: Record<string, (left: number, right: number) => number>[] = [
+  { '||': (left, right) => (left || right ? 1 : 0) },
+  { '&&': (left, right) => (left && right ? 1 : 0) },
+  {
+    '>': (left, right) => (left > right ? 1 : 0),
+    '>=': (left, right) => (left >= right ? 1 : 0),
+    '<': (left, right) => (left < right ? 1 : 0),
+    '<=': (left, right) => (left <= right ? 1 : 0),
+    '==': (left, right) => (left === right ? 1 : 0),
+    '!=': (left, right) => (left !== right ? 1 : 0)
+  },
+  { '+': (left, right) => left + right, '-': (left, right) => left - right },
+  { '*': (left, right) => left * right, '/': (left, right) => (right === 0 ? 0 : left / right) }
+];
+
+/**
+ * Compile a rule expression
+ * @param source The expression
+ * @param names Names the expression may use
+ * @returns The compiled rule
+ * @throws PrivacyError with code PRIVACY_INVALID_RULE if the expression is invalid
+ */
+export function compileRule(source: string, names: string[]): CompiledRule {
+  const tokens = tokenize(source);
+  let position = 0;
+  
+  const fail = (message: string, token?: Token): never => {
+    throw new PrivacyError(
+      `Invalid scoring rule "${source}": ${message}` +
+        (token ? ` at position ${token.position + 1}` : ' at the end'),
+      'INVALID_RULE'
+    );
+  };
+  
+  const parseLevel = (level: number): Node => {
+    if (level === BINARY_LEVELS.length) {
+      return parseUnary();
+    }
+    let node = parseLevel(level + 1);
+    while (position < tokens.length && tokens[position].type === 'operator' && BINARY_LEVELS[level][tokens[position].text]) {
+      const apply = BINARY_LEVELS[level][tokens[position++].text];
+      const left = node;
+      const right = parseLevel(level + 1);
+      node = values => apply(left(values), right(values));
+    }
+    return node;
+  };
+  
+  const parseUnary = (): Node => {
+    const token = tokens[position];
+    if (token?.type === 'operator' && (token.text === '!' || token.text === '-')) {
+      position++;
+      const operand = parseUnary();
+      return token.text === '!'
+        ? values => (operand(values) ? 0 : 1)
+        : values => -operand(values);
+    }
+    return parsePrimary();
+  };
+  
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail('expected a number, a name or "("');
+    }
+    if (token.type === 'number') {
+      const value = Number(token.text);
+      return () => value;
+    }
+    if (token.type === 'name') {
+      if (!names.includes(token.text)) {
+        return fail(`unknown name "${token.text}" (expected one of: ${names.join(', ')})`, token);
+      }
+      return values => values[token.text] ?? 0;
+    }
+    if (token.text === '(') {
+      const node = parseLevel(0);
+      if (tokens[position]?.text !== ')') {
+        return fail('expected ")"', tokens[position]);
+      }
+      position++;
+      return node;
+    }
+    return fail(`unexpected "${token.text}"`, token);
+  };
+  
+  if (tokens.length === 0) {
+    fail('the rule is empty');
+  }
+  const root = parseLevel(0);
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position].text}"`, tokens[position]);
+  }
+  
+  return values => root(values) !== 0;
+}
+
+/**
+ * Split a rule expression into tokens
+ * @throws PrivacyError if the expression contains an unknown character
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (source.slice(TOKEN.lastIndex).trim().length > 0) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      const position = start + (source.slice(start).length - source.slice(start).trimStart().length);
+      throw new PrivacyError(
+        `Invalid scoring rule "${source}": unexpected "${source[position]}" at position ${position + 1}`,
+        'INVALID_RULE'
+      );
+    }
+    const [type, text] = match[1] !== undefined
+      ? ['number', match[1]] as const
+      : match[2] !== undefined ? ['name', match[2]] as const : ['operator', match[3]] as const;
+    tokens.push({ type, text, position: match.index + match[0].length - text.length });
+  }
+  return tokens;
+}
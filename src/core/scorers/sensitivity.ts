@@ -0,0 +1,56 @@
+/**
+ * Sensitivity scorer for LLM-Secrets MCP server
+ * Measures how much a segment touches on sensitive topics
+ */
+
+import { PrivacyScorer, ScorerInput, ScorerResult } from './types.js';
+import { LanguagePack, compileLexicon } from '../languages/index.js';
+import { segmentWords } from '../segmenter.js';
+
+/**
+ * Scores the density of sensitive topics and cautionary phrases, in the
+ * lexicons of the segment's language
+ */
+export class SensitivityScorer implements PrivacyScorer {
+  public readonly name = 'sensitivity';
+  // Patterns of each language, by language code
+  private readonly lexicons = new Map<string, { topics: RegExp; caution: RegExp }>();
+  
+  /**
+   * Create a new SensitivityScorer
+   * @param threshold Threshold for considering text sensitive (0.0-1.0)
+   * @param packs Language packs, the fallback first
+   */
+  constructor(public readonly threshold: number, private readonly packs: LanguagePack[]) {
+    for (const { code, spaced, sensitivity } of packs) {
+      this.lexicons.set(code, {
+        topics: compileLexicon(sensitivity.topics, spaced),
+        caution: compileLexicon(sensitivity.caution, spaced)
+      });
+    }
+  }
+  
+  /**
+   * Calculate a score indicating how sensitive the content might be
+   * @returns A score from 0.0 to 1.0 indicating sensitivity level
+   */
+  public score({ text, language }: ScorerInput): ScorerResult {
+    const lexicon = this.lexicons.get(language) ?? this.lexicons.get(this.packs[0].code)!;
+    
+    // Count mentions of sensitive topics
+    const topicMentions = (text.match(lexicon.topics) || []).length;
+    
+    // Count cautionary phrases
+    const cautionPhrases = (text.match(lexicon.caution) || []).length;
+    
+    // Calculate word count for normalization
+    const wordCount = segmentWords(text, language).length;
+    if (wordCount === 0) {
+      return { score: 0.0 };
+    }
+    
+    // Calculate normalized score
+    const sensitivityIndicators = topicMentions + (cautionPhrases * 2);  // Weight caution phrases more heavily
+    return { score: Math.min(1.0, sensitivityIndicators / (wordCount * 0.25)) };  // Scale factor can be adjusted
+  }
+}
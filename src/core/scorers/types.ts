@@ -0,0 +1,56 @@
+/**
+ * Type definitions for privacy scorers
+ */
+
+import { ScorerDetails, SegmentKind } from '../types.js';
+
+/**
+ * A segment of a response, as seen by a scorer
+ */
+export interface ScorerInput {
+  /** The segment's text, with inline code blanked out */
+  text: string;
+  /** Kind of Markdown block the segment comes from */
+  kind: SegmentKind;
+  /** Code of the segment's detected language, one of privacy.languages (e.g. 'de') */
+  language: string;
+}
+
+/**
+ * What a scorer found in a segment
+ */
+export interface ScorerResult {
+  /** How private the segment looks (0.0-1.0) */
+  score: number;
+  /** Rules that matched, recorded with the thoughts the segment ends up in */
+  matchedRules?: string[];
+  /**
+   * Verdict that overrides the combined scores; if scorers disagree, the
+   * segment is private
+   */
+  verdict?: 'private' | 'public';
+  /** How the scorer arrived at the score, e.g. the model and its strongest features */
+  details?: ScorerDetails;
+}
+
+/**
+ * A signal the privacy detector combines into its verdict on a segment.
+ * Custom scorers are plain objects or classes with these members, exported
+ * from a module listed in privacy.scoring.modules.
+ */
+export interface PrivacyScorer {
+  /**
+   * Unique name, used for the scorer's weight and in rule expressions
+   * (letters, digits and "_", not starting with a digit)
+   */
+  readonly name: string;
+  /** Score above which the segment is private when scorers are combined with 'any' (default 0.5) */
+  readonly threshold?: number;
+  /** Whether the scorer also scores fenced code blocks when privacy.codeBlocks is 'analyze' */
+  readonly scoresCode?: boolean;
+  /**
+   * Score a segment
+   * @param input The segment
+   */
+  score(input: ScorerInput): ScorerResult | Promise<ScorerResult>;
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG } from '../config.js';
+import { createEncryptionManager } from './encryption.js';
+import { EnvelopeAlgorithm, encryptEnvelopePayload, parseEnvelope } from './envelope.js';
+import { createSealedRecipient, openSealedEnvelope, sealToRecipients } from './sealed.js';
+
+/** Recipient key pairs, generated once; RSA keys are slow to generate */
+const X25519 = crypto.generateKeyPairSync('x25519');
+const RSA = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const OTHER = crypto.generateKeyPairSync('x25519');
+
+describe('sealToRecipients', () => {
+  const recipients = [createSealedRecipient(X25519.publicKey), createSealedRecipient(RSA.publicKey)];
+  
+  it.each([
+    ['an x25519', X25519.privateKey],
+    ['an RSA-OAEP', RSA.privateKey]
+  ])('seals data that %s recipient can open', (_, privateKey) => {
+    const envelope = sealToRecipients(Buffer.from('a sealed thought'), recipients, { thoughtId: 'thought-1' });
+    
+    expect(parseEnvelope(envelope).header).toMatchObject({
+      algorithm: EnvelopeAlgorithm.SEALED_AES_256_GCM,
+      keyId: expect.stringMatching(/^sealed-/),
+      associatedData: { thoughtId: 'thought-1' }
+    });
+    expect(openSealedEnvelope(envelope, privateKey).toString('utf-8')).toBe('a sealed thought');
+  });
+  
+  it('does not open with the key of another recipient', () => {
+    const envelope = sealToRecipients(Buffer.from('a sealed thought'), recipients);
+    
+    expect(() => openSealedEnvelope(envelope, OTHER.privateKey))
+      .toThrow(expect.objectContaining({ code: 'ENCRYPTION_KEY_NOT_FOUND' }));
+  });
+  
+  it('rejects a modified recipient stanza or associated data', () => {
+    const envelope = sealToRecipients(Buffer.from('a sealed thought'), [recipients[0]], { thoughtId: 'thought-1' });
+    const { encapsulatedKey } = parseEnvelope(envelope).header;
+    const stanza = Buffer.from(envelope);
+    stanza[envelope.indexOf(encapsulatedKey) + encapsulatedKey.length - 1] ^= 0x01;
+    const associated = Buffer.from(envelope);
+    associated.write('thought-2', associated.indexOf('thought-1'), 'utf-8');
+    
+    expect(() => openSealedEnvelope(stanza, X25519.privateKey))
+      .toThrow(expect.objectContaining({ code: 'ENCRYPTION_TAMPERED' }));
+    expect(() => openSealedEnvelope(associated, X25519.privateKey)).toThrow();
+  });
+  
+  it('refuses envelopes that are not sealed', () => {
+    const envelope = encryptEnvelopePayload(
+      { algorithm: EnvelopeAlgorithm.AES_256_GCM, keyId: 'test', encapsulatedKey: Buffer.alloc(0) },
+      crypto.randomBytes(32),
+      Buffer.from('a thought')
+    );
+    
+    expect(() => openSealedEnvelope(envelope, X25519.privateKey))
+      .toThrow(expect.objectContaining({ code: 'ENCRYPTION_UNSUPPORTED_ALGORITHM' }));
+  });
+  
+  it('rejects RSA keys shorter than 2048 bits and needs a recipient', () => {
+    const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    
+    expect(() => createSealedRecipient(publicKey)).toThrow(expect.objectContaining({ code: 'ENCRYPTION_INVALID_RECIPIENT' }));
+    expect(() => sealToRecipients(Buffer.from('a sealed thought'), []))
+      .toThrow(expect.objectContaining({ code: 'ENCRYPTION_INVALID_RECIPIENT' }));
+  });
+});
+
+describe('EncryptionManager in sealed mode', () => {
+  let dir: string;
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('writes thoughts only the offline recipient can read', async () => {
+    const publicKeyFile = path.join(dir, 'recipient.pub.pem');
+    await fsPromises.writeFile(publicKeyFile, X25519.publicKey.export({ type: 'spki', format: 'pem' }));
+    const keyFile = path.join(dir, 'key.json');
+    const manager = await createEncryptionManager({
+      ...DEFAULT_CONFIG.encryption,
+      mode: 'sealed',
+      recipients: [{ publicKeyFile }],
+      keyFile
+    });
+    
+    const envelope = await manager.encrypt('a sealed thought', { thoughtId: 'thought-1' });
+    
+    expect(manager.isLocked()).toBe(true);
+    await expect(manager.decrypt(envelope)).rejects.toMatchObject({ code: 'ENCRYPTION_SEALED_MODE' });
+    await expect(manager.unlock()).rejects.toMatchObject({ code: 'ENCRYPTION_SEALED_MODE' });
+    await expect(fsPromises.access(keyFile)).rejects.toMatchObject({ code: 'ENOENT' });
+    expect(openSealedEnvelope(envelope, X25519.privateKey).toString('utf-8')).toBe('a sealed thought');
+  });
+  
+  it('fails to start with an unusable recipient key', async () => {
+    const publicKeyFile = path.join(dir, 'recipient.pub.pem');
+    await fsPromises.writeFile(publicKeyFile, 'not a key');
+    
+    await expect(createEncryptionManager({
+      ...DEFAULT_CONFIG.encryption,
+      mode: 'sealed',
+      recipients: [{ publicKeyFile }],
+      keyFile: path.join(dir, 'key.json')
+    })).rejects.toMatchObject({ code: 'ENCRYPTION_INIT_FAILED' });
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Sealed (write-only) encryption for LLM-Secrets MCP server
+ * Encrypts thoughts to recipient public keys whose private keys are kept
+ * offline, so the server itself can never read a thought back
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import {
+  EnvelopeAlgorithm,
+  EnvelopeAssociatedData,
+  decryptEnvelopePayload,
+  encryptEnvelopePayload,
+  parseEnvelope
+} from './envelope.js';
+import { decapsulateX25519, encapsulateX25519 } from './key-agreement.js';
+import { EncryptionError } from '../utils/errors.js';
+
+/**
+ * Supported recipient key types
+ */
+export type SealedRecipientType = 'x25519' | 'rsa-oaep';
+
+/** Stanza type identifiers stored in the envelope */
+const STANZA_TYPES: Record<SealedRecipientType, number> = {
+  'x25519': 1,
+  'rsa-oaep': 2
+};
+
+/**
+ * A recipient that thoughts are sealed to
+ */
+export interface SealedRecipient {
+  /** Recipient identifier (fingerprint of the public key) */
+  id: string;
+  /** Key type */
+  type: SealedRecipientType;
+  /** Public key */
+  publicKey: crypto.KeyObject;
+}
+
+/**
+ * Compute the identifier of a recipient from its public key
+ * @param publicKey Recipient public key
+ */
+export function computeRecipientId(publicKey: crypto.KeyObject): string {
+  const spki = publicKey.export({ format: 'der', type: 'spki' });
+  return crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16);
+}
+
+/**
+ * Compute the key id recorded in envelopes sealed to a set of recipients
+ * @param recipients Recipients the envelope is sealed to
+ */
+export function computeRecipientSetId(recipients: SealedRecipient[]): string {
+  const ids = recipients.map(recipient => recipient.id).sort().join(',');
+  return 'sealed-' + crypto.createHash('sha256').update(ids).digest('hex').slice(0, 16);
+}
+
+/**
+ * Build a recipient from a public key
+ * @param publicKey X25519 or RSA public key
+ */
+export function createSealedRecipient(publicKey: crypto.KeyObject): SealedRecipient {
+  let type: SealedRecipientType;
+  switch (publicKey.asymmetricKeyType) {
+    case 'x25519':
+      type = 'x25519';
+      break;
+    case 'rsa':
+      if ((publicKey.asymmetricKeyDetails?.modulusLength ?? 0) < 2048) {
+        throw new EncryptionError('RSA recipient keys must be at least 2048 bits', 'INVALID_RECIPIENT');
+      }
+      type = 'rsa-oaep';
+      break;
+    default:
+      throw new EncryptionError(
+        `Unsupported recipient key type: ${publicKey.asymmetricKeyType}`,
+        'INVALID_RECIPIENT'
+      );
+  }
+  
+  return { id: computeRecipientId(publicKey), type, publicKey };
+}
+
+/**
+ * Load a recipient from a PEM public key file
+ * @param publicKeyFile Path to the PEM-encoded public key
+ */
+export async function loadSealedRecipient(publicKeyFile: string): Promise<SealedRecipient> {
+  const pem = await fsPromises.readFile(publicKeyFile, 'utf-8');
+  let publicKey: crypto.KeyObject;
+  try {
+    publicKey = crypto.createPublicKey(pem);
+  } catch (error) {
+    throw new EncryptionError(
+      `Invalid recipient public key in ${publicKeyFile}: ${(error as Error).message}`,
+      'INVALID_RECIPIENT'
+    );
+  }
+  return createSealedRecipient(publicKey);
+}
+
+/**
+ * Encrypt data to a set of recipients
+ * @param data Data to encrypt
+ * @param recipients Recipients able to decrypt the result
+ * @param associatedData Optional data stored in clear but authenticated
+ * @returns Buffer containing the sealed envelope
+ */
+export function sealToRecipients(
+  data: Buffer,
+  recipients: SealedRecipient[],
+  associatedData?: EnvelopeAssociatedData
+): Buffer {
+  if (recipients.length === 0 || recipients.length > 0xff) {
+    throw new EncryptionError('Sealed mode requires between 1 and 255 recipients', 'INVALID_RECIPIENT');
+  }
+  
+  const contentKey = crypto.randomBytes(32);
+  try {
+    const stanzas = recipients.map(recipient => ({
+      recipient,
+      data: wrapContentKey(recipient, contentKey)
+    }));
+    
+    return encryptEnvelopePayload(
+      {
+        algorithm: EnvelopeAlgorithm.SEALED_AES_256_GCM,
+        keyId: computeRecipientSetId(recipients),
+        encapsulatedKey: serializeStanzas(stanzas),
+        associatedData
+      },
+      contentKey,
+      data
+    );
+  } finally {
+    contentKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt a sealed envelope with a recipient private key.
+ * This is the offline decrypt path; the server never holds private keys.
+ * @param encryptedData Buffer containing the sealed envelope
+ * @param privateKey Private key of one of the recipients
+ * @returns Decrypted data
+ */
+export function openSealedEnvelope(encryptedData: Buffer, privateKey: crypto.KeyObject): Buffer {
+  const envelope = parseEnvelope(encryptedData);
+  if (envelope.header.algorithm !== EnvelopeAlgorithm.SEALED_AES_256_GCM) {
+    throw new EncryptionError(
+      'Envelope is not sealed to offline recipients',
+      'UNSUPPORTED_ALGORITHM'
+    );
+  }
+  
+  const recipientId = computeRecipientId(crypto.createPublicKey(privateKey));
+  const stanza = parseStanzas(envelope.header.encapsulatedKey)
+    .find(candidate => candidate.recipientId === recipientId);
+  if (!stanza) {
+    throw new EncryptionError(
+      `Envelope is not sealed to recipient ${recipientId}`,
+      'KEY_NOT_FOUND'
+    );
+  }
+  
+  const contentKey = unwrapContentKey(stanza.type, stanza.data, privateKey);
+  try {
+    return decryptEnvelopePayload(envelope, contentKey);
+  } finally {
+    contentKey.fill(0);
+  }
+}
+
+/**
+ * Generate a recipient key pair for offline use
+ * @param type Key type
+ * @returns PEM-encoded public and private keys
+ */
+export function generateRecipientKeyPair(type: SealedRecipientType): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = type === 'rsa-oaep' ?
+    crypto.generateKeyPairSync('rsa', { modulusLength: 4096 }) :
+    crypto.generateKeyPairSync('x25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Wrap the content key for one recipient
+ */
+function wrapContentKey(recipient: SealedRecipient, contentKey: Buffer): Buffer {
+  if (recipient.type === 'rsa-oaep') {
+    return crypto.publicEncrypt(
+      {
+        key: recipient.publicKey,
+        padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: 'sha256'
+      },
+      contentKey
+    );
+  }
+  
+  // X25519: ephemeral public key || nonce || wrapped content key || tag
+  const rawPublicKey = recipient.publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+  const encapsulated = encapsulateX25519(Buffer.from(rawPublicKey));
+  try {
+    const nonce = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', encapsulated.contentKey, nonce);
+    const wrapped = Buffer.concat([cipher.update(contentKey), cipher.final()]);
+    return Buffer.concat([encapsulated.ephemeralPublicKey, nonce, wrapped, cipher.getAuthTag()]);
+  } finally {
+    encapsulated.contentKey.fill(0);
+  }
+}
+
+/**
+ * Unwrap the content key from a recipient stanza
+ */
+function unwrapContentKey(
+  type: SealedRecipientType,
+  data: Buffer,
+  privateKey: crypto.KeyObject
+): Buffer {
+  try {
+    if (type === 'rsa-oaep') {
+      return crypto.privateDecrypt(
+        {
+          key: privateKey,
+          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+          oaepHash: 'sha256'
+        },
+        data
+      );
+    }
+    
+    if (data.length !== 32 + 12 + 32 + 16) {
+      throw new Error('unexpected stanza length');
+    }
+    const wrappingKey = decapsulateX25519(privateKey, data.subarray(0, 32));
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', wrappingKey, data.subarray(32, 44));
+      decipher.setAuthTag(data.subarray(76));
+      return Buffer.concat([decipher.update(data.subarray(44, 76)), decipher.final()]);
+    } finally {
+      wrappingKey.fill(0);
+    }
+  } catch (error) {
+    throw new EncryptionError(
+      `Failed to unwrap content key: ${(error as Error).message}`,
+      'TAMPERED'
+    );
+  }
+}
+
+/**
+ * Serialize recipient stanzas:
+ * count (1 byte), then per stanza type (1 byte), id length (1 byte), id,
+ * data length (2 bytes), data
+ */
+function serializeStanzas(stanzas: { recipient: SealedRecipient; data: Buffer }[]): Buffer {
+  const parts: Buffer[] = [Buffer.from([stanzas.length])];
+  for (const { recipient, data } of stanzas) {
+    const id = Buffer.from(recipient.id, 'utf-8');
+    const prefix = Buffer.alloc(2);
+    prefix.writeUInt8(STANZA_TYPES[recipient.type], 0);
+    prefix.writeUInt8(id.length, 1);
+    const dataLength = Buffer.alloc(2);
+    dataLength.writeUInt16BE(data.length, 0);
+    parts.push(prefix, id, dataLength, data);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parse recipient stanzas written by serializeStanzas
+ */
+function parseStanzas(
+  encoded: Buffer
+): { type: SealedRecipientType; recipientId: string; data: Buffer }[] {
+  const stanzas: { type: SealedRecipientType; recipientId: string; data: Buffer }[] = [];
+  let offset = 0;
+  
+  const readBytes = (length: number): Buffer => {
+    if (offset + length > encoded.length) {
+      throw new EncryptionError('Recipient stanzas are truncated', 'MALFORMED_ENVELOPE');
+    }
+    const bytes = encoded.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+  
+  const count = readBytes(1).readUInt8(0);
+  for (let i = 0; i < count; i++) {
+    const typeId = readBytes(1).readUInt8(0);
+    const type = (Object.keys(STANZA_TYPES) as SealedRecipientType[])
+      .find(candidate => STANZA_TYPES[candidate] === typeId);
+    if (!type) {
+      throw new EncryptionError(`Unsupported recipient stanza type: ${typeId}`, 'MALFORMED_ENVELOPE');
+    }
+    const recipientId = readBytes(readBytes(1).readUInt8(0)).toString('utf-8');
+    const data = readBytes(readBytes(2).readUInt16BE(0));
+    stanzas.push({ type, recipientId, data });
+  }
+  
+  return stanzas;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { maskInlineCode, segmentMarkdown, segmentWords, splitSentences, trimSpan } from './segmenter.js';
+
+/**
+ * The kind and text of each Markdown segment
+ */
+function blocks(text: string): [string, string][] {
+  return segmentMarkdown(text).map(({ kind, start, end }) => [kind, text.slice(start, end)]);
+}
+
+describe('segmentMarkdown', () => {
+  it('splits a response into its blocks', () => {
+    const text = [
+      '## Summary',
+      'First line\ncontinued here.',
+      '- one\n- two\n  more of two',
+      '> quoted\n> still quoted',
+      '| a | b |\n| --- | --- |\n| 1 | 2 |',
+      '```js\nconst x = 1;\n\nconst y = 2;\n```'
+    ].join('\r\n\r\n').replace(/(?<!\r)\n/g, '\r\n');
+    
+    expect(blocks(text).map(([kind]) => kind)).toEqual([
+      'heading', 'paragraph', 'list-item', 'list-item', 'blockquote', 'table-row', 'table-row', 'code'
+    ]);
+    expect(blocks(text).slice(0, 5).map(([, content]) => content)).toEqual([
+      'Summary',
+      'First line\r\ncontinued here.',
+      'one',
+      'two\r\n  more of two',
+      'quoted\r\n> still quoted'
+    ]);
+    expect(blocks(text)[7][1]).toBe('```js\r\nconst x = 1;\r\n\r\nconst y = 2;\r\n```');
+  });
+  
+  it('runs unclosed code blocks to the end', () => {
+    expect(blocks('Text\n\n~~~\ncode\n\nmore code')).toEqual([
+      ['paragraph', 'Text'],
+      ['code', '~~~\ncode\n\nmore code']
+    ]);
+  });
+});
+
+describe('maskInlineCode', () => {
+  it('blanks out inline code, keeping offsets', () => {
+    const text = 'Use `secret()` or ``a ` b`` here';
+    
+    expect(maskInlineCode(text)).toBe('Use ' + ' '.repeat(10) + ' or ' + ' '.repeat(9) + ' here');
+    expect(maskInlineCode(text)).toHaveLength(text.length);
+  });
+});
+
+describe('splitSentences', () => {
+  it('splits sentences within a span of the text', () => {
+    const text = '# Title\n\nFirst one. Second one? Third!';
+    const start = text.indexOf('First');
+    
+    expect(splitSentences(text, { start, end: text.length }, 'en').map(({ start, end }) => text.slice(start, end)))
+      .toEqual(['First one.', 'Second one?', 'Third!']);
+  });
+  
+  it('splits Japanese sentences, which are written without spaces', () => {
+    const text = '今日は晴れです。明日は雨かもしれません。本当ですか？';
+    
+    expect(splitSentences(text, { start: 0, end: text.length }, 'ja').map(({ start, end }) => text.slice(start, end)))
+      .toEqual(['今日は晴れです。', '明日は雨かもしれません。', '本当ですか？']);
+  });
+});
+
+describe('segmentWords', () => {
+  it('finds the words of text without spaces, leaving out punctuation', () => {
+    expect(segmentWords('Hello, world!')).toEqual(['Hello', 'world']);
+    expect(segmentWords('私は猫が好きです。', 'ja')).toEqual(expect.arrayContaining(['私', '猫', '好き']));
+    expect(segmentWords('私は猫が好きです。', 'ja')).not.toContain('。');
+  });
+});
+
+describe('trimSpan', () => {
+  it('excludes surrounding whitespace', () => {
+    expect(trimSpan('  a b \n', { start: 0, end: 7 })).toEqual({ start: 2, end: 5 });
+    expect(trimSpan('   ', { start: 0, end: 3 })).toEqual({ start: 3, end: 3 });
+  });
+});
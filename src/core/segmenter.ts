@@ -0,0 +1,246 @@
+/**
+ * Markdown segmenter for LLM-Secrets MCP server
+ * Splits a response into the blocks the privacy detector analyzes: headings,
+ * paragraphs, list items, block quotes, table rows and fenced code blocks.
+ * Segments are character spans of the original text, without the Markdown
+ * markers that introduce them, so redacting one keeps the structure around it.
+ */
+
+import { SegmentKind, TextSpan } from './types.js';
+
+/**
+ * A block of a response
+ */
+export interface Segment extends TextSpan {
+  /** Kind of block */
+  kind: SegmentKind;
+}
+
+/**
+ * A line of the text
+ */
+interface Line extends TextSpan {
+  /** The line's text, without the line break */
+  text: string;
+}
+
+/** Opening line of a fenced code block; group 1 is the fence */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+/** ATX heading marker */
+const HEADING = /^ {0,3}#{1,6}(?:[ \t]+|$)/;
+/** List item marker */
+const LIST_ITEM = /^\s*(?:[-*+]|\d{1,9}[.)])[ \t]+/;
+/** Block quote marker */
+const BLOCKQUOTE = /^ {0,3}>[ \t]?/;
+/** Delimiter row under a table header */
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+/** Inline code span (backtick runs of equal length) */
+const INLINE_CODE = /(`+)[^`][\s\S]*?\1/g;
+/** Intl.Segmenter instances by granularity and locale, which are costly to create */
+const SEGMENTERS = new Map<string, Intl.Segmenter>();
+
+/**
+ * Split a text into Markdown blocks
+ * @param text The text to split
+ * @returns Segments in order, trimmed of whitespace, never empty
+ */
+export function segmentMarkdown(text: string): Segment[] {
+  const lines = splitLines(text);
+  const segments: Segment[] = [];
+  const add = (kind: SegmentKind, start: number, end: number) => {
+    const span = trimSpan(text, { start, end });
+    if (span.end > span.start) {
+      segments.push({ kind, ...span });
+    }
+  };
+  
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    
+    if (line.text.trim().length === 0) {
+      index++;
+      continue;
+    }
+    
+    // Fenced code runs to the closing fence, or to the end if it is unclosed
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+      let last = index + 1;
+      while (last < lines.length && !closing.test(lines[last].text)) {
+        last++;
+      }
+      last = Math.min(last, lines.length - 1);
+      add('code', line.start, lines[last].end);
+      index = last + 1;
+      continue;
+    }
+    
+    const heading = HEADING.exec(line.text);
+    if (heading) {
+      add('heading', line.start + heading[0].length, line.end);
+      index++;
+      continue;
+    }
+    
+    // Each row of a table is its own segment; the delimiter row is skipped
+    if (line.text.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1].text)) {
+      add('table-row', ...tableRowContent(text, line));
+      index += 2;
+      while (index < lines.length && lines[index].text.includes('|') && lines[index].text.trim().length > 0) {
+        add('table-row', ...tableRowContent(text, lines[index]));
+        index++;
+      }
+      continue;
+    }
+    
+    const quote = BLOCKQUOTE.exec(line.text);
+    if (quote) {
+      let last = index;
+      while (last + 1 < lines.length && BLOCKQUOTE.test(lines[last + 1].text)) {
+        last++;
+      }
+      add('blockquote', line.start + quote[0].length, lines[last].end);
+      index = last + 1;
+      continue;
+    }
+    
+    // A list item continues until a blank line or the start of another block
+    const item = LIST_ITEM.exec(line.text);
+    if (item) {
+      const last = findBlockEnd(lines, index);
+      add('list-item', line.start + item[0].length, lines[last].end);
+      index = last + 1;
+      continue;
+    }
+    
+    const last = findBlockEnd(lines, index);
+    add('paragraph', line.start, lines[last].end);
+    index = last + 1;
+  }
+  
+  return segments;
+}
+
+/**
+ * Blank out inline code so it is not analyzed as prose. The result has the
+ * same length as the input, so offsets stay valid.
+ * @param text The text
+ */
+export function maskInlineCode(text: string): string {
+  return text.replace(INLINE_CODE, code => ' '.repeat(code.length));
+}
+
+/**
+ * Split a span of text into sentences with Intl.Segmenter, which knows the
+ * sentence ends of every script, such as "。" in Japanese
+ * @param text The whole text
+ * @param span The span to split
+ * @param locale Language of the span (e.g. 'de'), if known
+ * @returns Sentences in order, trimmed of whitespace and never empty
+ */
+export function splitSentences(text: string, span: TextSpan, locale?: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  for (const { index, segment } of getSegmenter('sentence', locale).segment(text.slice(span.start, span.end))) {
+    const sentence = trimSpan(text, { start: span.start + index, end: span.start + index + segment.length });
+    if (sentence.end > sentence.start) {
+      sentences.push(sentence);
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Get the words of a text with Intl.Segmenter, which also separates the
+ * words of scripts written without spaces, such as Japanese
+ * @param text The text
+ * @param locale Language of the text (e.g. 'ja'), if known
+ * @returns The words in order, without punctuation and whitespace
+ */
+export function segmentWords(text: string, locale?: string): string[] {
+  const words: string[] = [];
+  for (const { segment, isWordLike } of getSegmenter('word', locale).segment(text)) {
+    if (isWordLike) {
+      words.push(segment);
+    }
+  }
+  return words;
+}
+
+/**
+ * Shrink a span to exclude leading and trailing whitespace
+ * @param text The whole text
+ * @param span The span to trim
+ */
+export function trimSpan(text: string, span: TextSpan): TextSpan {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) {
+    start++;
+  }
+  while (end > start && /\s/.test(text[end - 1])) {
+    end--;
+  }
+  return { start, end };
+}
+
+/**
+ * Get a shared Intl.Segmenter
+ */
+function getSegmenter(granularity: 'sentence' | 'word', locale?: string): Intl.Segmenter {
+  const key = `${granularity}:${locale ?? ''}`;
+  let segmenter = SEGMENTERS.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity });
+    SEGMENTERS.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/**
+ * Split a text into lines, recording where each starts and ends
+ */
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/\r?\n/g)) {
+    lines.push({ start, end: match.index!, text: text.slice(start, match.index) });
+    start = match.index! + match[0].length;
+  }
+  lines.push({ start, end: text.length, text: text.slice(start) });
+  return lines;
+}
+
+/**
+ * Get the part of a table row between its outer pipes, so that redacting
+ * the row keeps it a row
+ * @returns Start and end offsets
+ */
+function tableRowContent(text: string, line: Line): [number, number] {
+  const { start, end } = trimSpan(text, line);
+  return [
+    text[start] === '|' ? start + 1 : start,
+    end > start + 1 && text[end - 1] === '|' ? end - 1 : end
+  ];
+}
+
+/**
+ * Find the last line of a paragraph or list item that starts at a line
+ */
+function findBlockEnd(lines: Line[], first: number): number {
+  let last = first;
+  while (last + 1 < lines.length) {
+    const next = lines[last + 1].text;
+    if (
+      next.trim().length === 0 ||
+      FENCE.test(next) ||
+      HEADING.test(next) ||
+      BLOCKQUOTE.test(next) ||
+      LIST_ITEM.test(next)
+    ) {
+      break;
+    }
+    last++;
+  }
+  return last;
+}
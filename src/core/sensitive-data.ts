@@ -0,0 +1,202 @@
+/**
+ * Sensitive data detection for LLM-Secrets MCP server
+ * Finds personal data and credentials in a text: emails, phone numbers, API
+ * keys, private keys, JWTs and card numbers. Unlike the privacy scorers,
+ * which judge whether a segment reads like a private thought, this finds
+ * exact values that must not leak, wherever they appear.
+ */
+
+import { PrivacyConfig } from '../config.js';
+import { SensitiveDataType, TextSpan } from './types.js';
+import { PrivacyError } from '../utils/errors.js';
+
+/**
+ * How a type of sensitive data is handled
+ */
+export type SensitiveDataPolicy = PrivacyConfig['sensitiveData']['policies'][string];
+
+/**
+ * An occurrence of sensitive data, before it is handled
+ */
+export interface SensitiveDataOccurrence extends TextSpan {
+  type: SensitiveDataType;
+}
+
+/**
+ * Pattern of a type of sensitive data
+ */
+interface Detector {
+  type: SensitiveDataType;
+  /** Global pattern of candidates */
+  pattern: RegExp;
+  /** Check that rules out candidates the pattern cannot, if any */
+  accept?: (value: string) => boolean;
+}
+
+/** Policies a type can have */
+const POLICIES: SensitiveDataPolicy[] = ['encrypt', 'mask', 'pass'];
+/** What masks hide */
+const MASK = '****';
+/** Known API key prefixes, kept when a key is masked */
+const API_KEY_PREFIX = /^(?:sk-(?:ant-|proj-)?|(?:sk|rk|pk)_(?:live|test)_|gh[pousr]_|github_pat_|AKIA|ASIA|AIza|xox[abposr]-)/;
+
+/**
+ * Detectors in order of precedence: where matches overlap, the earlier
+ * type wins, so a JWT is not also taken for an email or a card for a phone number
+ */
+const DETECTORS: Detector[] = [
+  {
+    // A key block, or everything after an unterminated BEGIN line
+    type: 'private-key',
+    pattern: /-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?(?:-----END \1-----|$)/g
+  },
+  {
+    type: 'jwt',
+    pattern: /(?<![\w-])eyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g
+  },
+  {
+    type: 'api-key',
+    pattern: new RegExp(
+      '(?<![\\w-])(?:' + [
+        'sk-(?:ant-|proj-)?[\\w-]{20,}',
+        '(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}',
+        'gh[pousr]_[A-Za-z0-9]{36,}',
+        'github_pat_\\w{22,}',
+        '(?:AKIA|ASIA)[0-9A-Z]{16}',
+        'AIza[\\w-]{35}',
+        'xox[abposr]-[A-Za-z0-9-]{10,}'
+      ].join('|') + ')(?![\\w-])',
+      'g'
+    )
+  },
+  {
+    type: 'card-number',
+    pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    accept: value => passesLuhn(value.replace(/\D/g, ''))
+  },
+  {
+    type: 'email',
+    pattern: /(?<![\w.%+-])[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}(?![\w-])/g
+  },
+  {
+    // International numbers, or groups of digits separated by spaces or
+    // hyphens, with an optional area code in parentheses
+    type: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ -]?)?(?:\(\d{1,4}\)[ -]?)?\d{2,4}(?:[ -]\d{2,5}){1,4}(?![\w-])|(?<![\w+])\+\d{7,15}(?!\w)/g,
+    accept: value => {
+      const digits = value.replace(/\D/g, '').length;
+      // Dates such as 2024-01-15 have the shape of a phone number, but not the length
+      return digits >= 8 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(value);
+    }
+  }
+];
+
+/**
+ * Detects personal data and credentials, and masks them
+ */
+export class SensitiveDataDetector {
+  /**
+   * Create a new SensitiveDataDetector
+   * @param config Sensitive data configuration
+   * @throws PrivacyError if a policy names an unknown type or policy
+   */
+  constructor(private readonly config: PrivacyConfig['sensitiveData']) {
+    const types = DETECTORS.map(detector => detector.type);
+    for (const [type, policy] of Object.entries(config.policies)) {
+      if (!types.includes(type as SensitiveDataType)) {
+        throw new PrivacyError(
+          `privacy.sensitiveData.policies names an unknown type "${type}" (types: ${types.join(', ')})`,
+          'INVALID_CONFIG'
+        );
+      }
+      if (!POLICIES.includes(policy)) {
+        throw new PrivacyError(
+          `Policy of sensitive data type "${type}" must be one of: ${POLICIES.join(', ')}`,
+          'INVALID_CONFIG'
+        );
+      }
+    }
+  }
+  
+  /**
+   * Get the policy of a type; types without one are passed
+   * @param type The type
+   */
+  public policyOf(type: SensitiveDataType): SensitiveDataPolicy {
+    return this.config.policies[type] ?? 'pass';
+  }
+  
+  /**
+   * Find the sensitive data in a text
+   * @param text The text
+   * @returns Non-overlapping occurrences, in order
+   */
+  public find(text: string): SensitiveDataOccurrence[] {
+    const found: SensitiveDataOccurrence[] = [];
+    
+    for (const { type, pattern, accept } of DETECTORS) {
+      for (const match of text.matchAll(pattern)) {
+        const occurrence = { type, start: match.index!, end: match.index! + match[0].length };
+        if (
+          (!accept || accept(match[0])) &&
+          !found.some(other => other.start < occurrence.end && occurrence.start < other.end)
+        ) {
+          found.push(occurrence);
+        }
+      }
+    }
+    
+    return found.sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * Mask a value so that it can be recognized, but not used: API keys keep
+ * their prefix and last four characters (e.g. sk-****abcd), numbers their
+ * last four digits, emails the first letter and the domain, and private
+ * keys their BEGIN and END lines
+ * @param type Type of the value
+ * @param value The value
+ */
+export function maskSensitiveData(type: SensitiveDataType, value: string): string {
+  switch (type) {
+    case 'api-key':
+      return (API_KEY_PREFIX.exec(value)?.[0] ?? '') + MASK + value.slice(-4);
+    case 'jwt':
+      return 'eyJ' + MASK + value.slice(-4);
+    case 'email': {
+      const at = value.lastIndexOf('@');
+      return value[0] + MASK + value.slice(at);
+    }
+    case 'private-key': {
+      const lines = value.split(/\r?\n/);
+      const last = lines[lines.length - 1];
+      return lines[0] + '\n' + MASK + (lines.length > 1 && last.startsWith('-----END ') ? '\n' + last : '');
+    }
+    case 'phone':
+    case 'card-number': {
+      // Every digit but the last four, keeping the separators
+      let digits = value.replace(/\D/g, '').length;
+      return value.replace(/\d/g, digit => --digits >= 4 ? '*' : digit);
+    }
+  }
+}
+
+/**
+ * Check a card number with the Luhn algorithm
+ * @param digits The digits of the number
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
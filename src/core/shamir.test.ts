@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import * as crypto from 'crypto';
+import {
+  EscrowShare,
+  SecretShare,
+  combineShares,
+  encodeEscrowShare,
+  parseEscrowShare,
+  splitSecret
+} from './shamir.js';
+
+/**
+ * Every subset of a given size
+ */
+function subsets<T>(items: T[], size: number): T[][] {
+  if (size === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, index) =>
+    subsets(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+  );
+}
+
+describe('splitSecret and combineShares', () => {
+  it('recovers the secret from every subset of threshold shares', () => {
+    const secret = crypto.randomBytes(32);
+    const shares = splitSecret(secret, 3, 5);
+    
+    expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4, 5]);
+    for (const subset of subsets(shares, 3)) {
+      expect(combineShares(subset)).toEqual(secret);
+    }
+  });
+  
+  it('recovers the secret from more than threshold shares', () => {
+    const secret = crypto.randomBytes(32);
+    
+    expect(combineShares(splitSecret(secret, 2, 4))).toEqual(secret);
+  });
+  
+  it('does not recover the secret from fewer than threshold shares', () => {
+    const secret = crypto.randomBytes(32);
+    const shares = splitSecret(secret, 3, 5);
+    
+    for (const subset of subsets(shares, 2)) {
+      expect(combineShares(subset)).not.toEqual(secret);
+    }
+  });
+  
+  it('does not recover the secret from a modified share', () => {
+    const secret = crypto.randomBytes(32);
+    const [first, second] = splitSecret(secret, 2, 3);
+    second.value[0] ^= 0x01;
+    
+    expect(combineShares([first, second])).not.toEqual(secret);
+  });
+  
+  it('rejects invalid thresholds and share counts', () => {
+    const secret = crypto.randomBytes(32);
+    
+    for (const [threshold, shareCount] of [[1, 3], [4, 3], [2, 256], [2.5, 3]]) {
+      expect(() => splitSecret(secret, threshold, shareCount)).toThrow(/threshold/);
+    }
+  });
+  
+  it('rejects duplicate shares', () => {
+    const [share] = splitSecret(crypto.randomBytes(32), 2, 3);
+    const copy: SecretShare = { index: share.index, value: Buffer.from(share.value) };
+    
+    expect(() => combineShares([share, copy])).toThrow(/distinct/);
+  });
+});
+
+describe('escrow share encoding', () => {
+  const share: EscrowShare = { setId: '0a1b2c3d', threshold: 3, index: 2, value: Buffer.from('00ff10', 'hex') };
+  
+  it('round-trips a share', () => {
+    const encoded = encodeEscrowShare(share);
+    
+    expect(encoded).toBe('lsec-share-0a1b2c3d-3-2-00ff10');
+    expect(parseEscrowShare(` ${encoded}\n`)).toEqual(share);
+  });
+  
+  it('rejects malformed shares', () => {
+    for (const encoded of [
+      'lsec-share-0a1b2c3d-3-2-00ff1',
+      'lsec-share-0a1b2c3d-3-0-00ff10',
+      'lsec-share-0a1b2c3d-1-2-00ff10',
+      'lsec-share-0a1b2c3d-3-256-00ff10',
+      'share-0a1b2c3d-3-2-00ff10'
+    ]) {
+      expect(() => parseEscrowShare(encoded)).toThrow('Not a valid key escrow share');
+    }
+  });
+});
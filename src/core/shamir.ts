@@ -0,0 +1,188 @@
+/**
+ * Shamir secret sharing for LLM-Secrets MCP server
+ * Splits a secret into N shares so that any M of them recover it and fewer
+ * reveal nothing. Works byte-wise over GF(256), and defines the text form in
+ * which key escrow shares are handed out.
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { EncryptionError } from '../utils/errors.js';
+
+/** Prefix of an encoded escrow share */
+const SHARE_PREFIX = 'lsec-share';
+
+/**
+ * One share of a split secret
+ */
+export interface SecretShare {
+  /** x coordinate of the share (1-255) */
+  index: number;
+  /** y coordinates, one byte per byte of the secret */
+  value: Buffer;
+}
+
+/**
+ * A key escrow share together with the split it belongs to
+ */
+export interface EscrowShare extends SecretShare {
+  /** Identifier of the split, so shares of different splits are not mixed */
+  setId: string;
+  /** Number of shares needed to recover the secret */
+  threshold: number;
+}
+
+/** Exponent and logarithm tables for GF(256) with generator 3 */
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    EXP[i + 255] = x;
+    LOG[x] = i;
+    // Multiply by the generator 3 modulo the AES polynomial x^8 + x^4 + x^3 + x + 1
+    x ^= (x << 1) ^ ((x & 0x80) ? 0x11b : 0);
+  }
+}
+
+/**
+ * Multiply two elements of GF(256)
+ */
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+/**
+ * Divide two elements of GF(256)
+ */
+function gfDivide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret into shares
+ * @param secret The secret to split
+ * @param threshold Number of shares needed to recover the secret (M)
+ * @param shareCount Number of shares to create (N)
+ * @returns N shares with indexes 1..N
+ */
+export function splitSecret(secret: Buffer, threshold: number, shareCount: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(shareCount) ||
+      threshold < 2 || shareCount < threshold || shareCount > 255) {
+    throw new EncryptionError(
+      'Key escrow requires 2 <= threshold <= shares <= 255',
+      'INVALID_ESCROW'
+    );
+  }
+  
+  const shares: SecretShare[] = [];
+  for (let index = 1; index <= shareCount; index++) {
+    shares.push({ index, value: Buffer.alloc(secret.length) });
+  }
+  
+  // One random polynomial of degree M-1 per byte, with the secret byte as constant term
+  const coefficients = crypto.randomBytes(threshold - 1);
+  try {
+    for (let position = 0; position < secret.length; position++) {
+      crypto.randomFillSync(coefficients);
+      for (const share of shares) {
+        // Horner's rule
+        let y = 0;
+        for (let i = coefficients.length - 1; i >= 0; i--) {
+          y = gfMultiply(y ^ coefficients[i], share.index);
+        }
+        share.value[position] = y ^ secret[position];
+      }
+    }
+  } finally {
+    coefficients.fill(0);
+  }
+  
+  return shares;
+}
+
+/**
+ * Recover a secret from shares by Lagrange interpolation at x = 0.
+ * With fewer shares than the threshold the result is meaningless, not an error.
+ * @param shares Distinct shares of the same secret
+ * @returns The secret (zero it after use)
+ */
+export function combineShares(shares: SecretShare[]): Buffer {
+  if (shares.length === 0) {
+    throw new EncryptionError('No shares to combine', 'INVALID_SHARE');
+  }
+  const length = shares[0].value.length;
+  const indexes = new Set(shares.map(share => share.index));
+  if (indexes.size !== shares.length || shares.some(share => share.value.length !== length)) {
+    throw new EncryptionError('Shares must be distinct and of equal length', 'INVALID_SHARE');
+  }
+  
+  // Lagrange basis polynomials evaluated at 0
+  const weights = shares.map((share, i) => {
+    let weight = 1;
+    shares.forEach((other, j) => {
+      if (i !== j) {
+        weight = gfMultiply(weight, gfDivide(other.index, other.index ^ share.index));
+      }
+    });
+    return weight;
+  });
+  
+  const secret = Buffer.alloc(length);
+  for (let position = 0; position < length; position++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= gfMultiply(share.value[position], weights[i]);
+    });
+    secret[position] = value;
+  }
+  return secret;
+}
+
+/**
+ * Encode an escrow share as text that can be handed to a share holder
+ * @param share The share to encode
+ * @returns Text of the form lsec-share-<setId>-<threshold>-<index>-<hex>
+ */
+export function encodeEscrowShare(share: EscrowShare): string {
+  return [
+    SHARE_PREFIX,
+    share.setId,
+    share.threshold,
+    share.index,
+    share.value.toString('hex')
+  ].join('-');
+}
+
+/**
+ * Parse an escrow share encoded with encodeEscrowShare
+ * @param encoded Share text
+ */
+export function parseEscrowShare(encoded: string): EscrowShare {
+  const match = /^lsec-share-([0-9a-f]{8})-(\d{1,3})-(\d{1,3})-((?:[0-9a-f]{2})+)$/
+    .exec(encoded.trim());
+  if (!match) {
+    throw new EncryptionError('Not a valid key escrow share', 'INVALID_SHARE');
+  }
+  
+  const threshold = Number(match[2]);
+  const index = Number(match[3]);
+  if (index < 1 || index > 255 || threshold < 2 || threshold > 255) {
+    throw new EncryptionError('Not a valid key escrow share', 'INVALID_SHARE');
+  }
+  return { setId: match[1], threshold, index, value: Buffer.from(match[4], 'hex') };
+}
+
+/**
+ * Compute the fingerprint of an escrow share.
+ * Fingerprints are stored in the key file so submitted shares can be
+ * recognized without keeping the shares themselves.
+ * @param share The share
+ */
+export function computeShareFingerprint(share: EscrowShare): string {
+  return crypto.createHash('sha256')
+    .update(encodeEscrowShare(share))
+    .digest('hex')
+    .slice(0, 16);
+}
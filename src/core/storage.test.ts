@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import { DEFAULT_CONFIG } from '../config.js';
+import { StorageError } from '../utils/errors.js';
+import { MemoryBackend } from './backends/index.js';
+import { EnvelopeAlgorithm, EnvelopeAssociatedData, encryptEnvelopePayload } from './envelope.js';
+import { StorageManager, createStorageManager } from './storage.js';
+import { StoredThought, ThoughtQuery } from './types.js';
+
+const memoryStorage = { ...DEFAULT_CONFIG.storage, backend: 'memory' as const };
+
+/** Creation time of the first test thought */
+const START = Date.UTC(2024, 0, 15);
+
+/**
+ * Build an envelope with the given associated data and payload size
+ */
+function envelope(associatedData: EnvelopeAssociatedData, size: number = 16): Buffer {
+  return encryptEnvelopePayload(
+    { algorithm: EnvelopeAlgorithm.AES_256_GCM, keyId: 'test', encapsulatedKey: Buffer.alloc(0), associatedData },
+    crypto.randomBytes(32),
+    crypto.randomBytes(size)
+  );
+}
+
+/**
+ * Follow the cursors of a query to the last page
+ * @returns Ids of every page, in order
+ */
+function collectPages(storage: StorageManager, query: ThoughtQuery): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = storage.queryThoughts({ ...query, cursor });
+    pages.push(page.thoughts.map(thought => thought.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('StorageManager', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  describe('saveEncryptedThought', () => {
+    it('retries with a new id when the id is taken', async () => {
+      const storage = await createStorageManager(memoryStorage);
+      const collision = () => Promise.reject(new StorageError('Thought already exists', 'ALREADY_EXISTS'));
+      const save = jest.spyOn(MemoryBackend.prototype, 'save')
+        .mockImplementationOnce(collision)
+        .mockImplementationOnce(collision);
+      
+      const thought = await storage.saveEncryptedThought(Buffer.from('content'));
+      
+      const ids = save.mock.calls.map(([id]) => id);
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids).size).toBe(3);
+      expect(thought.id).toBe(ids[2]);
+      expect(await storage.readEncryptedThoughtById(thought.id)).toEqual(Buffer.from('content'));
+    });
+    
+    it('gives up after repeated collisions', async () => {
+      const storage = await createStorageManager(memoryStorage);
+      jest.spyOn(MemoryBackend.prototype, 'save')
+        .mockImplementation(() => Promise.reject(new StorageError('Thought already exists', 'ALREADY_EXISTS')));
+      
+      await expect(storage.saveEncryptedThought(Buffer.from('content')))
+        .rejects.toMatchObject({ code: 'STORAGE_ID_COLLISION' });
+      expect((await storage.getStorageStats()).count).toBe(0);
+    });
+    
+    it('does not retry other errors', async () => {
+      const storage = await createStorageManager(memoryStorage);
+      const save = jest.spyOn(MemoryBackend.prototype, 'save')
+        .mockImplementation(() => Promise.reject(new Error('disk full')));
+      
+      await expect(storage.saveEncryptedThought(Buffer.from('content'))).rejects.toThrow('disk full');
+      expect(save).toHaveBeenCalledTimes(1);
+    });
+  });
+  
+  describe('backends', () => {
+    it('never replace an existing thought when saving a new one', async () => {
+      const backend = new MemoryBackend();
+      await backend.initialize();
+      await backend.save('private_thought_01HM0000000000000000000000', Buffer.from('first'));
+      
+      await expect(backend.save('private_thought_01HM0000000000000000000000', Buffer.from('second')))
+        .rejects.toMatchObject({ code: 'STORAGE_ALREADY_EXISTS' });
+      expect(await backend.read('private_thought_01HM0000000000000000000000')).toEqual(Buffer.from('first'));
+    });
+  });
+  
+  describe('queryThoughts', () => {
+    let storage: StorageManager;
+    /** Saved thoughts, oldest first */
+    let saved: StoredThought[];
+    
+    beforeEach(async () => {
+      storage = await createStorageManager(memoryStorage);
+      saved = [];
+      for (let i = 0; i < 7; i++) {
+        const sessionId = i % 2 === 0 ? 'session-a' : 'session-b';
+        // Sizes are distinct and not in creation order; session ids are of equal length
+        saved.push(await storage.saveEncryptedThought(envelope({ timestamp: START + i * 1000, sessionId }, (i * 3) % 7)));
+      }
+    });
+    
+    it('pages through every thought, newest first', () => {
+      const first = storage.queryThoughts({ limit: 3 });
+      
+      expect(first.total).toBe(7);
+      expect(collectPages(storage, { limit: 3 })).toEqual([
+        [saved[6].id, saved[5].id, saved[4].id],
+        [saved[3].id, saved[2].id, saved[1].id],
+        [saved[0].id]
+      ]);
+    });
+    
+    it('pages through thoughts by size', () => {
+      const bySize = saved.slice().sort((a, b) => b.sizeBytes - a.sizeBytes).map(thought => thought.id);
+      
+      expect(collectPages(storage, { sort: 'largest', limit: 2 }).flat()).toEqual(bySize);
+    });
+    
+    it('pages through the thoughts of a session', () => {
+      expect(collectPages(storage, { sessionId: 'session-a', sort: 'oldest', limit: 2 })).toEqual([
+        [saved[0].id, saved[2].id],
+        [saved[4].id, saved[6].id]
+      ]);
+    });
+    
+    it('continues after the last thought of a page when thoughts are added or deleted', async () => {
+      const first = storage.queryThoughts({ limit: 3 });
+      
+      await storage.saveEncryptedThought(envelope({ timestamp: START + 10000 }));
+      await storage.purgeThoughts({ ids: [saved[6].id, saved[3].id] });
+      const second = storage.queryThoughts({ limit: 3, cursor: first.nextCursor! });
+      
+      expect(second.thoughts.map(thought => thought.id)).toEqual([saved[2].id, saved[1].id, saved[0].id]);
+      expect(second.nextCursor).toBeNull();
+    });
+    
+    it('rejects a cursor of another sort order', () => {
+      const { nextCursor } = storage.queryThoughts({ limit: 3 });
+      
+      expect(() => storage.queryThoughts({ sort: 'oldest', cursor: nextCursor! }))
+        .toThrow(expect.objectContaining({ code: 'STORAGE_INVALID_CURSOR' }));
+      expect(() => storage.queryThoughts({ cursor: 'not-a-cursor' }))
+        .toThrow(expect.objectContaining({ code: 'STORAGE_INVALID_CURSOR' }));
+    });
+  });
+  
+  describe('sessions', () => {
+    it('lists sessions by last activity and orders session thoughts by turn', async () => {
+      const storage = await createStorageManager(memoryStorage);
+      const turn2 = await storage.saveEncryptedThought(envelope({ timestamp: START, sessionId: 'a', turnIndex: 2 }));
+      await storage.saveEncryptedThought(envelope({ timestamp: START + 1000, sessionId: 'b' }));
+      const turn1 = await storage.saveEncryptedThought(envelope({ timestamp: START + 2000, sessionId: 'a', turnIndex: 1 }));
+      
+      expect(storage.listSessions().map(session => [session.sessionId, session.thoughtCount])).toEqual([['a', 2], ['b', 1]]);
+      expect(storage.getSession('a')).toMatchObject({
+        firstTimestamp: START,
+        lastTimestamp: START + 2000,
+        thoughts: [{ id: turn1.id }, { id: turn2.id }]
+      });
+      expect(() => storage.getSession('c')).toThrow(expect.objectContaining({ code: 'STORAGE_NOT_FOUND' }));
+    });
+  });
+  
+  describe('retention', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    
+    /**
+     * Create a storage manager with a retention policy
+     */
+    function withRetention(retention: Partial<typeof memoryStorage.retention>): Promise<StorageManager> {
+      return createStorageManager({
+        ...memoryStorage,
+        retention: { ...memoryStorage.retention, ...retention }
+      });
+    }
+    
+    /**
+     * Ids of the stored thoughts, oldest first
+     */
+    function storedIds(storage: StorageManager): string[] {
+      return storage.queryThoughts({ sort: 'oldest', limit: 100 }).thoughts.map(thought => thought.id);
+    }
+    
+    it('expires the oldest thoughts beyond the count limit', async () => {
+      const storage = await withRetention({ maxCount: 3 });
+      const saved: StoredThought[] = [];
+      for (let i = 0; i < 5; i++) {
+        saved.push(await storage.saveEncryptedThought(envelope({ timestamp: START + i * 1000 })));
+      }
+      
+      expect(storedIds(storage)).toEqual(saved.slice(2).map(thought => thought.id));
+      await expect(storage.readEncryptedThoughtById(saved[0].id)).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    });
+    
+    it('expires the oldest thoughts beyond the size limit, but never the newest', async () => {
+      const first = envelope({ timestamp: START });
+      const storage = await withRetention({ maxTotalBytes: Math.floor(first.length * 2.5) });
+      const saved = [await storage.saveEncryptedThought(first)];
+      for (let i = 1; i < 4; i++) {
+        saved.push(await storage.saveEncryptedThought(envelope({ timestamp: START + i * 1000 })));
+      }
+      expect(storedIds(storage)).toEqual([saved[2].id, saved[3].id]);
+      
+      const large = await storage.saveEncryptedThought(envelope({ timestamp: START + 4000 }, first.length * 3));
+      expect(storedIds(storage)).toEqual([large.id]);
+    });
+    
+    it('expires thoughts older than the age limit', async () => {
+      const storage = await withRetention({ maxAgeDays: 30 });
+      const now = Date.now();
+      
+      const old = await storage.saveEncryptedThought(envelope({ timestamp: now - 40 * DAY_MS }));
+      const recent = await storage.saveEncryptedThought(envelope({ timestamp: now - 10 * DAY_MS }));
+      
+      expect(storedIds(storage)).toEqual([recent.id]);
+      expect((await storage.getStorageStats()).retention?.nextExpiry).toEqual({
+        id: recent.id,
+        timestamp: now - 10 * DAY_MS,
+        expiresAt: now + 20 * DAY_MS
+      });
+      await expect(storage.readEncryptedThoughtById(old.id)).rejects.toMatchObject({ code: 'STORAGE_NOT_FOUND' });
+    });
+    
+    it('purges thoughts matching every filter, or only lists them in a dry run', async () => {
+      const storage = await createStorageManager(memoryStorage);
+      const saved: StoredThought[] = [];
+      for (let i = 0; i < 4; i++) {
+        saved.push(await storage.saveEncryptedThought(envelope({ timestamp: START + i * 1000, sessionId: i < 3 ? 'a' : 'b' })));
+      }
+      const filter = { sessionId: 'a', from: START + 1000 };
+      
+      const preview = await storage.purgeThoughts(filter, true);
+      expect(preview.thoughts.map(thought => thought.id).sort()).toEqual([saved[1].id, saved[2].id]);
+      expect(storedIds(storage)).toHaveLength(4);
+      
+      const result = await storage.purgeThoughts(filter);
+      expect(result).toMatchObject({ dryRun: false, failures: [] });
+      expect(storedIds(storage)).toEqual([saved[0].id, saved[3].id]);
+    });
+  });
+});
@@ -1,30 +1,71 @@
 /**
  * Storage module for LLM-Secrets MCP server
- * Handles saving encrypted thoughts to files with timestamp-based names
+ * Handles saving encrypted thoughts under sortable unique ids in the
+ * configured storage backend, keeps the encrypted thought index when
+ * metadata is enabled, keeps an in-memory catalog of all thoughts for
+ * listing and statistics, and enforces the retention policy
  */
 /// <reference types="node" />
 
-import * as fs from 'fs';
-import { promises as fsPromises } from 'fs';
-import * as path from 'path';
-import { StorageConfig } from '../config.js';
-import { StoredThought, StorageStats } from './types.js';
+import * as crypto from 'crypto';
+import { RetentionConfig, StorageConfig } from '../config.js';
+import {
+  PurgeFilter,
+  PurgeResult,
+  RetentionStatus,
+  SessionDetail,
+  SessionSummary,
+  StoredThought,
+  StorageStats,
+  ThoughtDetection,
+  ThoughtIndexEntry,
+  ThoughtKeyUsage,
+  ThoughtPage,
+  ThoughtQuery,
+  ThoughtSortOrder
+} from './types.js';
+import { isEnvelope, parseEnvelope } from './envelope.js';
+import { ThoughtIndex } from './thought-index.js';
+import { ThoughtCatalog } from './thought-catalog.js';
+import { generateThoughtId, getThoughtIdTime, isValidThoughtId } from './thought-id.js';
+import { AuditLog } from './audit-log.js';
+import { StorageBackend, createStorageBackend } from './backends/index.js';
 import { StorageError } from '../utils/errors.js';
 
+/** Attempts to find an unused thought id before giving up */
+const MAX_ID_ATTEMPTS = 5;
+
+/** Milliseconds per day, for the retention age limit */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Thoughts stat'ed at once while loading the catalog without an index */
+const STAT_CONCURRENCY = 32;
+
+/** Page size of thought listings when none is given, and the largest allowed */
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
 /**
  * Manages storage of encrypted private thoughts
  */
 export class StorageManager {
   private readonly config: StorageConfig;
-  private readonly privateDir: string;
+  private readonly backend: StorageBackend;
+  private readonly auditLog: AuditLog | null;
+  private index: ThoughtIndex | null = null;
+  private readonly catalog = new ThoughtCatalog();
+  /** Serializes replacing and deleting thoughts, so a purged thought is never rewritten */
+  private fileQueue: Promise<void> = Promise.resolve();
   
   /**
    * Create a new StorageManager
    * @param config Storage configuration
+   * @param auditLog Audit log recording thoughts expired by the retention policy
    */
-  constructor(config: StorageConfig) {
+  constructor(config: StorageConfig, auditLog?: AuditLog) {
     this.config = config;
-    this.privateDir = path.join(config.basePath, config.privateDir);
+    this.backend = createStorageBackend(config);
+    this.auditLog = auditLog ?? null;
   }
   
   /**
@@ -33,7 +74,14 @@ export class StorageManager {
    */
   public async initialize(): Promise<void> {
     try {
-      await this.ensurePrivateDirectory();
+      await this.backend.initialize();
+      
+      if (this.config.metadataEnabled) {
+        await this.loadIndex();
+      }
+      await this.loadCatalog();
+      
+      await this.enforceRetention();
     } catch (error) {
       throw new StorageError(
         `Failed to initialize storage: ${(error as Error).message}`,
@@ -43,60 +91,178 @@ export class StorageManager {
   }
   
   /**
-   * Create the private directory if it doesn't exist
+   * Load the thought index, rebuilding it from the stored thoughts if it is
+   * missing or unreadable, and bringing it in line with them otherwise
    */
-  private async ensurePrivateDirectory(): Promise<void> {
-    try {
-      await fsPromises.access(this.privateDir);
-    } catch (error) {
-      // Directory doesn't exist, create it
-      await fsPromises.mkdir(this.privateDir, { recursive: true });
+  private async loadIndex(): Promise<void> {
+    // An index that does not outlive the process needs no key file
+    const index = new ThoughtIndex(
+      this.backend.indexLog,
+      this.backend.persistent ? this.config.indexKeyFile : null
+    );
+    const loaded = await index.load();
+    this.index = index;
+    
+    if (!loaded) {
+      const count = await this.rebuildIndex();
+      console.log(`Rebuilt thought index from ${count} encrypted file(s)`);
+      return;
+    }
+    
+    // Thoughts written or removed while the index was not being updated
+    const ids = new Set(await this.listThoughtIds());
+    for (const id of ids) {
+      if (index.get(id)) {
+        continue;
+      }
+      try {
+        await index.put(await this.describeStoredThought(id));
+      } catch (error) {
+        console.error(`Error indexing ${id}: ${(error as Error).message}`);
+        // Continue with other files
+      }
+    }
+    for (const entry of index.list()) {
+      if (!ids.has(entry.id)) {
+        await index.remove(entry.id);
+      }
+    }
+  }
+  
+  /**
+   * Rebuild the thought index from the stored thoughts.
+   * Everything except detector results is recovered from the envelope
+   * headers; detector results are kept for thoughts still in the index.
+   * @returns Number of indexed thoughts
+   */
+  public async rebuildIndex(): Promise<number> {
+    const index = this.requireIndex();
+    const entries: ThoughtIndexEntry[] = [];
+    
+    for (const id of await this.listThoughtIds()) {
+      try {
+        const entry = await this.describeStoredThought(id);
+        entry.detection = index.get(entry.id)?.detection ?? null;
+        entries.push(entry);
+      } catch (error) {
+        console.error(`Error indexing ${id}: ${(error as Error).message}`);
+        // Continue with other files
+      }
+    }
+    
+    await index.replaceAll(entries);
+    this.catalog.replaceAll(entries.map(entry => this.toStoredThought(entry)));
+    return entries.length;
+  }
+  
+  /**
+   * Get the thought index, failing if metadata is disabled
+   */
+  private requireIndex(): ThoughtIndex {
+    if (!this.index) {
+      throw new StorageError('Thought metadata is disabled', 'METADATA_DISABLED');
     }
+    return this.index;
   }
   
   /**
-   * Generate a timestamp-based filename for an encrypted thought
+   * Build the index entry of a stored thought from its contents
    */
-  private generateFilename(): string {
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[-:T.Z]/g, '')
-      .slice(0, 14);
+  private async describeStoredThought(id: string): Promise<ThoughtIndexEntry> {
+    const [data, stats] = await Promise.all([
+      this.backend.read(id),
+      this.backend.stat(id)
+    ]);
+    return describeThought(id, data, getThoughtIdTime(id) ?? stats.modifiedAt, null);
+  }
+  
+  /**
+   * Fill the catalog from the index or, without metadata, from the sizes and
+   * ids of the stored thoughts
+   */
+  private async loadCatalog(): Promise<void> {
+    if (this.index) {
+      this.catalog.replaceAll(this.index.list().map(entry => this.toStoredThought(entry)));
+      return;
+    }
     
-    return `private_thought_${timestamp}.enc`;
+    const ids = await this.listThoughtIds();
+    const thoughts: StoredThought[] = [];
+    for (let start = 0; start < ids.length; start += STAT_CONCURRENCY) {
+      const batch = ids.slice(start, start + STAT_CONCURRENCY);
+      await Promise.all(batch.map(async id => {
+        try {
+          const stats = await this.backend.stat(id);
+          thoughts.push({
+            id,
+            filepath: this.backend.locate(id),
+            timestamp: getThoughtIdTime(id) ?? stats.modifiedAt,
+            sizeBytes: stats.sizeBytes
+          });
+        } catch (error) {
+          console.error(`Error getting metadata for ${id}: ${(error as Error).message}`);
+          // Continue with other thoughts
+        }
+      }));
+    }
+    this.catalog.replaceAll(thoughts);
   }
   
   /**
-   * Save encrypted thought data to a file
+   * Save encrypted thought data under a new id.
+   * The thought is written atomically and never replaces an existing one;
+   * the returned metadata means the thought is durable in the backend.
    * @param encryptedData Buffer containing the encrypted data
+   * @param detection Detector results to record in the thought index
    * @returns Metadata about the stored thought
    */
-  public async saveEncryptedThought(encryptedData: Buffer): Promise<StoredThought> {
+  public async saveEncryptedThought(
+    encryptedData: Buffer,
+    detection?: ThoughtDetection
+  ): Promise<StoredThought> {
     try {
       // Validate input
       if (!encryptedData || encryptedData.length === 0) {
         throw new StorageError('Cannot save empty encrypted data', 'EMPTY_DATA');
       }
       
-      // Ensure directory exists
-      await this.ensurePrivateDirectory();
-      
-      // Generate filename
-      const filename = this.generateFilename();
-      const filepath = path.join(this.privateDir, filename);
-      
-      // Save encrypted data to file
-      await fsPromises.writeFile(filepath, encryptedData);
+      // Save encrypted data under a new id, retrying on an id collision
+      let id = '';
+      for (let attempt = 1; !id; attempt++) {
+        const candidate = generateThoughtId();
+        try {
+          await this.backend.save(candidate, encryptedData);
+          id = candidate;
+        } catch (error) {
+          if (!(error instanceof StorageError && error.code === 'STORAGE_ALREADY_EXISTS')) {
+            throw error;
+          }
+          if (attempt >= MAX_ID_ATTEMPTS) {
+            throw new StorageError('Could not find an unused thought id', 'ID_COLLISION');
+          }
+        }
+      }
       
-      // Create and return metadata
-      const thought: StoredThought = {
-        id: path.basename(filename, '.enc'),
-        filepath,
-        timestamp: Date.now(),
-        sizeBytes: encryptedData.length
-      };
+      // Create metadata
+      let thought: StoredThought;
+      if (this.index) {
+        const entry = describeThought(id, encryptedData, Date.now(), detection ?? null);
+        await this.index.put(entry);
+        thought = this.toStoredThought(entry);
+      } else {
+        thought = {
+          id,
+          filepath: this.backend.locate(id),
+          timestamp: getThoughtIdTime(id) ?? Date.now(),
+          sizeBytes: encryptedData.length
+        };
+      }
+      this.catalog.put(thought);
       
-      // If metadata storage is enabled, could save metadata to a separate file here
+      // The thought is saved even if expiring old ones fails
+      await this.enforceRetention().catch(error => {
+        console.error(`Error enforcing retention policy: ${(error as Error).message}`);
+      });
       
       return thought;
     } catch (error) {
@@ -116,65 +282,172 @@ export class StorageManager {
   }
   
   /**
-   * Get a list of all saved encrypted thought files
-   * @returns Array of file paths
+   * Get the ids of all stored thoughts
+   * @returns Array of thought ids
    */
-  public async getSavedFiles(): Promise<string[]> {
+  public async listThoughtIds(): Promise<string[]> {
     try {
-      const files = await fsPromises.readdir(this.privateDir);
-      return files
-        .filter(file => file.endsWith('.enc'))
-        .map(file => path.join(this.privateDir, file));
+      return await this.backend.list();
     } catch (error) {
-      // If directory doesn't exist, return empty array
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return [];
-      }
       throw new StorageError(
-        `Failed to list saved files: ${(error as Error).message}`,
+        `Failed to list stored thoughts: ${(error as Error).message}`,
         'LIST_FAILED'
       );
     }
   }
   
   /**
-   * Get metadata for all stored thoughts
-   * @returns Array of thought metadata
+   * Describe where a thought is stored, e.g. its file path
+   * @param id Thought id
+   */
+  public getThoughtLocation(id: string): string {
+    return this.backend.locate(id);
+  }
+  
+  /**
+   * Get metadata for all stored thoughts, from the in-memory catalog
+   * @returns Array of thought metadata, newest first
    */
   public async getThoughtMetadata(): Promise<StoredThought[]> {
-    const filePaths = await this.getSavedFiles();
-    const thoughtsMetadata: StoredThought[] = [];
+    return this.catalog.list();
+  }
+  
+  /**
+   * Get the metadata of a single thought
+   * @param id Thought id
+   */
+  public getThought(id: string): StoredThought {
+    const thought = this.catalog.get(id);
+    if (!thought) {
+      throw new StorageError(`Thought not found: ${id}`, 'NOT_FOUND');
+    }
+    return thought;
+  }
+  
+  /**
+   * Get a page of thought metadata matching a query.
+   * Cursors point after the last thought of a page rather than at an
+   * offset, so paging stays consistent while thoughts are added or deleted.
+   * @param query Filters, sort order, cursor and page size
+   */
+  public queryThoughts(query: ThoughtQuery): ThoughtPage {
+    const needsIndex = query.sessionId !== undefined || query.tag !== undefined || query.sourceTool !== undefined;
+    if (needsIndex && !this.index) {
+      throw new StorageError(
+        'Filtering by session, tag or source tool requires thought metadata',
+        'METADATA_DISABLED'
+      );
+    }
     
-    for (const filepath of filePaths) {
-      try {
-        const stats = await fsPromises.stat(filepath);
-        const filename = path.basename(filepath);
-        
-        thoughtsMetadata.push({
-          id: path.basename(filename, '.enc'),
-          filepath,
-          timestamp: stats.mtimeMs,
-          sizeBytes: stats.size
+    const sort = query.sort ?? 'newest';
+    const compare = THOUGHT_ORDERS[sort];
+    const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    
+    // The catalog is already ordered by creation time
+    const candidates = sort === 'oldest' ? Array.from(this.catalog.oldestFirst()) : this.catalog.list();
+    const matching = candidates.filter(thought => matchesQuery(thought, query));
+    if (sort === 'largest' || sort === 'smallest') {
+      matching.sort(compare);
+    }
+    
+    const start = query.cursor === undefined ? 0 : findAfter(matching, decodeCursor(query.cursor, sort), compare);
+    const thoughts = matching.slice(start, start + limit);
+    const last = thoughts[thoughts.length - 1];
+    
+    return {
+      thoughts,
+      nextCursor: last && start + limit < matching.length ? encodeCursor(last, sort) : null,
+      total: matching.length
+    };
+  }
+  
+  /**
+   * Summarize the stored thoughts of every session, most recently active first
+   */
+  public listSessions(): SessionSummary[] {
+    this.requireIndex();
+    
+    const sessions = new Map<string, SessionSummary>();
+    // Oldest first, so the last thought seen in a session is its newest
+    for (const thought of this.catalog.oldestFirst()) {
+      if (!thought.sessionId) {
+        continue;
+      }
+      const session = sessions.get(thought.sessionId);
+      if (session) {
+        session.thoughtCount++;
+        session.totalSizeBytes += thought.sizeBytes;
+        session.lastTimestamp = thought.timestamp;
+      } else {
+        sessions.set(thought.sessionId, {
+          sessionId: thought.sessionId,
+          thoughtCount: 1,
+          totalSizeBytes: thought.sizeBytes,
+          firstTimestamp: thought.timestamp,
+          lastTimestamp: thought.timestamp
         });
-      } catch (error) {
-        console.error(`Error getting metadata for ${filepath}: ${(error as Error).message}`);
-        // Continue with other files
       }
     }
     
-    // Sort by timestamp (newest first)
-    return thoughtsMetadata.sort((a, b) => b.timestamp - a.timestamp);
+    return [...sessions.values()].sort((a, b) => b.lastTimestamp - a.lastTimestamp);
+  }
+  
+  /**
+   * Get a session with the metadata of its thoughts
+   * @param sessionId Session or conversation id
+   */
+  public getSession(sessionId: string): SessionDetail {
+    this.requireIndex();
+    
+    const thoughts = Array.from(this.catalog.oldestFirst())
+      .filter(thought => thought.sessionId === sessionId);
+    if (thoughts.length === 0) {
+      throw new StorageError(`Session not found: ${sessionId}`, 'NOT_FOUND');
+    }
+    
+    return {
+      sessionId,
+      thoughtCount: thoughts.length,
+      totalSizeBytes: thoughts.reduce((sum, thought) => sum + thought.sizeBytes, 0),
+      firstTimestamp: thoughts[0].timestamp,
+      lastTimestamp: thoughts[thoughts.length - 1].timestamp,
+      thoughts: thoughts.sort(compareTurns)
+    };
   }
   
   /**
-   * Read an encrypted thought file
-   * @param filepath Path to the encrypted file
+   * Convert an index entry to thought metadata
+   */
+  private toStoredThought(entry: ThoughtIndexEntry): StoredThought {
+    return {
+      id: entry.id,
+      filepath: this.backend.locate(entry.id),
+      timestamp: entry.createdAt,
+      sizeBytes: entry.sizeBytes,
+      sourceTool: entry.sourceTool,
+      sessionId: entry.sessionId,
+      turnIndex: entry.turnIndex ?? null,
+      tags: entry.tags ?? [],
+      detection: entry.detection,
+      ciphertextHash: entry.ciphertextHash,
+      keyId: entry.keyId
+    };
+  }
+  
+  /**
+   * Read an encrypted thought by id
+   * @param id Thought id
    * @returns Buffer containing the encrypted data
    */
-  public async readEncryptedThought(filepath: string): Promise<Buffer> {
+  public async readEncryptedThoughtById(id: string): Promise<Buffer> {
+    assertValidId(id);
+    
     try {
-      return await fsPromises.readFile(filepath);
+      return await this.backend.read(id);
     } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
       throw new StorageError(
         `Failed to read encrypted thought: ${(error as Error).message}`,
         'READ_FAILED'
@@ -183,44 +456,383 @@ export class StorageManager {
   }
   
   /**
-   * Get storage statistics
-   * @returns Statistics about stored thoughts
+   * Atomically replace the contents of an existing encrypted thought
+   * @param id Thought id
+   * @param encryptedData Buffer containing the new encrypted data
    */
-  public async getStorageStats(): Promise<StorageStats> {
-    const thoughts = await this.getThoughtMetadata();
+  public replaceEncryptedThoughtById(id: string, encryptedData: Buffer): Promise<void> {
+    return this.runExclusive(() => this.replaceThought(id, encryptedData));
+  }
+  
+  /**
+   * Replace the contents of a thought (runs exclusively)
+   */
+  private async replaceThought(id: string, encryptedData: Buffer): Promise<void> {
+    try {
+      if (!encryptedData || encryptedData.length === 0) {
+        throw new StorageError('Cannot save empty encrypted data', 'EMPTY_DATA');
+      }
+      assertValidId(id);
+      
+      await this.backend.save(id, encryptedData, { replace: true });
+      
+      if (this.index) {
+        const existing = this.index.get(id);
+        const entry = describeThought(id, encryptedData, existing?.createdAt ?? Date.now(), existing?.detection ?? null);
+        await this.index.put(entry);
+        this.catalog.put(this.toStoredThought(entry));
+      } else {
+        const existing = this.catalog.get(id);
+        if (existing) {
+          this.catalog.put({ ...existing, sizeBytes: encryptedData.length });
+        }
+      }
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError(
+        `Failed to replace encrypted thought: ${(error as Error).message}`,
+        'SAVE_FAILED'
+      );
+    }
+  }
+  
+  /**
+   * Delete the thoughts matching a filter.
+   * Each file is overwritten before it is unlinked, and its index entry is
+   * removed. Thoughts that cannot be deleted are reported, not thrown.
+   * @param filter Criteria the thoughts must all match
+   * @param dryRun Only report what would be deleted
+   * @returns The deleted thoughts
+   */
+  public purgeThoughts(filter: PurgeFilter, dryRun: boolean = false): Promise<PurgeResult> {
+    if (filter.sessionId !== undefined && !this.index) {
+      return Promise.reject(new StorageError(
+        'Filtering by session requires thought metadata',
+        'METADATA_DISABLED'
+      ));
+    }
     
-    if (thoughts.length === 0) {
-      return {
-        count: 0,
-        totalSizeBytes: 0,
-        oldestTimestamp: 0,
-        newestTimestamp: 0
-      };
+    return this.runExclusive(async () => {
+      const ids = filter.ids ? new Set(filter.ids) : null;
+      const matching = (await this.getThoughtMetadata()).filter(thought =>
+        (!ids || ids.has(thought.id)) &&
+        (filter.from === undefined || thought.timestamp >= filter.from) &&
+        (filter.to === undefined || thought.timestamp <= filter.to) &&
+        (filter.sessionId === undefined || thought.sessionId === filter.sessionId)
+      );
+      return this.deleteThoughts(matching, dryRun);
+    });
+  }
+  
+  /**
+   * Delete the thoughts that the retention policy has expired, and record
+   * each in the audit log. Runs on startup and after each save.
+   * @returns The expired thoughts
+   */
+  public enforceRetention(): Promise<PurgeResult> {
+    const policy = this.config.retention;
+    if (!isRetentionEnabled(policy)) {
+      return Promise.resolve({ dryRun: false, thoughts: [], totalSizeBytes: 0, failures: [] });
     }
     
-    const totalSizeBytes = thoughts.reduce(
-      (sum, thought) => sum + thought.sizeBytes, 
-      0
-    );
+    return this.runExclusive(async () => {
+      const expired = selectExpired(this.catalog, policy, Date.now());
+      const result = await this.deleteThoughts(expired, false);
+      
+      if (result.thoughts.length > 0) {
+        console.error(`Retention policy expired ${result.thoughts.length} thought(s)`);
+      }
+      for (const thought of result.thoughts) {
+        await this.auditLog?.record({ operation: 'retention', thoughtId: thought.id, outcome: 'success' });
+      }
+      for (const failure of result.failures) {
+        console.error(`Error expiring ${failure.id}: ${failure.error}`);
+      }
+      return result;
+    });
+  }
+  
+  /**
+   * Securely delete and unindex thoughts (runs exclusively)
+   */
+  private async deleteThoughts(thoughts: StoredThought[], dryRun: boolean): Promise<PurgeResult> {
+    const result: PurgeResult = { dryRun, thoughts: [], totalSizeBytes: 0, failures: [] };
     
-    const timestamps = thoughts.map(t => t.timestamp);
+    for (const thought of thoughts) {
+      try {
+        if (!dryRun) {
+          await this.backend.delete(thought.id).catch(error => {
+            // Already gone; only the index entry is left
+            if (!(error instanceof StorageError && error.code === 'STORAGE_NOT_FOUND')) {
+              throw error;
+            }
+          });
+          await this.index?.remove(thought.id);
+          this.catalog.remove(thought.id);
+        }
+        result.thoughts.push({ id: thought.id, timestamp: thought.timestamp, sizeBytes: thought.sizeBytes });
+        result.totalSizeBytes += thought.sizeBytes;
+      } catch (error) {
+        result.failures.push({ id: thought.id, error: (error as Error).message });
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Run file replacements and deletions one at a time, in call order
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.fileQueue.then(task);
+    this.fileQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+  
+  /**
+   * Count the thoughts protected by each key from the thought index
+   * @returns The counts, or undefined if thought metadata is disabled
+   */
+  public getKeyUsage(): ThoughtKeyUsage | undefined {
+    return this.index ? this.catalog.countByKeyId() : undefined;
+  }
+  
+  /**
+   * Get storage statistics; the catalog keeps running totals, so this does
+   * not depend on the number of thoughts
+   * @returns Statistics about stored thoughts
+   */
+  public async getStorageStats(): Promise<StorageStats> {
+    const bySourceTool = this.index ? this.catalog.countBySourceTool() : undefined;
+    const bySensitiveDataType = this.index ? this.catalog.countBySensitiveDataType() : undefined;
+    const retention = isRetentionEnabled(this.config.retention)
+      ? getRetentionStatus(this.catalog, this.config.retention, Date.now())
+      : undefined;
     
     return {
-      count: thoughts.length,
-      totalSizeBytes,
-      oldestTimestamp: Math.min(...timestamps),
-      newestTimestamp: Math.max(...timestamps)
+      count: this.catalog.size,
+      totalSizeBytes: this.catalog.totalSizeBytes,
+      oldestTimestamp: this.catalog.oldest()?.timestamp ?? 0,
+      newestTimestamp: this.catalog.newest()?.timestamp ?? 0,
+      ...(bySourceTool ? { bySourceTool } : {}),
+      ...(bySensitiveDataType ? { bySensitiveDataType } : {}),
+      ...(retention ? { retention } : {})
     };
   }
 }
 
+/**
+ * Build the index entry of a thought from its encrypted contents.
+ * Creation time, source tool and session come from the envelope's
+ * associated data; legacy files fall back to the given time.
+ * @param id Thought id
+ * @param encryptedData Contents of the thought file
+ * @param fallbackTime Creation time to use if the file records none
+ * @param detection Detector results, if known
+ */
+function describeThought(
+  id: string,
+  encryptedData: Buffer,
+  fallbackTime: number,
+  detection: ThoughtDetection | null
+): ThoughtIndexEntry {
+  let associatedData: Record<string, string | number> = {};
+  let keyId: string | null = null;
+  if (isEnvelope(encryptedData)) {
+    const { header } = parseEnvelope(encryptedData);
+    associatedData = header.associatedData ?? {};
+    keyId = header.keyId;
+  }
+  
+  return {
+    id,
+    createdAt: typeof associatedData.timestamp === 'number' ? associatedData.timestamp : fallbackTime,
+    sizeBytes: encryptedData.length,
+    sourceTool: typeof associatedData.sourceTool === 'string' ? associatedData.sourceTool : null,
+    sessionId: typeof associatedData.sessionId === 'string' ? associatedData.sessionId : null,
+    turnIndex: typeof associatedData.turnIndex === 'number' ? associatedData.turnIndex : null,
+    tags: typeof associatedData.tags === 'string' && associatedData.tags.length > 0 ? associatedData.tags.split(',') : [],
+    detection,
+    ciphertextHash: crypto.createHash('sha256').update(encryptedData).digest('hex'),
+    keyId
+  };
+}
+
+/** Comparators for each sort order; ties are broken by creation time, then id */
+const THOUGHT_ORDERS: Record<ThoughtSortOrder, (a: StoredThought, b: StoredThought) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp || compareIds(b.id, a.id),
+  oldest: (a, b) => a.timestamp - b.timestamp || compareIds(a.id, b.id),
+  largest: (a, b) => b.sizeBytes - a.sizeBytes || THOUGHT_ORDERS.newest(a, b),
+  smallest: (a, b) => a.sizeBytes - b.sizeBytes || THOUGHT_ORDERS.oldest(a, b)
+};
+
+/**
+ * Order thoughts by conversation turn; thoughts without a turn come last.
+ * Sorting is stable, so thoughts of the same turn stay in creation order.
+ */
+function compareTurns(a: StoredThought, b: StoredThought): number {
+  const turnA = a.turnIndex ?? Number.MAX_SAFE_INTEGER;
+  const turnB = b.turnIndex ?? Number.MAX_SAFE_INTEGER;
+  return turnA - turnB;
+}
+
+/**
+ * Order two ids
+ */
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Whether a thought matches the filters of a query
+ */
+function matchesQuery(thought: StoredThought, query: ThoughtQuery): boolean {
+  return (query.from === undefined || thought.timestamp >= query.from) &&
+    (query.to === undefined || thought.timestamp <= query.to) &&
+    (query.sessionId === undefined || thought.sessionId === query.sessionId) &&
+    (query.tag === undefined || (thought.tags ?? []).includes(query.tag)) &&
+    (query.sourceTool === undefined || thought.sourceTool === query.sourceTool) &&
+    (query.minSizeBytes === undefined || thought.sizeBytes >= query.minSizeBytes);
+}
+
+/**
+ * Binary search for the first thought that sorts after a cursor position
+ * @param thoughts Thoughts sorted with compare
+ */
+function findAfter(
+  thoughts: StoredThought[],
+  position: StoredThought,
+  compare: (a: StoredThought, b: StoredThought) => number
+): number {
+  let low = 0;
+  let high = thoughts.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compare(thoughts[middle], position) <= 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Encode the position of the last thought of a page as an opaque cursor
+ */
+function encodeCursor(thought: StoredThought, sort: ThoughtSortOrder): string {
+  return Buffer.from(JSON.stringify([sort, thought.timestamp, thought.sizeBytes, thought.id]))
+    .toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeCursor for the same sort order
+ * @returns The position the cursor points after
+ */
+function decodeCursor(cursor: string, sort: ThoughtSortOrder): StoredThought {
+  try {
+    const [cursorSort, timestamp, sizeBytes, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (
+      cursorSort === sort &&
+      Number.isFinite(timestamp) &&
+      Number.isFinite(sizeBytes) &&
+      typeof id === 'string'
+    ) {
+      return { id, filepath: '', timestamp, sizeBytes };
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new StorageError('Invalid cursor; cursors only apply to the listing that returned them', 'INVALID_CURSOR');
+}
+
+/**
+ * Refuse malformed thought ids
+ */
+function assertValidId(id: string): void {
+  if (!isValidThoughtId(id)) {
+    throw new StorageError(`Invalid thought id: ${id}`, 'INVALID_ID');
+  }
+}
+
+/**
+ * Whether any retention limit is set
+ */
+function isRetentionEnabled(policy: RetentionConfig): boolean {
+  return policy.maxAgeDays > 0 || policy.maxCount > 0 || policy.maxTotalBytes > 0;
+}
+
+/**
+ * Select the thoughts the retention policy expires.
+ * Thoughts older than the age limit expire, and the oldest thoughts expire
+ * until the count and size limits are met. The count and size limits never
+ * expire the newest thought, so a save is never undone by its own size.
+ * Only the expired thoughts are visited, oldest first.
+ * @param catalog Stored thoughts
+ * @param policy Retention policy
+ * @param now Current time (Unix timestamp in ms)
+ */
+function selectExpired(
+  catalog: ThoughtCatalog,
+  policy: RetentionConfig,
+  now: number
+): StoredThought[] {
+  const cutoff = policy.maxAgeDays > 0 ? now - policy.maxAgeDays * DAY_MS : -Infinity;
+  let remainingCount = catalog.size;
+  let remainingBytes = catalog.totalSizeBytes;
+  const expired: StoredThought[] = [];
+  
+  for (const thought of catalog.oldestFirst()) {
+    const overLimit = remainingCount > 1 && (
+      (policy.maxCount > 0 && remainingCount > policy.maxCount) ||
+      (policy.maxTotalBytes > 0 && remainingBytes > policy.maxTotalBytes)
+    );
+    if (thought.timestamp >= cutoff && !overLimit) {
+      break;
+    }
+    expired.push(thought);
+    remainingCount--;
+    remainingBytes -= thought.sizeBytes;
+  }
+  return expired;
+}
+
+/**
+ * Describe what the retention policy expires next
+ * @param catalog Stored thoughts
+ * @param policy Retention policy
+ * @param now Current time (Unix timestamp in ms)
+ */
+function getRetentionStatus(
+  catalog: ThoughtCatalog,
+  policy: RetentionConfig,
+  now: number
+): RetentionStatus {
+  const oldest = catalog.oldest();
+  
+  return {
+    nextExpiry: oldest ? {
+      id: oldest.id,
+      timestamp: oldest.timestamp,
+      expiresAt: policy.maxAgeDays > 0 ? oldest.timestamp + policy.maxAgeDays * DAY_MS : null
+    } : null,
+    remainingCount: policy.maxCount > 0 ? Math.max(0, policy.maxCount - catalog.size) : null,
+    remainingBytes: policy.maxTotalBytes > 0 ? Math.max(0, policy.maxTotalBytes - catalog.totalSizeBytes) : null
+  };
+}
+
 /**
  * Factory function to create and initialize a StorageManager
+ * @param config Storage configuration
+ * @param auditLog Audit log recording thoughts expired by the retention policy
  */
 export async function createStorageManager(
-  config: StorageConfig
+  config: StorageConfig,
+  auditLog?: AuditLog
 ): Promise<StorageManager> {
-  const manager = new StorageManager(config);
+  const manager = new StorageManager(config, auditLog);
   await manager.initialize();
   return manager;
 }
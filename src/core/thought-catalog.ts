@@ -0,0 +1,200 @@
+/**
+ * Thought catalog for LLM-Secrets MCP server
+ * Keeps the metadata of every stored thought in memory, ordered by creation
+ * time, with running totals. It is filled once on startup and updated on
+ * every save, replacement and deletion, so listing never touches the storage
+ * backend and statistics are O(1).
+ */
+
+import { StoredThought, ThoughtKeyUsage } from './types.js';
+
+/**
+ * In-memory, time-ordered metadata of the stored thoughts
+ */
+export class ThoughtCatalog {
+  private readonly byId = new Map<string, StoredThought>();
+  /** Thoughts ordered by creation time, then id (oldest first) */
+  private ordered: StoredThought[] = [];
+  private sizeBytes = 0;
+  private readonly sourceToolCounts = new Map<string, number>();
+  private readonly sensitiveDataCounts = new Map<string, number>();
+  private readonly keyIdCounts = new Map<string, number>();
+  private legacyCount = 0;
+  
+  /**
+   * Number of thoughts
+   */
+  public get size(): number {
+    return this.byId.size;
+  }
+  
+  /**
+   * Total size of all thoughts in bytes
+   */
+  public get totalSizeBytes(): number {
+    return this.sizeBytes;
+  }
+  
+  /**
+   * Get a thought
+   * @param id Thought id
+   */
+  public get(id: string): StoredThought | undefined {
+    return this.byId.get(id);
+  }
+  
+  /**
+   * The oldest thought
+   */
+  public oldest(): StoredThought | undefined {
+    return this.ordered[0];
+  }
+  
+  /**
+   * The newest thought
+   */
+  public newest(): StoredThought | undefined {
+    return this.ordered[this.ordered.length - 1];
+  }
+  
+  /**
+   * List all thoughts, newest first
+   */
+  public list(): StoredThought[] {
+    return this.ordered.slice().reverse();
+  }
+  
+  /**
+   * Iterate over all thoughts, oldest first.
+   * The catalog must not be changed during the iteration.
+   */
+  public oldestFirst(): IterableIterator<StoredThought> {
+    return this.ordered.values();
+  }
+  
+  /**
+   * Number of thoughts per source tool
+   */
+  public countBySourceTool(): Record<string, number> {
+    return Object.fromEntries(this.sourceToolCounts);
+  }
+  
+  /**
+   * Number of thoughts containing each type of sensitive data
+   */
+  public countBySensitiveDataType(): Record<string, number> {
+    return Object.fromEntries(this.sensitiveDataCounts);
+  }
+  
+  /**
+   * Number of thoughts protected by each key. Thoughts whose key id is not
+   * known (without the thought index) are not counted.
+   */
+  public countByKeyId(): ThoughtKeyUsage {
+    return { byKeyId: Object.fromEntries(this.keyIdCounts), legacy: this.legacyCount };
+  }
+  
+  /**
+   * Add a thought, or update it if it is already in the catalog
+   * @param thought The thought's metadata
+   */
+  public put(thought: StoredThought): void {
+    this.remove(thought.id);
+    
+    this.byId.set(thought.id, thought);
+    // New thoughts are nearly always the newest, so this is usually an append
+    this.ordered.splice(this.findPosition(thought), 0, thought);
+    this.sizeBytes += thought.sizeBytes;
+    this.countThought(thought, 1);
+  }
+  
+  /**
+   * Remove a thought
+   * @param id Thought id
+   * @returns Whether the thought was in the catalog
+   */
+  public remove(id: string): boolean {
+    const thought = this.byId.get(id);
+    if (!thought) {
+      return false;
+    }
+    
+    this.byId.delete(id);
+    this.ordered.splice(this.findPosition(thought) - 1, 1);
+    this.sizeBytes -= thought.sizeBytes;
+    this.countThought(thought, -1);
+    return true;
+  }
+  
+  /**
+   * Replace the contents of the catalog
+   * @param thoughts All stored thoughts, in any order
+   */
+  public replaceAll(thoughts: StoredThought[]): void {
+    this.byId.clear();
+    this.sourceToolCounts.clear();
+    this.sensitiveDataCounts.clear();
+    this.keyIdCounts.clear();
+    this.legacyCount = 0;
+    this.sizeBytes = 0;
+    
+    this.ordered = thoughts.slice().sort(compareThoughts);
+    for (const thought of this.ordered) {
+      this.byId.set(thought.id, thought);
+      this.sizeBytes += thought.sizeBytes;
+      this.countThought(thought, 1);
+    }
+  }
+  
+  /**
+   * Binary search for the position after every thought that sorts at or
+   * before the given one
+   */
+  private findPosition(thought: StoredThought): number {
+    let low = 0;
+    let high = this.ordered.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compareThoughts(this.ordered[middle], thought) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+  
+  /**
+   * Adjust the counts of the thought's source tool, sensitive data types and key
+   */
+  private countThought(thought: StoredThought, delta: number): void {
+    adjustCount(this.sourceToolCounts, thought.sourceTool ?? 'unknown', delta);
+    for (const type of thought.detection?.sensitiveDataTypes ?? []) {
+      adjustCount(this.sensitiveDataCounts, type, delta);
+    }
+    if (thought.keyId === null) {
+      this.legacyCount += delta;
+    } else if (thought.keyId !== undefined) {
+      adjustCount(this.keyIdCounts, thought.keyId, delta);
+    }
+  }
+}
+
+/**
+ * Adjust a count, dropping it when it reaches zero
+ */
+function adjustCount(counts: Map<string, number>, key: string, delta: number): void {
+  const count = (counts.get(key) ?? 0) + delta;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
+
+/**
+ * Order thoughts by creation time, then id
+ */
+function compareThoughts(a: StoredThought, b: StoredThought): number {
+  return a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
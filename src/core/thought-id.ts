@@ -0,0 +1,54 @@
+/**
+ * Thought ids for LLM-Secrets MCP server
+ * Ids are `private_thought_<ULID>`. Thoughts written before ULIDs were
+ * introduced use `private_thought_<YYYYMMDDHHMMSS>` (UTC). Both formats
+ * carry the creation time, which decides where a thought is stored.
+ */
+
+import { decodeTime, isUlid, ulid } from '../utils/ulid.js';
+
+/** Prefix of thought ids and file names */
+const THOUGHT_ID_PREFIX = 'private_thought_';
+
+/** Timestamp part of legacy ids */
+const LEGACY_TIMESTAMP = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/;
+
+/**
+ * Generate a unique, time-sortable thought id
+ */
+export function generateThoughtId(): string {
+  return `${THOUGHT_ID_PREFIX}${ulid()}`;
+}
+
+/**
+ * Check that a thought id is well-formed. Ids double as file names, so
+ * anything that could escape the private directory is refused.
+ * @param id The id to check
+ */
+export function isValidThoughtId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+/**
+ * Get the creation time recorded in a thought id
+ * @param id Thought id
+ * @returns Unix timestamp in ms, or null if the id carries no time
+ */
+export function getThoughtIdTime(id: string): number | null {
+  if (!id.startsWith(THOUGHT_ID_PREFIX)) {
+    return null;
+  }
+  const suffix = id.slice(THOUGHT_ID_PREFIX.length);
+  
+  if (isUlid(suffix)) {
+    return decodeTime(suffix);
+  }
+  
+  const legacy = LEGACY_TIMESTAMP.exec(suffix);
+  if (legacy) {
+    const [, year, month, day, hour, minute, second] = legacy.map(Number);
+    const time = Date.UTC(year, month - 1, day, hour, minute, second);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
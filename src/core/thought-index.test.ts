@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { DEFAULT_CONFIG, StorageConfig } from '../config.js';
+import { FilesystemBackend } from './backends/index.js';
+import { EnvelopeAlgorithm, encryptEnvelopePayload } from './envelope.js';
+import { createStorageManager } from './storage.js';
+import { ThoughtIndex } from './thought-index.js';
+import { ThoughtDetection, ThoughtIndexEntry } from './types.js';
+
+const DETECTION: ThoughtDetection = { introspectionScore: 0.9, sensitivityScore: 0.1, matchedRules: ['pattern:honestly'] };
+
+/**
+ * An index entry for a thought
+ */
+function entry(id: string): ThoughtIndexEntry {
+  return {
+    id,
+    createdAt: Date.UTC(2024, 0, 15),
+    sizeBytes: 64,
+    sourceTool: 'encrypt_thought',
+    sessionId: 'session-1',
+    turnIndex: 0,
+    tags: [],
+    detection: DETECTION,
+    ciphertextHash: crypto.randomBytes(32).toString('hex'),
+    keyId: 'key-1'
+  };
+}
+
+describe('ThoughtIndex', () => {
+  let dir: string;
+  let logFile: string;
+  let keyFile: string;
+  
+  /**
+   * Load the index log of the private directory into a new index
+   * @returns The index and whether it loaded
+   */
+  async function loadIndex(): Promise<{ index: ThoughtIndex; loaded: boolean }> {
+    const index = new ThoughtIndex(new FilesystemBackend(path.join(dir, 'private')).indexLog, keyFile);
+    const loaded = await index.load();
+    return { index, loaded };
+  }
+  
+  /**
+   * The records of the log file
+   */
+  async function readRecords(): Promise<string[]> {
+    return (await fsPromises.readFile(logFile, 'utf-8')).split('\n').filter(line => line.length > 0);
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    await fsPromises.mkdir(path.join(dir, 'private'));
+    logFile = path.join(dir, 'private', 'index.log');
+    keyFile = path.join(dir, 'index.key');
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('appends one encrypted record per update and replays them on load', async () => {
+    const { index, loaded } = await loadIndex();
+    expect(loaded).toBe(false);
+    
+    await index.put(entry('thought-1'));
+    await index.put(entry('thought-2'));
+    await index.remove('thought-1');
+    
+    const records = await readRecords();
+    expect(records).toHaveLength(3);
+    expect(records.join('\n')).not.toContain('thought-');
+    const reloaded = await loadIndex();
+    expect(reloaded.loaded).toBe(true);
+    expect(reloaded.index.list()).toEqual([index.get('thought-2')]);
+    expect(await readRecords()).toEqual(records);
+  });
+  
+  it('creates the index key readable only by its owner', async () => {
+    await loadIndex();
+    
+    expect((await fsPromises.stat(keyFile)).mode & 0o777).toBe(0o600);
+  });
+  
+  it.each([
+    ['reordered', (records: string[]) => [records[1], records[0], records[2]]],
+    ['dropped', (records: string[]) => [records[0], records[2]]],
+    ['modified', (records: string[]) => [records[0], records[1].slice(0, -8) + 'AAAAAAA=', records[2]]]
+  ])('does not load a log with %s records', async (_, change) => {
+    const { index } = await loadIndex();
+    for (const id of ['thought-1', 'thought-2', 'thought-3']) {
+      await index.put(entry(id));
+    }
+    await fsPromises.writeFile(logFile, change(await readRecords()).join('\n') + '\n');
+    
+    const reloaded = await loadIndex();
+    
+    expect(reloaded.loaded).toBe(false);
+    expect(reloaded.index.size).toBe(0);
+  });
+  
+  it('does not load records written with another index key', async () => {
+    const { index } = await loadIndex();
+    await index.put(entry('thought-1'));
+    await fsPromises.writeFile(keyFile, crypto.randomBytes(32).toString('base64'));
+    
+    expect((await loadIndex()).loaded).toBe(false);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('another index key'));
+  });
+  
+  it('drops a partly written last record and rewrites the log without it', async () => {
+    const { index } = await loadIndex();
+    await index.put(entry('thought-1'));
+    await index.put(entry('thought-2'));
+    await fsPromises.appendFile(logFile, (await readRecords())[1].slice(0, 20));
+    
+    const reloaded = await loadIndex();
+    
+    expect(reloaded.loaded).toBe(true);
+    expect(reloaded.index.size).toBe(2);
+    expect(await fsPromises.readFile(logFile, 'utf-8')).toMatch(/^([A-Za-z0-9+/=]+\n){2}$/);
+    // Appends continue the sequence
+    await reloaded.index.put(entry('thought-3'));
+    expect((await loadIndex()).index.size).toBe(3);
+  });
+  
+  it('compacts a log holding many more records than entries', async () => {
+    const { index } = await loadIndex();
+    for (let i = 0; i < 70; i++) {
+      await index.put({ ...entry('thought-1'), sizeBytes: i });
+    }
+    
+    const reloaded = await loadIndex();
+    
+    expect(reloaded.index.get('thought-1')?.sizeBytes).toBe(69);
+    expect(await readRecords()).toHaveLength(1);
+  });
+});
+
+describe('StorageManager thought index', () => {
+  let dir: string;
+  let config: StorageConfig;
+  
+  /**
+   * Build an envelope as the tools store it
+   */
+  function envelope(sessionId: string): Buffer {
+    return encryptEnvelopePayload(
+      {
+        algorithm: EnvelopeAlgorithm.AES_256_GCM,
+        keyId: 'key-1',
+        encapsulatedKey: Buffer.alloc(0),
+        associatedData: { timestamp: Date.UTC(2024, 0, 15), sourceTool: 'encrypt_thought', sessionId }
+      },
+      crypto.randomBytes(32),
+      crypto.randomBytes(16)
+    );
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+    config = { ...DEFAULT_CONFIG.storage, basePath: dir, indexKeyFile: path.join(dir, 'index.key') };
+  });
+  
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('records the hash of the ciphertext', async () => {
+    const storage = await createStorageManager(config);
+    const data = envelope('session-1');
+    
+    const thought = await storage.saveEncryptedThought(data, DETECTION);
+    
+    expect(storage.getThought(thought.id).ciphertextHash)
+      .toBe(crypto.createHash('sha256').update(data).digest('hex'));
+  });
+  
+  it('rebuilds a corrupt index from the envelope headers, without detector results', async () => {
+    const storage = await createStorageManager(config);
+    const first = await storage.saveEncryptedThought(envelope('session-1'), DETECTION);
+    const second = await storage.saveEncryptedThought(envelope('session-2'), DETECTION);
+    const logFile = path.join(dir, config.privateDir, 'index.log');
+    const records = (await fsPromises.readFile(logFile, 'utf-8')).split('\n');
+    await fsPromises.writeFile(logFile, [records[1], records[0], ''].join('\n'));
+    
+    const rebuilt = await createStorageManager(config);
+    
+    expect(console.log).toHaveBeenCalledWith('Rebuilt thought index from 2 encrypted file(s)');
+    expect(rebuilt.getThought(first.id)).toMatchObject({ sessionId: 'session-1', detection: null });
+    expect(rebuilt.getThought(second.id)).toMatchObject({
+      sessionId: 'session-2',
+      ciphertextHash: storage.getThought(second.id).ciphertextHash
+    });
+  });
+  
+  it('keeps detector results when a partly written record is dropped', async () => {
+    const storage = await createStorageManager(config);
+    const thought = await storage.saveEncryptedThought(envelope('session-1'), DETECTION);
+    await fsPromises.appendFile(path.join(dir, config.privateDir, 'index.log'), 'AAAA');
+    jest.mocked(console.log).mockClear();
+    
+    const reopened = await createStorageManager(config);
+    
+    expect(reopened.getThought(thought.id).detection).toEqual(DETECTION);
+    expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('Rebuilt thought index'));
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Thought index for LLM-Secrets MCP server
+ * Keeps metadata about every stored thought in an append-only log, provided
+ * by the storage backend, whose records are each encrypted with a dedicated
+ * index key. The index key is separate from the keyring, so the index stays
+ * readable while the keyring is locked or the server runs in sealed mode.
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import { ThoughtIndexEntry } from './types.js';
+import { IndexLog } from './backends/index.js';
+import {
+  EnvelopeAlgorithm,
+  decryptEnvelopePayload,
+  encryptEnvelopePayload,
+  parseEnvelope
+} from './envelope.js';
+import { Keyring } from './keyring.js';
+import { StorageError } from '../utils/errors.js';
+import { writeFileAtomic } from '../utils/fs.js';
+
+/** Size of the index key in bytes */
+const INDEX_KEY_SIZE = 32;
+
+/** The log is compacted on load once it holds this many records per entry */
+const COMPACTION_RATIO = 2;
+
+/**
+ * A record in the index log
+ */
+type IndexRecord =
+  | { op: 'put'; entry: ThoughtIndexEntry }
+  | { op: 'delete'; id: string };
+
+/**
+ * Append-only, encrypted index of stored thoughts.
+ * Each record of the log is a base64 envelope holding one index update,
+ * bound to its position in the log so records cannot be reordered or
+ * dropped unnoticed.
+ */
+export class ThoughtIndex {
+  private readonly log: IndexLog;
+  private readonly keyFilePath: string | null;
+  private key: Buffer | null = null;
+  private keyId = '';
+  private entries = new Map<string, ThoughtIndexEntry>();
+  private recordCount = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /**
+   * Create a new ThoughtIndex
+   * @param log Log holding the index records
+   * @param keyFilePath Path to the index key file, or null to keep a random
+   * key in memory (for logs that do not outlive the process)
+   */
+  constructor(log: IndexLog, keyFilePath: string | null) {
+    this.log = log;
+    this.keyFilePath = keyFilePath;
+  }
+  
+  /**
+   * Load the index key (creating it if needed) and replay the log
+   * @returns False if the log is missing or unreadable; the index is then
+   * empty and should be rebuilt from the thought files
+   */
+  public async load(): Promise<boolean> {
+    this.key = await this.loadOrCreateKey();
+    this.keyId = Keyring.computeKeyId(this.key);
+    this.entries.clear();
+    this.recordCount = 0;
+    
+    const contents = await this.log.read();
+    if (!contents) {
+      return false;
+    }
+    
+    // A crash during an append can leave a partial last record, which the
+    // log drops; the log is then rewritten without it
+    const { records, partial } = contents;
+    
+    try {
+      for (const record of records) {
+        this.apply(this.decryptRecord(record, this.recordCount));
+        this.recordCount++;
+      }
+    } catch (error) {
+      console.warn(`Thought index is unreadable: ${(error as Error).message}`);
+      this.entries.clear();
+      this.recordCount = 0;
+      return false;
+    }
+    
+    if (partial) {
+      console.warn('Dropping incomplete last record of the thought index');
+    }
+    if (partial || this.recordCount > COMPACTION_RATIO * Math.max(this.entries.size, 32)) {
+      await this.replaceAll([...this.entries.values()]);
+    }
+    return true;
+  }
+  
+  /**
+   * Number of indexed thoughts
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+  
+  /**
+   * Get the entry of a thought
+   * @param id Thought id
+   */
+  public get(id: string): ThoughtIndexEntry | undefined {
+    return this.entries.get(id);
+  }
+  
+  /**
+   * List all entries, newest first
+   */
+  public list(): ThoughtIndexEntry[] {
+    return [...this.entries.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+  
+  /**
+   * Add or update the entry of a thought.
+   * Resolves once the record is durable on disk.
+   * @param entry The entry
+   */
+  public put(entry: ThoughtIndexEntry): Promise<void> {
+    return this.append({ op: 'put', entry });
+  }
+  
+  /**
+   * Remove the entry of a thought
+   * @param id Thought id
+   */
+  public remove(id: string): Promise<void> {
+    return this.append({ op: 'delete', id });
+  }
+  
+  /**
+   * Replace the whole index, rewriting the log atomically
+   * @param entries The new entries
+   */
+  public replaceAll(entries: ThoughtIndexEntry[]): Promise<void> {
+    return this.enqueue(async () => {
+      const records = entries.map((entry, seq) => this.encryptRecord({ op: 'put', entry }, seq));
+      await this.log.replace(records);
+      this.entries = new Map(entries.map(entry => [entry.id, entry]));
+      this.recordCount = entries.length;
+    });
+  }
+  
+  /**
+   * Durably append a record to the log, then apply it
+   */
+  private append(record: IndexRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await this.log.append(this.encryptRecord(record, this.recordCount));
+      this.recordCount++;
+      this.apply(record);
+    });
+  }
+  
+  /**
+   * Run log writes one at a time, in call order
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result.catch(error => {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError(
+        `Failed to write thought index: ${(error as Error).message}`,
+        'INDEX_WRITE_FAILED'
+      );
+    });
+  }
+  
+  /**
+   * Apply a record to the in-memory entries
+   */
+  private apply(record: IndexRecord): void {
+    if (record.op === 'put') {
+      this.entries.set(record.entry.id, record.entry);
+    } else {
+      this.entries.delete(record.id);
+    }
+  }
+  
+  /**
+   * Encrypt a record into one record of the log
+   */
+  private encryptRecord(record: IndexRecord, seq: number): string {
+    return encryptEnvelopePayload(
+      {
+        algorithm: EnvelopeAlgorithm.AES_256_GCM,
+        keyId: this.keyId,
+        encapsulatedKey: Buffer.alloc(0),
+        associatedData: { seq }
+      },
+      this.requireKey(),
+      Buffer.from(JSON.stringify(record), 'utf-8')
+    ).toString('base64');
+  }
+  
+  /**
+   * Decrypt one record of the log, checking its position
+   */
+  private decryptRecord(record: string, seq: number): IndexRecord {
+    const envelope = parseEnvelope(Buffer.from(record, 'base64'));
+    if (envelope.header.keyId !== this.keyId) {
+      throw new StorageError(
+        `Record ${seq} was written with another index key`,
+        'INDEX_KEY_MISMATCH'
+      );
+    }
+    if (envelope.header.associatedData?.seq !== seq) {
+      throw new StorageError(`Record ${seq} is out of sequence`, 'INDEX_CORRUPTED');
+    }
+    return JSON.parse(decryptEnvelopePayload(envelope, this.requireKey()).toString('utf-8'));
+  }
+  
+  /**
+   * Get the index key, failing if the index has not been loaded
+   */
+  private requireKey(): Buffer {
+    if (!this.key) {
+      throw new StorageError('Thought index not loaded', 'INDEX_NOT_LOADED');
+    }
+    return this.key;
+  }
+  
+  /**
+   * Load the index key, or create it if it doesn't exist
+   */
+  private async loadOrCreateKey(): Promise<Buffer> {
+    if (this.keyFilePath === null) {
+      return this.key ?? crypto.randomBytes(INDEX_KEY_SIZE);
+    }
+    
+    try {
+      const key = Buffer.from((await fsPromises.readFile(this.keyFilePath, 'utf-8')).trim(), 'base64');
+      if (key.length !== INDEX_KEY_SIZE) {
+        throw new StorageError(
+          `Invalid index key size: expected ${INDEX_KEY_SIZE} bytes, got ${key.length}`,
+          'INVALID_INDEX_KEY'
+        );
+      }
+      return key;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    
+    console.log(`Creating thought index key: ${this.keyFilePath}`);
+    const key = crypto.randomBytes(INDEX_KEY_SIZE);
+    await writeFileAtomic(this.keyFilePath, key.toString('base64'), 0o600);
+    return key;
+  }
+}
@@ -14,20 +14,170 @@ export interface StoredThought {
   timestamp: number;
   /** Size of the encrypted thought in bytes */
   sizeBytes: number;
+  /** Tool that stored the thought (from the thought index) */
+  sourceTool?: string | null;
+  /** Session or conversation the thought was stored in (from the thought index) */
+  sessionId?: string | null;
+  /** Turn of the conversation that produced the thought (from the thought index) */
+  turnIndex?: number | null;
+  /** Tags given when the thought was stored (from the thought index) */
+  tags?: string[];
+  /** Detector results that classified the thought as private (from the thought index) */
+  detection?: ThoughtDetection | null;
+  /** SHA-256 of the encrypted file, not of the thought's content (from the thought index) */
+  ciphertextHash?: string;
+  /** Id of the key protecting the thought (from the thought index) */
+  keyId?: string | null;
+}
+
+/**
+ * Detector results for a segment classified as private
+ */
+export interface ThoughtDetection {
+  /** Introspection score (0.0-1.0) */
+  introspectionScore: number;
+  /** Sensitivity score (0.0-1.0) */
+  sensitivityScore: number;
+  /** Score of each scorer that ran, by name (missing for thoughts detected before scorers existed) */
+  scores?: Record<string, number>;
+  /** Details some scorers give about their score, by scorer name */
+  details?: Record<string, ScorerDetails>;
+  /** Detected language of the segment (missing for markup and for thoughts detected before language packs) */
+  language?: string;
+  /** Types of sensitive data (credentials and personal data) the thought contains */
+  sensitiveDataTypes?: SensitiveDataType[];
+  /** Rules that matched: privacy patterns, the score thresholds that were exceeded, and how scores were combined */
+  matchedRules: string[];
+}
+
+/**
+ * Entry of the encrypted thought index
+ */
+export interface ThoughtIndexEntry {
+  /** Thought id */
+  id: string;
+  /** Creation time (Unix timestamp in ms), taken from the envelope */
+  createdAt: number;
+  /** Size of the encrypted thought in bytes */
+  sizeBytes: number;
+  /** Tool that stored the thought */
+  sourceTool: string | null;
+  /** Session or conversation the thought was stored in */
+  sessionId: string | null;
+  /** Turn of the conversation that produced the thought (missing in entries written before turns existed) */
+  turnIndex?: number | null;
+  /** Tags given when the thought was stored (missing in entries written before tags existed) */
+  tags?: string[];
+  /** Detector results; null for explicit thoughts and for entries rebuilt from files */
+  detection: ThoughtDetection | null;
+  /**
+   * SHA-256 of the encrypted file. It identifies the ciphertext, not the
+   * content: the same thought stored twice, or re-encrypted, hashes differently.
+   */
+  ciphertextHash: string;
+  /** Id of the key protecting the thought (null for legacy files) */
+  keyId: string | null;
+}
+
+/**
+ * A range of characters in a text
+ */
+export interface TextSpan {
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
 }
 
 /**
  * Result of privacy analysis
  */
 export interface PrivacyAnalysisResult {
-  /** The public output with private content removed */
+  /** The original text with the private spans removed and everything else unchanged */
   publicOutput: string;
   /** Array of text segments identified as private */
   privateThoughts: string[];
-  /** Score information for segments (for debugging) */
-  scores?: {
-    introspectionScores: Record<string, number>;
-    sensitivityScores: Record<string, number>;
+  /** Position of each private thought in the original text, including any markup around it, in the same order */
+  privateSpans: TextSpan[];
+  /** Privacy markup stripped from the public output: the markers around public spans and empty private ones */
+  markupSpans: TextSpan[];
+  /** How each segment was decided, in order (without the segments' text) */
+  segments: SegmentReport[];
+  /** Sensitive data found in the text and how each occurrence was handled, in order */
+  sensitiveData: SensitiveDataMatch[];
+  /** Detector results for each private thought, in the same order */
+  detections?: ThoughtDetection[];
+}
+
+/**
+ * Type of sensitive data: personal data and credentials
+ */
+export type SensitiveDataType = 'email' | 'phone' | 'api-key' | 'private-key' | 'jwt' | 'card-number';
+
+/**
+ * An occurrence of sensitive data in a text
+ */
+export interface SensitiveDataMatch extends TextSpan {
+  /** Type of the data */
+  type: SensitiveDataType;
+  /**
+   * How it was handled: stored as a thought of its own and removed
+   * (encrypted), masked in place (masked), left as is (passed), or stored as
+   * part of a private thought that contains it (private)
+   */
+  handling: 'encrypted' | 'masked' | 'passed' | 'private';
+  /** Text that replaces it in the public output, for masked data */
+  replacement?: string;
+}
+
+/**
+ * What a scorer reports about how it arrived at a score
+ */
+export interface ScorerDetails {
+  /** Version of the model behind the score */
+  modelVersion?: string;
+  /** Features that moved the score most, strongest first; positive weights point to private */
+  contributions?: { feature: string; weight: number }[];
+}
+
+/**
+ * Kind of Markdown block a segment of a response comes from
+ */
+export type SegmentKind = 'heading' | 'paragraph' | 'list-item' | 'blockquote' | 'table-row' | 'code';
+
+/**
+ * How the privacy detector decided on a segment of a response. Reports
+ * carry no text, so they can be shared for tuning without exposing it.
+ */
+export interface SegmentReport extends TextSpan {
+  /** Kind of Markdown block, or markup for content in explicit privacy markup */
+  kind: SegmentKind | 'markup';
+  /** Detected language of the segment, for segments that were scored */
+  language?: string;
+  /** Whether the segment is private or public, or was skipped (code left out of the analysis) */
+  decision: 'private' | 'public' | 'skipped';
+  /** SHA-256 of the segment's text (first 16 hex digits), stable across runs */
+  hash: string;
+  /**
+   * What decided: the markup (markup:private, markup:public), code exclusion
+   * (code-excluded), a forced verdict (forced), or the score combination (any, weighted, rule)
+   */
+  decidedBy: string;
+  /** Rules that made the segment private (empty unless it is private) */
+  triggeredBy: string[];
+  /** Every rule the scorers matched, including patterns that did not decide on their own */
+  matchedRules: string[];
+  /** Score of each scorer that ran, by name */
+  scores: Record<string, number>;
+  /** Threshold each score was compared against when scores are combined with 'any' */
+  thresholds: Record<string, number>;
+  /** Details some scorers give about their score, by scorer name */
+  details?: Record<string, ScorerDetails>;
+  /** Weighted average of the scores, with the threshold or rule it was compared against */
+  aggregate?: {
+    score: number;
+    threshold?: number;
+    rule?: string;
   };
 }
 
@@ -43,16 +193,329 @@ export interface StorageStats {
   oldestTimestamp: number;
   /** Timestamp of the newest stored thought */
   newestTimestamp: number;
+  /** Number of thoughts per source tool (only with the thought index) */
+  bySourceTool?: Record<string, number>;
+  /** Number of thoughts containing each type of sensitive data (only with the thought index) */
+  bySensitiveDataType?: Record<string, number>;
+  /** What the retention policy expires next (only if a limit is set) */
+  retention?: RetentionStatus;
+}
+
+/**
+ * What the retention policy will expire next
+ */
+export interface RetentionStatus {
+  /** Oldest thought, which the policy expires first */
+  nextExpiry: {
+    /** Thought id */
+    id: string;
+    /** Creation time (Unix timestamp in ms) */
+    timestamp: number;
+    /** Time the age limit expires it (null without an age limit) */
+    expiresAt: number | null;
+  } | null;
+  /** Thoughts that can be added before the count limit expires old ones (null without a count limit) */
+  remainingCount: number | null;
+  /** Bytes that can be added before the size limit expires old ones (null without a size limit) */
+  remainingBytes: number | null;
+}
+
+/**
+ * Selects thoughts to purge; all given criteria must match
+ */
+export interface PurgeFilter {
+  /** Thought ids */
+  ids?: string[];
+  /** Earliest creation time (Unix timestamp in ms, inclusive) */
+  from?: number;
+  /** Latest creation time (Unix timestamp in ms, inclusive) */
+  to?: number;
+  /** Session or conversation id (requires the thought index) */
+  sessionId?: string;
+}
+
+/**
+ * Result of purging thoughts
+ */
+export interface PurgeResult {
+  /** Whether this was a preview that deleted nothing */
+  dryRun: boolean;
+  /** Thoughts deleted, or that would be deleted in a dry run */
+  thoughts: { id: string; timestamp: number; sizeBytes: number }[];
+  /** Total size of those thoughts in bytes */
+  totalSizeBytes: number;
+  /** Thoughts that could not be deleted */
+  failures: { id: string; error: string }[];
+}
+
+/**
+ * Thoughts stored in one session or conversation
+ */
+export interface SessionSummary {
+  /** Session or conversation id */
+  sessionId: string;
+  /** Number of thoughts */
+  thoughtCount: number;
+  /** Total size of the thoughts in bytes */
+  totalSizeBytes: number;
+  /** Creation time of the first thought (Unix timestamp in ms) */
+  firstTimestamp: number;
+  /** Creation time of the last thought (Unix timestamp in ms) */
+  lastTimestamp: number;
+}
+
+/**
+ * A session with the metadata of its thoughts
+ */
+export interface SessionDetail extends SessionSummary {
+  /** Thoughts in conversation order: by turn, then creation time */
+  thoughts: StoredThought[];
+}
+
+/**
+ * Order of a thought listing
+ */
+export type ThoughtSortOrder = 'newest' | 'oldest' | 'largest' | 'smallest';
+
+/**
+ * Selects and orders a page of thoughts; all given criteria must match
+ */
+export interface ThoughtQuery {
+  /** Earliest creation time (Unix timestamp in ms, inclusive) */
+  from?: number;
+  /** Latest creation time (Unix timestamp in ms, inclusive) */
+  to?: number;
+  /** Session or conversation id (requires the thought index) */
+  sessionId?: string;
+  /** Tag the thought must carry (requires the thought index) */
+  tag?: string;
+  /** Tool that stored the thought (requires the thought index) */
+  sourceTool?: string;
+  /** Minimum size of the encrypted thought in bytes */
+  minSizeBytes?: number;
+  /** Sort order (default newest first) */
+  sort?: ThoughtSortOrder;
+  /** Cursor returned with the previous page, for the same filters and sort order */
+  cursor?: string;
+  /** Maximum number of thoughts to return */
+  limit?: number;
+}
+
+/**
+ * A page of thought metadata
+ */
+export interface ThoughtPage {
+  /** Thoughts, in the requested order */
+  thoughts: StoredThought[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Number of thoughts matching the filters, across all pages */
+  total: number;
+}
+
+/**
+ * Outcome of an audited operation
+ */
+export type AuditOutcome = 'success' | 'denied' | 'failure';
+
+/**
+ * Entry of the audit log (never includes thought content)
+ */
+export interface AuditEntry {
+  /** Position in the log, starting at 0 */
+  seq: number;
+  /** Time of the operation (Unix timestamp in ms) */
+  timestamp: number;
+  /** Operation, e.g. the tool name */
+  operation: string;
+  /** Resource URI for resource reads */
+  resource: string | null;
+  /** Thought the operation applies to, if any */
+  thoughtId: string | null;
+  /** Result of the operation */
+  outcome: AuditOutcome;
+  /** Error code if the operation was denied or failed */
+  errorCode: string | null;
+  /** Hash of the previous entry (all zeros for the first entry) */
+  prevHash: string;
+  /** SHA-256 over this entry's other fields */
+  hash: string;
+}
+
+/**
+ * A page of audit log entries
+ */
+export interface AuditPage {
+  /** Entries, oldest first */
+  entries: AuditEntry[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Total number of entries in the log */
+  total: number;
+}
+
+/**
+ * Result of verifying the audit log
+ */
+export interface AuditVerification {
+  /** Whether the chain is intact and ends at the recorded head */
+  valid: boolean;
+  /** Number of entries in the log */
+  entryCount: number;
+  /** Sequence number of the last entry according to the head file */
+  lastSeq: number | null;
+  /** First problem found */
+  error?: {
+    /** Position of the offending entry */
+    seq: number;
+    /** What is wrong */
+    reason: string;
+  };
+}
+
+/**
+ * Status of a key in the keyring
+ * - active: used for new encryptions and for decryption
+ * - decrypt-only: kept to read thoughts that have not been re-encrypted yet
+ * - retired: no longer usable, key material has been discarded
+ */
+export type KeyStatus = 'active' | 'decrypt-only' | 'retired';
+
+/**
+ * Information about a single key in the keyring (never includes key material)
+ */
+export interface KeyringKeyInfo {
+  /** Key identifier, as recorded in envelope headers */
+  id: string;
+  /** Creation time (Unix timestamp in ms) */
+  createdAt: number;
+  /** Current status of the key */
+  status: KeyStatus;
+  /** Number of stored thoughts protected by this key */
+  thoughtCount?: number;
+}
+
+/**
+ * Number of stored thoughts protected by each key
+ */
+export interface ThoughtKeyUsage {
+  /** Thought count per key id */
+  byKeyId: Record<string, number>;
+  /** Thoughts in the legacy format, which carries no key id */
+  legacy: number;
+}
+
+/**
+ * Progress of a key rotation
+ */
+export interface KeyRotationStatus {
+  /** Current state of the rotation */
+  state: 'idle' | 'pending' | 'running' | 'completed' | 'failed';
+  /** Key that thoughts are being re-encrypted to */
+  targetKeyId?: string;
+  /** Keys that will be retired once re-encryption completes */
+  retiringKeyIds?: string[];
+  /** Time the rotation started (Unix timestamp in ms) */
+  startedAt?: number;
+  /** Time the rotation finished (Unix timestamp in ms) */
+  completedAt?: number;
+  /** Number of files examined so far */
+  processed: number;
+  /** Number of files re-encrypted so far */
+  reencrypted: number;
+  /** Files that could not be re-encrypted */
+  failures: { filepath: string; error: string }[];
+}
+
+/**
+ * Information about an offline recipient in sealed mode
+ */
+export interface SealedRecipientInfo {
+  /** Recipient identifier (fingerprint of the public key) */
+  id: string;
+  /** Key type */
+  type: 'x25519' | 'rsa-oaep';
+  /** Path to the recipient's public key */
+  publicKeyFile: string;
+}
+
+/**
+ * M-of-N key escrow configuration (never includes the shares themselves)
+ */
+export interface KeyEscrowInfo {
+  /** Secret sharing scheme */
+  algorithm: 'shamir-gf256';
+  /** Number of shares needed to unlock (M) */
+  threshold: number;
+  /** Number of shares handed out (N) */
+  shareCount: number;
+  /** Index and fingerprint of every share */
+  shares: { index: number; fingerprint: string }[];
+  /** Number of shares submitted towards the next unlock */
+  sharesSubmitted: number;
+}
+
+/**
+ * Result of submitting a key escrow share
+ */
+export interface EscrowSubmissionResult {
+  /** Index of the accepted share */
+  shareIndex: number;
+  /** Number of distinct shares submitted so far */
+  sharesSubmitted: number;
+  /** Number of shares needed to unlock */
+  threshold: number;
+  /** Whether the key file is still locked */
+  locked: boolean;
+}
+
+/**
+ * How the key file is protected at rest
+ */
+export interface KeyProtectionInfo {
+  /** Protection type ('sealed' means the server cannot decrypt at all) */
+  type: 'none' | 'passphrase' | 'escrow' | 'sealed';
+  /** Whether decryption is currently unavailable */
+  locked: boolean;
+  /** Key derivation parameters (passphrase protection only) */
+  kdf?: {
+    algorithm: 'scrypt';
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+  };
+  /** Key escrow configuration (escrow protection only) */
+  escrow?: KeyEscrowInfo;
+  /** Minutes without decryption after which the key file locks again */
+  idleLockMinutes?: number;
 }
 
 /**
  * Key information
  */
 export interface KeyInfo {
+  /** Encryption mode: keys held by the server, or write-only sealed to offline recipients */
+  mode: 'keyring' | 'sealed';
   /** Encryption algorithm used */
   algorithm: string;
-  /** Path to the key file */
-  keyFile: string;
+  /** Path to the key file (keyring mode only) */
+  keyFile?: string;
   /** Key size in bits */
   keySizeBits: number;
+  /** Identifier of the active key, as recorded in envelope headers */
+  keyId: string;
+  /** Envelope format version used for new writes */
+  envelopeVersion: number;
+  /** All keys in the keyring (empty in sealed mode) */
+  keys: KeyringKeyInfo[];
+  /** Offline recipients that new thoughts are sealed to (sealed mode only) */
+  recipients?: SealedRecipientInfo[];
+  /** Number of stored thoughts sealed to the current recipients (sealed mode only) */
+  sealedThoughtCount?: number;
+  /** How the key file is protected at rest */
+  protection: KeyProtectionInfo;
+  /** Number of stored thoughts in the legacy format, which carries no key id */
+  legacyThoughtCount?: number;
+  /** Progress of the current or most recent key rotation */
+  rotation?: KeyRotationStatus;
 }
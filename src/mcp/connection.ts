@@ -0,0 +1,41 @@
+/**
+ * Connection state for the LLM-Secrets MCP server
+ * Each MCP connection is a session: thoughts stored without an explicit
+ * session id are grouped under the id assigned to the connection.
+ */
+
+import { ulid } from '../utils/ulid.js';
+
+/** Prefix of session ids assigned by the server */
+const SESSION_ID_PREFIX = 'session_';
+
+/**
+ * State of the current MCP connection
+ */
+export class ConnectionContext {
+  private currentSessionId: string = generateSessionId();
+  
+  /**
+   * Session id assigned to the current connection
+   */
+  public get sessionId(): string {
+    return this.currentSessionId;
+  }
+  
+  /**
+   * Start a new session; called whenever a client (re)initializes the
+   * connection
+   * @returns The new session id
+   */
+  public startSession(): string {
+    this.currentSessionId = generateSessionId();
+    return this.currentSessionId;
+  }
+}
+
+/**
+ * Generate a unique, time-sortable session id
+ */
+function generateSessionId(): string {
+  return `${SESSION_ID_PREFIX}${ulid()}`;
+}
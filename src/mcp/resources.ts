@@ -2,93 +2,362 @@
  * Resource handlers for the LLM-Secrets MCP server
  */
 
-import { CoreComponents } from '../core/index.js';
+import { CoreComponents, StoredThought, ThoughtQuery, ThoughtSortOrder } from '../core/index.js';
 import { 
   ErrorCode, 
   McpError, 
   ListResourcesRequestSchema, 
+  ListResourceTemplatesRequestSchema, 
   ReadResourceRequestSchema 
 } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LlmSecretsError, errorCodeOf } from '../utils/errors.js';
+
+/** Resources that can be read, without query parameters */
+const RESOURCES = [
+  {
+    uri: 'secrets://thoughts',
+    name: 'Encrypted Private Thoughts',
+    mimeType: 'application/json',
+    description: 'Pages of encrypted private thought metadata. Query parameters: from, to (ISO 8601), ' +
+      'sessionId, tag, sourceTool, minSize (bytes), sort (newest, oldest, largest, smallest), cursor, limit',
+  },
+  {
+    uri: 'secrets://sessions',
+    name: 'Sessions',
+    mimeType: 'application/json',
+    description: 'Sessions and conversations with their thought counts and time ranges, most recently active first',
+  },
+  {
+    uri: 'secrets://key_info',
+    name: 'Encryption Key Information',
+    mimeType: 'application/json',
+    description: 'Keyring contents, thoughts protected by each key and key rotation progress',
+  },
+  {
+    uri: 'secrets://stats',
+    name: 'System Statistics',
+    mimeType: 'application/json',
+    description: 'Statistics about the privacy detection and storage',
+  },
+  {
+    uri: 'secrets://audit',
+    name: 'Audit Log',
+    mimeType: 'application/json',
+    description: 'Hash-chained log of secrets operations, oldest first. Page with ?cursor=<nextCursor>&limit=<n>',
+  },
+  {
+    uri: 'secrets://audit/verify',
+    name: 'Audit Log Verification',
+    mimeType: 'application/json',
+    description: 'Verifies the audit log hash chain and reports the first edited, missing or truncated entry',
+  },
+];
+const RESOURCE_URIS = RESOURCES.map(resource => resource.uri);
+
+/** URI templates of a single thought's and a single session's metadata */
+const THOUGHT_RESOURCE_TEMPLATE = 'secrets://thoughts/{id}';
+const THOUGHT_RESOURCE_PREFIX = 'secrets://thoughts/';
+const SESSION_RESOURCE_TEMPLATE = 'secrets://sessions/{id}';
+const SESSION_RESOURCE_PREFIX = 'secrets://sessions/';
+
+/** MCP error code for a resource that does not exist (not in this SDK version's ErrorCode) */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Thoughts per page of resources/list */
+const RESOURCE_LIST_PAGE_SIZE = 100;
+
+/** Accepted values of the sort parameter */
+const SORT_ORDERS: ThoughtSortOrder[] = ['newest', 'oldest', 'largest', 'smallest'];
 
 /**
  * Register resource handlers with the MCP server
  */
 export function registerResourceHandlers(server: Server, components: CoreComponents): void {
-  // List available resources
-  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-    resources: [
-      {
-        uri: 'secrets://thoughts',
-        name: 'Encrypted Private Thoughts',
-        mimeType: 'application/json',
-        description: 'List of encrypted private thoughts with metadata',
-      },
+  // List available resources: the fixed ones, then every thought, newest
+  // first. Thoughts are paged with the request's cursor.
+  server.setRequestHandler(ListResourcesRequestSchema, async (request: any) => {
+    const cursor: string | undefined = request.params?.cursor;
+    
+    let page;
+    try {
+      page = components.storageManager.queryThoughts({ cursor, limit: RESOURCE_LIST_PAGE_SIZE });
+    } catch (error) {
+      throw toResourceError(error);
+    }
+    
+    return {
+      resources: [
+        ...(cursor === undefined ? RESOURCES : []),
+        ...page.thoughts.map(thoughtResource)
+      ],
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {})
+    };
+  });
+  
+  // List resource templates
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
       {
-        uri: 'secrets://key_info',
-        name: 'Encryption Key Information',
+        uriTemplate: THOUGHT_RESOURCE_TEMPLATE,
+        name: 'Encrypted Private Thought',
         mimeType: 'application/json',
-        description: 'Information about the encryption key being used',
+        description: 'Metadata of a single encrypted private thought',
       },
       {
-        uri: 'secrets://stats',
-        name: 'System Statistics',
+        uriTemplate: SESSION_RESOURCE_TEMPLATE,
+        name: 'Session',
         mimeType: 'application/json',
-        description: 'Statistics about the privacy detection and storage',
+        description: 'Metadata of the thoughts stored in one session or conversation, by turn',
       },
     ],
   }));
 
-  // Handle resource requests
+  // Handle resource requests, recording each read in the audit log
   server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
     const { uri } = request.params;
-
-    switch (uri) {
-      case 'secrets://thoughts':
-        return handleThoughtsResource(components);
-      case 'secrets://key_info':
-        return handleKeyInfoResource(components);
-      case 'secrets://stats':
-        return handleStatsResource(components);
-      default:
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          `Unknown resource URI: ${uri}`
-        );
+    const [resource, query = ''] = String(uri).split('?', 2);
+    const thoughtId = parseTemplateUri(resource, THOUGHT_RESOURCE_PREFIX);
+    const sessionId = parseTemplateUri(resource, SESSION_RESOURCE_PREFIX);
+    
+    if (thoughtId === null && sessionId === null && !RESOURCE_URIS.includes(resource)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource URI: ${uri}`
+      );
+    }
+    
+    // Reads of single thoughts and sessions are recorded under the template
+    const audit =
+      thoughtId !== null ? { resource: THOUGHT_RESOURCE_TEMPLATE, thoughtId } :
+      sessionId !== null ? { resource: SESSION_RESOURCE_TEMPLATE } :
+      { resource };
+    try {
+      const result =
+        thoughtId !== null ? handleThoughtResource(components, thoughtId) :
+        sessionId !== null ? handleSessionResource(components, sessionId) :
+        await readResource(components, resource, new URLSearchParams(query));
+      await components.auditLog.record({ operation: 'read_resource', ...audit, outcome: 'success' });
+      return result;
+    } catch (error) {
+      await components.auditLog.record({
+        operation: 'read_resource',
+        ...audit,
+        outcome: 'failure',
+        errorCode: errorCodeOf(error)
+      });
+      throw toResourceError(error);
     }
   });
 }
 
 /**
- * Handle access to the encrypted thoughts resource
+ * Get the id from a URI of a `<prefix>{id}` template
+ * @returns The id, or null if the URI does not match the template
  */
-async function handleThoughtsResource(components: CoreComponents) {
+function parseTemplateUri(resource: string, prefix: string): string | null {
+  if (!resource.startsWith(prefix)) {
+    return null;
+  }
   try {
-    const thoughts = await components.storageManager.getThoughtMetadata();
-    
-    return {
-      contents: [
-        {
-          uri: 'secrets://thoughts',
-          mimeType: 'application/json',
-          text: JSON.stringify(thoughts, null, 2)
-        }
-      ]
-    };
+    const id = decodeURIComponent(resource.slice(prefix.length));
+    return id.length > 0 ? id : null;
   } catch (error) {
-    throw new McpError(
-      ErrorCode.InternalError,
-      `Failed to retrieve thoughts: ${(error as Error).message}`
-    );
+    return null;
   }
 }
 
+/**
+ * Describe a thought as a listed resource
+ */
+function thoughtResource(thought: StoredThought) {
+  return {
+    uri: `${THOUGHT_RESOURCE_PREFIX}${encodeURIComponent(thought.id)}`,
+    name: thought.id,
+    mimeType: 'application/json',
+    description: `Metadata of the encrypted private thought created ${new Date(thought.timestamp).toISOString()}`,
+  };
+}
+
+/**
+ * Convert an error from a resource handler to the MCP error sent to the client
+ */
+function toResourceError(error: unknown): unknown {
+  if (!(error instanceof LlmSecretsError)) {
+    return error;
+  }
+  switch (error.code) {
+    case 'STORAGE_NOT_FOUND':
+      return new McpError(RESOURCE_NOT_FOUND, error.message);
+    case 'STORAGE_INVALID_CURSOR':
+    case 'STORAGE_METADATA_DISABLED':
+      return new McpError(ErrorCode.InvalidParams, error.message);
+    default:
+      return error.toMcpError();
+  }
+}
+
+/**
+ * Dispatch a resource read to its handler
+ */
+async function readResource(
+  components: CoreComponents,
+  resource: string,
+  params: URLSearchParams
+) {
+  switch (resource) {
+    case 'secrets://thoughts':
+      return handleThoughtsResource(components, params);
+    case 'secrets://sessions':
+      return handleSessionsResource(components);
+    case 'secrets://key_info':
+      return handleKeyInfoResource(components);
+    case 'secrets://stats':
+      return handleStatsResource(components);
+    case 'secrets://audit':
+      return handleAuditResource(components, params);
+    case 'secrets://audit/verify':
+      return handleAuditVerifyResource(components);
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource URI: ${resource}`
+      );
+  }
+}
+
+/**
+ * Handle access to the encrypted thoughts resource.
+ * Storage errors (bad cursor, metadata disabled) are converted by the caller.
+ */
+function handleThoughtsResource(components: CoreComponents, params: URLSearchParams) {
+  const page = components.storageManager.queryThoughts(parseThoughtQuery(params));
+  
+  return {
+    contents: [
+      {
+        uri: 'secrets://thoughts',
+        mimeType: 'application/json',
+        text: JSON.stringify(page, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Handle access to a single thought's metadata.
+ * An unknown id is reported as resource not found by the caller.
+ */
+function handleThoughtResource(components: CoreComponents, id: string) {
+  const thought = components.storageManager.getThought(id);
+  
+  return {
+    contents: [
+      {
+        uri: `${THOUGHT_RESOURCE_PREFIX}${encodeURIComponent(id)}`,
+        mimeType: 'application/json',
+        text: JSON.stringify(thought, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Handle access to the sessions resource
+ */
+function handleSessionsResource(components: CoreComponents) {
+  const sessions = components.storageManager.listSessions();
+  
+  return {
+    contents: [
+      {
+        uri: 'secrets://sessions',
+        mimeType: 'application/json',
+        text: JSON.stringify(sessions, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Handle access to a single session.
+ * An unknown id is reported as resource not found by the caller.
+ */
+function handleSessionResource(components: CoreComponents, id: string) {
+  const session = components.storageManager.getSession(id);
+  
+  return {
+    contents: [
+      {
+        uri: `${SESSION_RESOURCE_PREFIX}${encodeURIComponent(id)}`,
+        mimeType: 'application/json',
+        text: JSON.stringify(session, null, 2)
+      }
+    ]
+  };
+}
+
+/**
+ * Validate the query parameters of the thoughts resource
+ */
+function parseThoughtQuery(params: URLSearchParams): ThoughtQuery {
+  const query: ThoughtQuery = {};
+  
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (value !== null) {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an ISO 8601 date`);
+      }
+      query[key] = time;
+    }
+  }
+  for (const key of ['sessionId', 'tag', 'sourceTool', 'cursor'] as const) {
+    const value = params.get(key);
+    if (value !== null) {
+      if (value.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must not be empty`);
+      }
+      query[key] = value;
+    }
+  }
+  
+  const minSize = params.get('minSize');
+  if (minSize !== null) {
+    query.minSizeBytes = Number(minSize);
+    if (!Number.isInteger(query.minSizeBytes) || query.minSizeBytes < 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'minSize must be a non-negative integer');
+    }
+  }
+  const limit = params.get('limit');
+  if (limit !== null) {
+    query.limit = Number(limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1) {
+      throw new McpError(ErrorCode.InvalidParams, 'limit must be a positive integer');
+    }
+  }
+  const sort = params.get('sort');
+  if (sort !== null) {
+    if (!SORT_ORDERS.includes(sort as ThoughtSortOrder)) {
+      throw new McpError(ErrorCode.InvalidParams, `sort must be one of: ${SORT_ORDERS.join(', ')}`);
+    }
+    query.sort = sort as ThoughtSortOrder;
+  }
+  
+  return query;
+}
+
 /**
  * Handle access to the encryption key information resource
  */
 async function handleKeyInfoResource(components: CoreComponents) {
   try {
-    const keyInfo = components.encryptionManager.getKeyInfo();
+    const usage = await components.keyRotationManager.countThoughtsByKey();
+    const keyInfo = {
+      ...components.encryptionManager.getKeyInfo(usage),
+      rotation: components.keyRotationManager.getStatus()
+    };
     
     return {
       contents: [
@@ -130,3 +399,60 @@ async function handleStatsResource(components: CoreComponents) {
     );
   }
 }
+
+/**
+ * Handle access to the audit log resource
+ */
+async function handleAuditResource(components: CoreComponents, params: URLSearchParams) {
+  const cursor = Number(params.get('cursor') ?? 0);
+  const limit = Number(params.get('limit') ?? 100);
+  if (!Number.isInteger(cursor) || cursor < 0 || !Number.isInteger(limit) || limit < 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'cursor must be a non-negative integer and limit a positive integer'
+    );
+  }
+  
+  try {
+    const page = await components.auditLog.read(cursor, limit);
+    
+    return {
+      contents: [
+        {
+          uri: 'secrets://audit',
+          mimeType: 'application/json',
+          text: JSON.stringify(page, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to retrieve audit log: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Handle access to the audit log verification resource
+ */
+async function handleAuditVerifyResource(components: CoreComponents) {
+  try {
+    const verification = await components.auditLog.verify();
+    
+    return {
+      contents: [
+        {
+          uri: 'secrets://audit/verify',
+          mimeType: 'application/json',
+          text: JSON.stringify(verification, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to verify audit log: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { DEFAULT_CONFIG, ServerConfig } from '../config.js';
+import { CoreComponents } from '../core/index.js';
+import { AuditEntry } from '../core/types.js';
+import { createServer } from '../server.js';
+
+const TOKEN = 'operator-token-0123456789';
+
+describe('operator tools', () => {
+  let dir: string;
+  let server: Server;
+  let components: CoreComponents;
+  let client: Client;
+  
+  /**
+   * Start a server with its files in the temporary directory and connect a client
+   */
+  async function connect(): Promise<void> {
+    const config: ServerConfig = {
+      ...DEFAULT_CONFIG,
+      encryption: { ...DEFAULT_CONFIG.encryption, keyFile: path.join(dir, 'key.json') },
+      storage: { ...DEFAULT_CONFIG.storage, basePath: dir, indexKeyFile: path.join(dir, 'index.key') },
+      audit: { logFile: path.join(dir, 'audit.log') }
+    };
+    ({ server, components } = await createServer(config));
+    
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  }
+  
+  /**
+   * The last entry of the audit log
+   */
+  async function lastAuditEntry(): Promise<AuditEntry> {
+    const { entries, total } = await components.auditLog.read(0, 1000);
+    expect(entries).toHaveLength(total);
+    return entries[entries.length - 1];
+  }
+  
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+  });
+  
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    jest.restoreAllMocks();
+    delete process.env.OPERATOR_TOKEN;
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('denies and audits a call with a wrong operator token', async () => {
+    process.env.OPERATOR_TOKEN = TOKEN;
+    await connect();
+    
+    await expect(client.callTool({ name: 'reveal_thought', arguments: { id: 'thought-1', operatorToken: 'wrong' } }))
+      .rejects.toThrow('Invalid or missing operator token');
+    
+    expect(await lastAuditEntry()).toMatchObject({
+      operation: 'reveal_thought',
+      thoughtId: 'thought-1',
+      outcome: 'denied',
+      errorCode: 'UNAUTHORIZED'
+    });
+  });
+  
+  it('denies and audits operator calls when no token is configured', async () => {
+    await connect();
+    
+    const { tools } = await client.listTools();
+    expect(tools.map(({ name }) => name)).not.toContain('lock_keyring');
+    await expect(client.callTool({ name: 'lock_keyring', arguments: { operatorToken: TOKEN } }))
+      .rejects.toThrow('Operator access is not enabled on this server');
+    
+    expect(await lastAuditEntry()).toMatchObject({ operation: 'lock_keyring', outcome: 'denied', errorCode: 'UNAUTHORIZED' });
+  });
+  
+  it('runs operator calls with the operator token', async () => {
+    process.env.OPERATOR_TOKEN = TOKEN;
+    await connect();
+    
+    // The key file is not protected, so the call is authorized but fails
+    const result = await client.callTool({ name: 'lock_keyring', arguments: { operatorToken: TOKEN } });
+    
+    expect(result.isError).toBe(true);
+    expect(await lastAuditEntry()).toMatchObject({
+      operation: 'lock_keyring',
+      outcome: 'failure',
+      errorCode: 'ENCRYPTION_NOT_PROTECTED'
+    });
+  });
+});
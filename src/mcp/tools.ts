@@ -4,7 +4,7 @@
 
 /// <reference types="node" />
 
-import { CoreComponents } from '../core/index.js';
+import { CoreComponents, PurgeFilter, StoredThought, ThoughtDetection, withoutContributions } from '../core/index.js';
 import { 
   ErrorCode, 
   McpError, 
@@ -12,17 +12,63 @@ import {
   CallToolRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ConnectionContext } from './connection.js';
+import { PrivacyConfig } from '../config.js';
+import { LlmSecretsError, errorCodeOf } from '../utils/errors.js';
 
 // Define the return type for tool handlers
 type ToolResult = {
   content: { type: string; text: string }[];
   isError?: boolean;
+  /** Details for the audit log; removed before the result is sent */
+  audit?: {
+    /** Thoughts the call wrote or read */
+    thoughtIds?: string[];
+    /** Error code of a failed call */
+    errorCode?: string;
+  };
 };
 
+/** Format of a thought tag; commas are excluded so tags can be joined */
+const TAG_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+
+/** Most tags a thought can carry */
+const MAX_TAGS = 16;
+
+/** Longest session id a client can give */
+const MAX_SESSION_ID_LENGTH = 128;
+
+/** Accepted values of the redactionMode argument */
+const REDACTION_MODES: PrivacyConfig['redactionMode'][] = ['drop', 'placeholder', 'reference'];
+
+/** Tools that require the operator token; they are only listed when one is configured */
+const OPERATOR_TOOLS = new Set([
+  'rotate_key',
+  'unlock_keyring',
+  'lock_keyring',
+  'escrow_submit_share',
+  'purge_thoughts',
+  'reveal_thought'
+]);
+
+/**
+ * Conversation a thought belongs to
+ */
+interface ThoughtGrouping {
+  /** Session id given by the client, or the connection's */
+  sessionId: string;
+  /** Turn of the conversation, if given */
+  turnIndex: number | null;
+}
+
 /**
  * Register tool handlers with the MCP server
  */
-export function registerToolHandlers(server: Server, components: CoreComponents): void {
+export function registerToolHandlers(
+  server: Server,
+  components: CoreComponents,
+  connection: ConnectionContext
+): void {
   // Register tool list
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: [
@@ -40,6 +86,22 @@ export function registerToolHandlers(server: Server, components: CoreComponents)
           required: ['text'],
         },
       },
+      {
+        name: 'explain_privacy',
+        description: 'Explain how each segment of a text is classified: scores, thresholds, matched patterns and the deciding rule. ' +
+          'Private segments are identified by a stable hash instead of their text. ' +
+          'Also lists the sensitive data found (emails, phone numbers, keys, tokens, card numbers) and how it was handled',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'The text to explain',
+            },
+          },
+          required: ['text'],
+        },
+      },
       {
         name: 'encrypt_thought',
         description: 'Explicitly encrypt a thought',
@@ -50,6 +112,19 @@ export function registerToolHandlers(server: Server, components: CoreComponents)
               type: 'string',
               description: 'The content to encrypt',
             },
+            sessionId: {
+              type: 'string',
+              description: 'Optional session or conversation id to record with the thought (defaults to the id of this connection)',
+            },
+            turnIndex: {
+              type: 'number',
+              description: 'Optional index of the conversation turn that produced the thought',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional tags to record with the thought (letters, digits, "_", "-", "." and ":")',
+            },
           },
           required: ['content'],
         },
@@ -62,33 +137,257 @@ export function registerToolHandlers(server: Server, components: CoreComponents)
           properties: {
             response: {
               type: 'string',
-              description: 'The full response to process',
+              description: 'The full response to process. Content in <private>…</private> is always stored as a private thought ' +
+                'and content in <public>…</public> always stays public; the markers are removed (tag names depend on the server setting)',
+            },
+            sessionId: {
+              type: 'string',
+              description: 'Optional session or conversation id to record with the stored thoughts (defaults to the id of this connection)',
+            },
+            turnIndex: {
+              type: 'number',
+              description: 'Optional index of the conversation turn that produced the response',
+            },
+            redactionMode: {
+              type: 'string',
+              enum: REDACTION_MODES,
+              description: 'How private thoughts are redacted from the public output: drop them, replace them with a placeholder, ' +
+                'or with a placeholder naming the stored thought id (reference). Defaults to the server setting',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional tags to record with the stored thoughts (letters, digits, "_", "-", "." and ":")',
             },
           },
           required: ['response'],
         },
       },
+      // Operator-only tools are not offered unless an operator token is configured
+      ...(components.operatorAuthorizer.isEnabled() ? [
+        {
+          name: 'rotate_key',
+          description: 'Operator only: create a new active encryption key and re-encrypt all stored thoughts in the background',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'unlock_keyring',
+          description: 'Operator only: unlock the passphrase-protected key file so stored thoughts can be decrypted. The passphrase is read from the passphrase file configured on the server',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'lock_keyring',
+          description: 'Operator only: lock the key file and zero all key material in memory',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'escrow_submit_share',
+          description: 'Operator only: submit one key escrow share; the key file unlocks once enough shares are submitted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              share: {
+                type: 'string',
+                description: 'A key escrow share (lsec-share-...)',
+              },
+            },
+            required: ['share'],
+          },
+        },
+        {
+          name: 'purge_thoughts',
+          description: 'Operator only: securely delete stored thoughts matching all given filters (overwritten, then removed from disk and the index). Use dryRun to preview',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Ids of the thoughts to delete',
+              },
+              from: {
+                type: 'string',
+                description: 'Delete thoughts created at or after this time (ISO 8601)',
+              },
+              to: {
+                type: 'string',
+                description: 'Delete thoughts created at or before this time (ISO 8601)',
+              },
+              sessionId: {
+                type: 'string',
+                description: 'Delete thoughts stored in this session',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'List the matching thoughts without deleting them',
+              },
+            },
+          },
+        },
+        {
+          name: 'reveal_thought',
+          description: 'Operator only: decrypt a stored thought by id. Every attempt is audited',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Id of the thought to reveal',
+              },
+            },
+            required: ['id'],
+          },
+        },
+      ].map(withOperatorToken) : []),
     ],
   }));
 
-  // Handle tool calls
+  // Handle tool calls, recording each call in the audit log
   server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
-    const { name, arguments: args } = request.params;
+    const { name } = request.params;
+    const args = request.params.arguments ?? {};
+    
+    return runAudited(components, name, args, () => callTool(components, connection, name, args));
+  });
+}
+
+/**
+ * Add the required operatorToken argument to the schema of an operator tool
+ */
+function withOperatorToken<T extends { inputSchema: { properties: object; required?: string[] } }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        operatorToken: {
+          type: 'string',
+          description: 'The operator token configured on the server',
+        },
+      },
+      required: [...(tool.inputSchema.required ?? []), 'operatorToken'],
+    },
+  };
+}
+
+/**
+ * Dispatch a tool call to its handler
+ */
+async function callTool(
+  components: CoreComponents,
+  connection: ConnectionContext,
+  name: string,
+  args: any
+): Promise<ToolResult> {
+  switch (name) {
+    case 'analyze_privacy':
+      return handleAnalyzePrivacy(components, args);
+    case 'explain_privacy':
+      return handleExplainPrivacy(components, args);
+    case 'encrypt_thought':
+      return handleEncryptThought(components, connection, args);
+    case 'process_response':
+      return handleProcessResponse(components, connection, args);
+    case 'rotate_key':
+      return handleRotateKey(components);
+    case 'unlock_keyring':
+      return handleUnlockKeyring(components);
+    case 'lock_keyring':
+      return handleLockKeyring(components);
+    case 'escrow_submit_share':
+      return handleEscrowSubmitShare(components, args);
+    case 'purge_thoughts':
+      return handlePurgeThoughts(components, args);
+    case 'reveal_thought':
+      return handleRevealThought(components, args);
+    default:
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Unknown tool: ${name}`
+      );
+  }
+}
 
-    switch (name) {
-      case 'analyze_privacy':
-        return handleAnalyzePrivacy(components, args);
-      case 'encrypt_thought':
-        return handleEncryptThought(components, args);
-      case 'process_response':
-        return handleProcessResponse(components, args);
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
+/**
+ * Run a tool call and record it in the audit log before the result is
+ * returned, one entry per thought it touched. If the entry cannot be
+ * recorded, the result is withheld and an error is returned instead.
+ * Operator tools are run only with a valid operator token; an invalid token
+ * is thrown (and audited as denied) rather than returned as a tool error.
+ */
+async function runAudited(
+  components: CoreComponents,
+  operation: string,
+  args: any,
+  handler: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  const requestedId = typeof args.id === 'string' ? args.id : null;
+  
+  let result: ToolResult;
+  try {
+    if (OPERATOR_TOOLS.has(operation)) {
+      components.operatorAuthorizer.authorize(args.operatorToken);
     }
-  });
+    result = await handler();
+  } catch (error) {
+    // Unknown tools are not audited: the name is arbitrary client input
+    if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      throw error;
+    }
+    const errorCode = errorCodeOf(error);
+    await components.auditLog.record({
+      operation,
+      thoughtId: requestedId,
+      outcome: errorCode === 'UNAUTHORIZED' ? 'denied' : 'failure',
+      errorCode
+    });
+    throw error instanceof LlmSecretsError ? error.toMcpError() : error;
+  }
+  
+  const { audit, ...response } = result;
+  const thoughtIds = audit?.thoughtIds?.length ? audit.thoughtIds : [requestedId];
+  try {
+    for (const thoughtId of thoughtIds) {
+      await components.auditLog.record({
+        operation,
+        thoughtId,
+        outcome: result.isError ? 'failure' : 'success',
+        errorCode: audit?.errorCode ?? null
+      });
+    }
+  } catch (error) {
+    const { audit: _, ...failure } = errorResult('Error recording audit log', error);
+    return failure;
+  }
+  return response;
+}
+
+/**
+ * Build the result of a failed tool call
+ * @param action Description of what failed
+ * @param error The error
+ */
+function errorResult(action: string, error: unknown): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `${action}: ${(error as Error).message}`
+      }
+    ],
+    isError: true,
+    audit: { errorCode: errorCodeOf(error) }
+  };
 }
 
 /**
@@ -120,28 +419,54 @@ async function handleAnalyzePrivacy(
             publicOutput: result.publicOutput,
             privateThoughtsCount: result.privateThoughts.length,
             privacyDetected: result.privateThoughts.length > 0,
-            // Don't include actual private content in the response
-            // Include scores for debugging
-            introspectionScoresSample: Object.entries(result.scores?.introspectionScores || {})
-              .slice(0, 3)
-              .reduce((obj, [k, v]) => ({ ...obj, [k]: v }), {}),
-            sensitivityScoresSample: Object.entries(result.scores?.sensitivityScores || {})
-              .slice(0, 3)
-              .reduce((obj, [k, v]) => ({ ...obj, [k]: v }), {})
+            privateSpans: result.privateSpans
+            // Don't include actual private content in the response; explain_privacy
+            // reports the scores of every segment
           }, null, 2)
         }
       ]
     };
   } catch (error) {
+    return errorResult('Error analyzing privacy', error);
+  }
+}
+
+/**
+ * Handle explain_privacy tool
+ * Reports how each segment of a text was decided, for tuning the privacy
+ * configuration; private segments are identified by hash, never by text
+ */
+async function handleExplainPrivacy(
+  components: CoreComponents,
+  args: any
+): Promise<ToolResult> {
+  try {
+    // Validate input
+    if (!args.text || typeof args.text !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameter: text'
+      );
+    }
+    
+    const result = await components.privacyDetector.processOutput(args.text);
+    
     return {
       content: [
         {
           type: 'text',
-          text: `Error analyzing privacy: ${(error as Error).message}`
+          text: JSON.stringify({
+            privateSegmentCount: result.segments.filter(segment => segment.decision === 'private').length,
+            segments: result.segments.map(segment => segment.decision === 'private'
+              ? { ...segment, details: withoutContributions(segment.details) }
+              : { ...segment, text: args.text.slice(segment.start, segment.end) }),
+            sensitiveData: result.sensitiveData
+          }, null, 2)
         }
-      ],
-      isError: true
+      ]
     };
+  } catch (error) {
+    return errorResult('Error explaining privacy decisions', error);
   }
 }
 
@@ -151,6 +476,7 @@ async function handleAnalyzePrivacy(
  */
 async function handleEncryptThought(
   components: CoreComponents, 
+  connection: ConnectionContext,
   args: any
 ): Promise<ToolResult> {
   try {
@@ -162,11 +488,15 @@ async function handleEncryptThought(
       );
     }
     
-    // Encrypt the content
-    const encryptedData = await components.encryptionManager.encrypt(args.content);
+    const grouping = parseGrouping(args, connection);
+    const tags = parseTags(args.tags);
     
-    // Store the encrypted data
-    const thoughtMetadata = await components.storageManager.saveEncryptedThought(encryptedData);
+    // Encrypt and store the content
+    const thoughtMetadata = await storePrivateThought(components, args.content, {
+      sourceTool: 'encrypt_thought',
+      ...grouping,
+      tags
+    });
     
     // Return metadata about the stored thought
     return {
@@ -179,22 +509,16 @@ async function handleEncryptThought(
               id: thoughtMetadata.id,
               filepath: thoughtMetadata.filepath,
               timestamp: thoughtMetadata.timestamp,
-              sizeBytes: thoughtMetadata.sizeBytes
+              sizeBytes: thoughtMetadata.sizeBytes,
+              ...grouping
             }
           }, null, 2)
         }
-      ]
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error encrypting thought: ${(error as Error).message}`
-        }
       ],
-      isError: true
+      audit: { thoughtIds: [thoughtMetadata.id] }
     };
+  } catch (error) {
+    return errorResult('Error encrypting thought', error);
   }
 }
 
@@ -205,8 +529,12 @@ async function handleEncryptThought(
  */
 async function handleProcessResponse(
   components: CoreComponents, 
+  connection: ConnectionContext,
   args: any
 ): Promise<ToolResult> {
+  // Thoughts stored so far, so a partial failure still audits them
+  const storedThoughts: Pick<StoredThought, 'id' | 'filepath' | 'timestamp' | 'sizeBytes'>[] = [];
+  
   try {
     // Validate input
     if (!args.response || typeof args.response !== 'string') {
@@ -216,15 +544,21 @@ async function handleProcessResponse(
       );
     }
     
+    const grouping = parseGrouping(args, connection);
+    const tags = parseTags(args.tags);
+    const redactionMode = parseRedactionMode(args.redactionMode);
+    
     // Process the response
     const result = await components.privacyDetector.processOutput(args.response);
     
     // Encrypt and store any private thoughts
-    const storedThoughts = [];
-    
-    for (const thought of result.privateThoughts) {
-      const encryptedData = await components.encryptionManager.encrypt(thought);
-      const thoughtMetadata = await components.storageManager.saveEncryptedThought(encryptedData);
+    for (const [index, thought] of result.privateThoughts.entries()) {
+      const thoughtMetadata = await storePrivateThought(components, thought, {
+        sourceTool: 'process_response',
+        ...grouping,
+        tags,
+        detection: result.detections?.[index]
+      });
       
       storedThoughts.push({
         id: thoughtMetadata.id,
@@ -234,28 +568,349 @@ async function handleProcessResponse(
       });
     }
     
+    // Redact again now that the ids of the stored thoughts are known
+    const publicOutput = components.privacyDetector.redact(
+      args.response,
+      result,
+      redactionMode,
+      storedThoughts.map(thought => thought.id)
+    );
+    
     // Return the public output and metadata about stored thoughts
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            publicOutput: result.publicOutput,
+            publicOutput,
             privateThoughtsCount: result.privateThoughts.length,
+            ...grouping,
             storedThoughts
           }, null, 2)
         }
+      ],
+      audit: { thoughtIds: storedThoughts.map(thought => thought.id) }
+    };
+  } catch (error) {
+    const failure = errorResult('Error processing response', error);
+    failure.audit!.thoughtIds = storedThoughts.map(thought => thought.id);
+    return failure;
+  }
+}
+
+/**
+ * Validate an optional redaction mode
+ * @returns The mode, or undefined for the configured one
+ */
+function parseRedactionMode(mode: unknown): PrivacyConfig['redactionMode'] | undefined {
+  if (mode === undefined) {
+    return undefined;
+  }
+  if (!REDACTION_MODES.includes(mode as PrivacyConfig['redactionMode'])) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `redactionMode must be one of: ${REDACTION_MODES.join(', ')}`
+    );
+  }
+  return mode as PrivacyConfig['redactionMode'];
+}
+
+/**
+ * Validate the optional session id and turn index of a thought. Without a
+ * session id, the thought is grouped under the connection's session.
+ */
+function parseGrouping(args: any, connection: ConnectionContext): ThoughtGrouping {
+  const grouping: ThoughtGrouping = { sessionId: connection.sessionId, turnIndex: null };
+  
+  if (args.sessionId !== undefined) {
+    if (
+      typeof args.sessionId !== 'string' ||
+      args.sessionId.length === 0 ||
+      args.sessionId.length > MAX_SESSION_ID_LENGTH
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `sessionId must be a string of 1-${MAX_SESSION_ID_LENGTH} characters`
+      );
+    }
+    grouping.sessionId = args.sessionId;
+  }
+  if (args.turnIndex !== undefined) {
+    if (!Number.isInteger(args.turnIndex) || args.turnIndex < 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'turnIndex must be a non-negative integer');
+    }
+    grouping.turnIndex = args.turnIndex;
+  }
+  return grouping;
+}
+
+/**
+ * Validate optional thought tags
+ * @returns The distinct tags, or an empty array if none were given
+ */
+function parseTags(tags: unknown): string[] {
+  if (tags === undefined) {
+    return [];
+  }
+  if (
+    !Array.isArray(tags) ||
+    tags.length > MAX_TAGS ||
+    !tags.every(tag => typeof tag === 'string' && TAG_PATTERN.test(tag))
+  ) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `tags must be an array of at most ${MAX_TAGS} tags of 1-64 letters, digits, "_", "-", "." or ":"`
+    );
+  }
+  return [...new Set<string>(tags)];
+}
+
+/**
+ * Encrypt a private thought and store it.
+ * Creation time, source tool, session, turn and tags travel in the
+ * envelope's associated data, so the thought index can be rebuilt from the file.
+ */
+async function storePrivateThought(
+  components: CoreComponents,
+  content: string,
+  metadata: ThoughtGrouping & { sourceTool: string; tags?: string[]; detection?: ThoughtDetection }
+): Promise<StoredThought> {
+  const associatedData: Record<string, string | number> = {
+    timestamp: Date.now(),
+    sourceTool: metadata.sourceTool,
+    sessionId: metadata.sessionId
+  };
+  if (metadata.turnIndex !== null) {
+    associatedData.turnIndex = metadata.turnIndex;
+  }
+  if (metadata.tags && metadata.tags.length > 0) {
+    // Tags cannot contain commas, so a joined string fits the associated data
+    associatedData.tags = metadata.tags.join(',');
+  }
+  
+  const encryptedData = await components.encryptionManager.encrypt(content, associatedData);
+  return components.storageManager.saveEncryptedThought(encryptedData, metadata.detection);
+}
+
+/**
+ * Handle rotate_key tool
+ * Creates a new active key and starts background re-encryption
+ */
+async function handleRotateKey(
+  components: CoreComponents
+): Promise<ToolResult> {
+  try {
+    const status = await components.keyRotationManager.rotate();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            rotation: status
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return errorResult('Error rotating key', error);
+  }
+}
+
+/**
+ * Handle unlock_keyring tool
+ * Unwraps the data keys with the out-of-band passphrase so that decryption becomes possible
+ */
+async function handleUnlockKeyring(
+  components: CoreComponents
+): Promise<ToolResult> {
+  try {
+    await components.encryptionManager.unlock();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            locked: components.encryptionManager.isLocked()
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return errorResult('Error unlocking key file', error);
+  }
+}
+
+/**
+ * Handle lock_keyring tool
+ * Zeroes all key material; encryption keeps working, decryption does not
+ */
+async function handleLockKeyring(
+  components: CoreComponents
+): Promise<ToolResult> {
+  try {
+    components.encryptionManager.lock();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            locked: components.encryptionManager.isLocked()
+          }, null, 2)
+        }
+      ]
+    };
+  } catch (error) {
+    return errorResult('Error locking key file', error);
+  }
+}
+
+/**
+ * Handle escrow_submit_share tool
+ * Collects shares in memory and unlocks the key file at the threshold
+ */
+async function handleEscrowSubmitShare(
+  components: CoreComponents, 
+  args: any
+): Promise<ToolResult> {
+  try {
+    // Validate input
+    if (!args.share || typeof args.share !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameter: share'
+      );
+    }
+    
+    const result = components.encryptionManager.submitEscrowShare(args.share);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            ...result
+          }, null, 2)
+        }
       ]
     };
   } catch (error) {
+    return errorResult('Error submitting share', error);
+  }
+}
+
+/**
+ * Handle purge_thoughts tool
+ * Securely deletes the thoughts matching the filters, or lists them in a dry run
+ */
+async function handlePurgeThoughts(
+  components: CoreComponents, 
+  args: any
+): Promise<ToolResult> {
+  try {
+    const filter = parsePurgeFilter(args);
+    const dryRun = args.dryRun === true;
+    
+    const result = await components.storageManager.purgeThoughts(filter, dryRun);
+    
     return {
       content: [
         {
           type: 'text',
-          text: `Error processing response: ${(error as Error).message}`
+          text: JSON.stringify({
+            success: result.failures.length === 0,
+            ...result
+          }, null, 2)
         }
       ],
-      isError: true
+      // A dry run is recorded once, without the thoughts it matched
+      audit: { thoughtIds: dryRun ? [] : result.thoughts.map(thought => thought.id) }
     };
+  } catch (error) {
+    return errorResult('Error purging thoughts', error);
+  }
+}
+
+/**
+ * Validate the purge_thoughts arguments; at least one filter is required
+ */
+function parsePurgeFilter(args: any): PurgeFilter {
+  const filter: PurgeFilter = {};
+  
+  if (args.ids !== undefined) {
+    if (!Array.isArray(args.ids) || !args.ids.every((id: unknown) => typeof id === 'string')) {
+      throw new McpError(ErrorCode.InvalidParams, 'ids must be an array of strings');
+    }
+    filter.ids = args.ids;
+  }
+  for (const key of ['from', 'to'] as const) {
+    if (args[key] !== undefined) {
+      const time = typeof args[key] === 'string' ? Date.parse(args[key]) : NaN;
+      if (Number.isNaN(time)) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an ISO 8601 date`);
+      }
+      filter[key] = time;
+    }
+  }
+  if (args.sessionId !== undefined) {
+    if (typeof args.sessionId !== 'string' || args.sessionId.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'sessionId must be a non-empty string');
+    }
+    filter.sessionId = args.sessionId;
+  }
+  
+  if (Object.keys(filter).length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'At least one filter is required: ids, from, to or sessionId'
+    );
+  }
+  return filter;
+}
+
+/**
+ * Handle reveal_thought tool
+ * Decrypts a thought for an authorized operator
+ */
+async function handleRevealThought(
+  components: CoreComponents, 
+  args: any
+): Promise<ToolResult> {
+  try {
+    // Validate input
+    if (!args.id || typeof args.id !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Missing required parameter: id'
+      );
+    }
+    const thoughtId: string = args.id;
+    
+    const encryptedData = await components.storageManager.readEncryptedThoughtById(thoughtId);
+    const content = await components.encryptionManager.decrypt(encryptedData);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            thought: {
+              id: thoughtId,
+              content
+            }
+          }, null, 2)
+        }
+      ],
+      audit: { thoughtIds: [thoughtId] }
+    };
+  } catch (error) {
+    return errorResult('Error revealing thought', error);
   }
 }
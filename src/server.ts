@@ -6,6 +6,7 @@ import { loadConfig, ServerConfig } from './config.js';
 import { createCoreComponents, CoreComponents } from './core/index.js';
 import { registerToolHandlers } from './mcp/tools.js';
 import { registerResourceHandlers } from './mcp/resources.js';
+import { ConnectionContext } from './mcp/connection.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
@@ -35,9 +36,16 @@ export async function createServer(config: ServerConfig): Promise<{
     }
   );
   
+  // Every connection gets its own session id for grouping thoughts
+  const connection = new ConnectionContext();
+  server.oninitialized = () => {
+    // stdout carries the protocol once connected, so log to stderr
+    console.error(`Client initialized; session ${connection.startSession()}`);
+  };
+  
   // Register handlers
   console.log('Registering handlers...');
-  registerToolHandlers(server, components);
+  registerToolHandlers(server, components, connection);
   registerResourceHandlers(server, components);
   
   // Set up error handling
@@ -87,5 +87,18 @@ export class StorageError extends LlmSecretsError {
   }
 }
 
+/**
+ * Get the code to record in the audit log for an error (never its message)
+ */
+export function errorCodeOf(error: unknown): string {
+  if (error instanceof LlmSecretsError) {
+    return error.code;
+  }
+  if (error instanceof McpError && error.code === ErrorCode.InvalidParams) {
+    return 'INVALID_INPUT';
+  }
+  return 'INTERNAL_ERROR';
+}
+
 // Re-export the types from the SDK
 export { ErrorCode, McpError };
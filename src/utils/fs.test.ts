@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fsPromises } from 'fs';
+import { TEMP_FILE_SUFFIX, createFileAtomic, removeStaleTempFiles, writeFileAtomic } from './fs.js';
+
+describe('atomic file writes', () => {
+  let dir: string;
+  
+  beforeEach(async () => {
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'llm-secrets-'));
+  });
+  
+  afterEach(async () => {
+    await fsPromises.rm(dir, { recursive: true, force: true });
+  });
+  
+  it('writeFileAtomic replaces a file and leaves no temporary file', async () => {
+    const file = path.join(dir, 'thought.enc');
+    await fsPromises.writeFile(file, 'old');
+    
+    await writeFileAtomic(file, 'new', 0o600);
+    
+    expect(await fsPromises.readFile(file, 'utf-8')).toBe('new');
+    expect(await fsPromises.readdir(dir)).toEqual(['thought.enc']);
+  });
+  
+  it('createFileAtomic creates a file with the given mode', async () => {
+    const file = path.join(dir, 'thought.enc');
+    
+    await createFileAtomic(file, 'content', 0o600);
+    
+    expect(await fsPromises.readFile(file, 'utf-8')).toBe('content');
+    expect((await fsPromises.stat(file)).mode & 0o777).toBe(0o600);
+    expect(await fsPromises.readdir(dir)).toEqual(['thought.enc']);
+  });
+  
+  it('createFileAtomic never replaces an existing file', async () => {
+    const file = path.join(dir, 'thought.enc');
+    await createFileAtomic(file, 'first');
+    
+    await expect(createFileAtomic(file, 'second')).rejects.toMatchObject({ code: 'EEXIST' });
+    
+    expect(await fsPromises.readFile(file, 'utf-8')).toBe('first');
+    expect(await fsPromises.readdir(dir)).toEqual(['thought.enc']);
+  });
+  
+  it('removeStaleTempFiles removes only temporary files', async () => {
+    await fsPromises.writeFile(path.join(dir, 'thought.enc'), 'kept');
+    await fsPromises.writeFile(path.join(dir, `.thought.enc.0a1b2c${TEMP_FILE_SUFFIX}`), 'partial');
+    
+    expect(await removeStaleTempFiles(dir)).toBe(1);
+    expect(await fsPromises.readdir(dir)).toEqual(['thought.enc']);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Filesystem helpers for the LLM-Secrets project
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+import { promises as fsPromises } from 'fs';
+import * as path from 'path';
+
+/** Suffix of the temporary files written by the helpers below */
+export const TEMP_FILE_SUFFIX = '.tmp';
+
+/**
+ * Write a file atomically: write to a temporary file in the same directory,
+ * fsync it, then rename it over the destination.
+ * Readers see either the old or the new content, never a partial write.
+ * @param filePath Destination path
+ * @param data Data to write
+ * @param mode Optional file mode for newly created files
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Buffer,
+  mode?: number
+): Promise<void> {
+  const tempPath = await writeTempFile(filePath, data, mode);
+  
+  try {
+    await fsPromises.rename(tempPath, filePath);
+  } catch (error) {
+    await fsPromises.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+  await syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Create a new file atomically, failing with EEXIST if it already exists.
+ * Like writeFileAtomic, but the temporary file is hard-linked into place,
+ * which never replaces an existing file. Resolves once the file is durable.
+ * @param filePath Destination path
+ * @param data Data to write
+ * @param mode Optional file mode
+ */
+export async function createFileAtomic(
+  filePath: string,
+  data: string | Buffer,
+  mode?: number
+): Promise<void> {
+  const tempPath = await writeTempFile(filePath, data, mode);
+  
+  try {
+    await fsPromises.link(tempPath, filePath);
+  } finally {
+    await fsPromises.unlink(tempPath).catch(() => undefined);
+  }
+  await syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Overwrite a file's contents with random bytes, fsync, then unlink it.
+ * This keeps the old contents out of the file's blocks on filesystems that
+ * write in place; copy-on-write filesystems and SSDs may still retain them.
+ * @param filePath File to remove
+ */
+export async function overwriteAndUnlink(filePath: string): Promise<void> {
+  const handle = await fsPromises.open(filePath, 'r+');
+  try {
+    const { size } = await handle.stat();
+    if (size > 0) {
+      await handle.write(crypto.randomBytes(size), 0, size, 0);
+      await handle.sync();
+    }
+  } finally {
+    await handle.close();
+  }
+  await fsPromises.unlink(filePath);
+  await syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Move a file to another directory on the same filesystem, failing with
+ * EEXIST rather than replacing an existing file. The file is linked at the
+ * new path before it is unlinked from the old one, so a crash never loses it.
+ * @param fromPath Current path
+ * @param toPath New path
+ */
+export async function moveFile(fromPath: string, toPath: string): Promise<void> {
+  await fsPromises.link(fromPath, toPath);
+  await syncDirectory(path.dirname(toPath));
+  await fsPromises.unlink(fromPath);
+  await syncDirectory(path.dirname(fromPath));
+}
+
+/**
+ * Remove temporary files left behind in a directory by interrupted writes
+ * @param dir Directory to clean
+ * @returns Number of files removed
+ */
+export async function removeStaleTempFiles(dir: string): Promise<number> {
+  let removed = 0;
+  for (const file of await fsPromises.readdir(dir)) {
+    if (file.startsWith('.') && file.endsWith(TEMP_FILE_SUFFIX)) {
+      await fsPromises.unlink(path.join(dir, file)).catch(() => undefined);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Write data to a new temporary file next to filePath and fsync it
+ * @returns Path of the temporary file
+ */
+async function writeTempFile(
+  filePath: string,
+  data: string | Buffer,
+  mode?: number
+): Promise<string> {
+  const dir = path.dirname(filePath);
+  const tempPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${crypto.randomBytes(6).toString('hex')}${TEMP_FILE_SUFFIX}`
+  );
+  
+  const handle = await fsPromises.open(tempPath, 'wx', mode);
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } catch (error) {
+    await handle.close();
+    await fsPromises.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+  await handle.close();
+  return tempPath;
+}
+
+/**
+ * fsync a directory so that a rename or link in it survives a crash.
+ * Not supported on every platform (e.g. Windows), so failures are ignored.
+ */
+async function syncDirectory(dir: string): Promise<void> {
+  try {
+    const handle = await fsPromises.open(dir, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    // Directory fsync is best effort
+  }
+}
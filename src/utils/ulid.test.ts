@@ -0,0 +1,24 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeTime, isUlid, ulid } from './ulid.js';
+
+describe('ulid', () => {
+  it('encodes the timestamp', () => {
+    const time = Date.UTC(2024, 0, 15, 12, 30);
+    const id = ulid(time);
+    
+    expect(isUlid(id)).toBe(true);
+    expect(decodeTime(id)).toBe(time);
+  });
+  
+  it('keeps ids within one millisecond unique and increasing', () => {
+    const time = Date.now();
+    const ids = Array.from({ length: 1000 }, () => ulid(time));
+    
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.slice().sort()).toEqual(ids);
+  });
+  
+  it('sorts ids by time', () => {
+    expect(ulid(1000) < ulid(2000)).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * ULID generation for the LLM-Secrets project
+ * A ULID is a 48-bit millisecond timestamp followed by 80 random bits,
+ * written as 26 Crockford base32 characters, so ids sort by creation time.
+ */
+/// <reference types="node" />
+
+import * as crypto from 'crypto';
+
+/** Crockford base32 alphabet */
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/** Random part of the last id, so ids within one millisecond stay ordered */
+let lastTime = -1;
+const lastRandom = Buffer.alloc(10);
+
+/**
+ * Generate a ULID.
+ * Ids generated within the same millisecond increment the random part
+ * instead of drawing a new one, so they remain strictly increasing.
+ * @param time Timestamp in ms (defaults to now)
+ */
+export function ulid(time: number = Date.now()): string {
+  if (time === lastTime) {
+    incrementRandom();
+  } else {
+    lastTime = time;
+    crypto.randomFillSync(lastRandom);
+  }
+  return encodeTime(time) + encodeRandom(lastRandom);
+}
+
+/**
+ * Check whether a string is a well-formed ULID
+ * @param value The string to check
+ */
+export function isUlid(value: string): boolean {
+  return /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/.test(value);
+}
+
+/**
+ * Get the timestamp encoded in a ULID
+ * @param value A well-formed ULID
+ * @returns Unix timestamp in ms
+ */
+export function decodeTime(value: string): number {
+  let time = 0;
+  for (const char of value.slice(0, 10)) {
+    time = time * 32 + ENCODING.indexOf(char);
+  }
+  return time;
+}
+
+/**
+ * Add one to the random part, carrying over bytes
+ */
+function incrementRandom(): void {
+  for (let i = lastRandom.length - 1; i >= 0; i--) {
+    if (lastRandom[i] < 0xff) {
+      lastRandom[i]++;
+      return;
+    }
+    lastRandom[i] = 0;
+  }
+}
+
+/**
+ * Encode a 48-bit timestamp as 10 base32 characters
+ */
+function encodeTime(time: number): string {
+  let encoded = '';
+  for (let i = 0; i < 10; i++) {
+    encoded = ENCODING[time % 32] + encoded;
+    time = Math.floor(time / 32);
+  }
+  return encoded;
+}
+
+/**
+ * Encode 80 random bits as 16 base32 characters
+ */
+function encodeRandom(random: Buffer): string {
+  let value = BigInt('0x' + random.toString('hex'));
+  let encoded = '';
+  for (let i = 0; i < 16; i++) {
+    encoded = ENCODING[Number(value & 31n)] + encoded;
+    value >>= 5n;
+  }
+  return encoded;
+}